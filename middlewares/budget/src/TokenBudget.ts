@@ -1,4 +1,4 @@
-import type { MiddlewarePlugin } from '@snap-agent/core';
+import type { MiddlewarePlugin, TokenMetrics } from '@snap-agent/core';
 
 /**
  * How to track budget
@@ -255,7 +255,7 @@ export class TokenBudget implements MiddlewarePlugin {
 
   async afterResponse(
     response: string,
-    context: { agentId: string; threadId?: string; metadata?: any }
+    context: { agentId: string; threadId?: string; metadata?: any; usage?: TokenMetrics }
   ): Promise<{ response: string; metadata?: any }> {
     // If request was rejected due to budget
     if (context.metadata?._skipLLM) {
@@ -267,7 +267,11 @@ export class TokenBudget implements MiddlewarePlugin {
 
     // Update budget usage based on response
     const key = context.metadata?.budgetKey || this.getKey(context);
-    const tokensUsed = context.metadata?.tokensUsed || this.estimateTokens(response);
+    // Prefer provider-reported usage over the text-length estimate
+    const tokensUsed =
+      context.usage?.totalTokens ||
+      context.metadata?.tokensUsed ||
+      this.estimateTokens(response);
     const model = context.metadata?._useFallbackModel || context.metadata?.model || 'gpt-4o-mini';
 
     await this.trackUsage(key, tokensUsed, model);
@@ -161,6 +161,24 @@ describe('TokenBudget', () => {
       expect(afterStatus.tokensUsed).toBe(100);
     });
 
+    it('should prefer provider-reported usage over metadata and estimates', async () => {
+      budget = new TokenBudget({
+        maxTokensPerPeriod: 10000,
+      });
+
+      await budget.afterResponse(
+        'This is a response',
+        {
+          agentId: 'agent-1',
+          metadata: { budgetKey: 'global', tokensUsed: 100, model: 'gpt-4o' },
+          usage: { promptTokens: 200, completionTokens: 50, totalTokens: 250 },
+        }
+      );
+
+      const afterStatus = await budget.getStatus('global');
+      expect(afterStatus.tokensUsed).toBe(250);
+    });
+
     it('should return exceeded message when skipped', async () => {
       budget = new TokenBudget({
         exceededMessage: 'Budget exceeded!',
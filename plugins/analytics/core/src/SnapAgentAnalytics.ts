@@ -227,6 +227,7 @@ export interface ErrorMetrics {
   llmErrors: number;
   ragErrors: number;
   pluginErrors: number;
+  toolErrors: number;
   dbErrors: number;
   networkErrors: number;
   timeoutErrors: number;
@@ -420,6 +421,7 @@ export class SnapAgentAnalytics implements AnalyticsPlugin {
     response: string;
     latency: number;
     tokensUsed?: number;
+    tokens?: TokenMetrics;
     timestamp: Date;
   }): Promise<void> {
     await this.trackResponseExtended({
@@ -429,7 +431,7 @@ export class SnapAgentAnalytics implements AnalyticsPlugin {
       responseLength: data.response.length,
       timestamp: data.timestamp,
       timings: { total: data.latency },
-      tokens: {
+      tokens: data.tokens || {
         promptTokens: 0,
         completionTokens: data.tokensUsed || 0,
         totalTokens: data.tokensUsed || 0,
@@ -944,6 +946,7 @@ export class SnapAgentAnalytics implements AnalyticsPlugin {
     const llmErrors = errors.filter((e) => e.component === 'llm').length;
     const ragErrors = errors.filter((e) => e.component === 'rag').length;
     const pluginErrors = errors.filter((e) => e.component === 'plugin').length;
+    const toolErrors = errors.filter((e) => e.component === 'tool').length;
     const dbErrors = errors.filter((e) => e.component === 'database').length;
     const networkErrors = errors.filter((e) => e.component === 'network').length;
     const timeoutErrors = errors.filter((e) => e.errorType === 'timeout').length;
@@ -966,6 +969,7 @@ export class SnapAgentAnalytics implements AnalyticsPlugin {
       llmErrors,
       ragErrors,
       pluginErrors,
+      toolErrors,
       dbErrors,
       networkErrors,
       timeoutErrors,
@@ -1210,6 +1214,68 @@ export class SnapAgentAnalytics implements AnalyticsPlugin {
     };
   }
 
+  /**
+   * Get all records of the given threads (e.g. to export an end user's data)
+   * With a storage adapter, pending records are flushed and read back from it
+   */
+  async getThreadRecords(threadIds: string[]): Promise<{
+    requests: StoredRequest[];
+    responses: StoredResponse[];
+    errors: StoredError[];
+  }> {
+    if (this.config.storage) {
+      await this.flush();
+      return this.storage.getThreadRecords(threadIds);
+    }
+
+    const ids = new Set(threadIds);
+    const inThreads = (r: { threadId?: string }) => !!r.threadId && ids.has(r.threadId);
+
+    return {
+      requests: this.requests.filter(inThreads),
+      responses: this.responses.filter(inThreads),
+      errors: this.errors.filter(inThreads),
+    };
+  }
+
+  /**
+   * Delete all records of the given threads (e.g. to erase an end user's data)
+   * Records are removed from the in-memory caches and, with a storage adapter, from it
+   */
+  async deleteThreadRecords(threadIds: string[]): Promise<{ requests: number; responses: number; errors: number }> {
+    if (this.config.storage) {
+      await this.flush();
+    }
+
+    const ids = new Set(threadIds);
+    const keep = (r: { threadId?: string }) => !r.threadId || !ids.has(r.threadId);
+    const counts = {
+      requests: this.requests.length,
+      responses: this.responses.length,
+      errors: this.errors.length,
+    };
+
+    this.requests = this.requests.filter(keep);
+    this.responses = this.responses.filter(keep);
+    this.errors = this.errors.filter(keep);
+    this.pendingRequests = this.pendingRequests.filter(keep);
+    this.pendingResponses = this.pendingResponses.filter(keep);
+    this.pendingErrors = this.pendingErrors.filter(keep);
+    for (const threadId of threadIds) {
+      this.threadStats.delete(threadId);
+    }
+
+    if (this.config.storage) {
+      return this.storage.deleteThreadRecords(threadIds);
+    }
+
+    return {
+      requests: counts.requests - this.requests.length,
+      responses: counts.responses - this.responses.length,
+      errors: counts.errors - this.errors.length,
+    };
+  }
+
   /**
    * Clear all analytics data
    */
@@ -119,6 +119,20 @@ export interface AnalyticsStorage {
    */
   deleteOlderThan(date: Date): Promise<{ requests: number; responses: number; errors: number }>;
 
+  /**
+   * Get all records of the given threads (e.g. to export an end user's data)
+   */
+  getThreadRecords(threadIds: string[]): Promise<{
+    requests: StoredRequest[];
+    responses: StoredResponse[];
+    errors: StoredError[];
+  }>;
+
+  /**
+   * Delete all records of the given threads (e.g. to erase an end user's data)
+   */
+  deleteThreadRecords(threadIds: string[]): Promise<{ requests: number; responses: number; errors: number }>;
+
   /**
    * Clear all analytics data
    */
@@ -75,6 +75,41 @@ export class MemoryAnalyticsStorage implements AnalyticsStorage {
     };
   }
 
+  async getThreadRecords(threadIds: string[]): Promise<{
+    requests: StoredRequest[];
+    responses: StoredResponse[];
+    errors: StoredError[];
+  }> {
+    const ids = new Set(threadIds);
+    const inThreads = (r: { threadId?: string }) => !!r.threadId && ids.has(r.threadId);
+
+    return {
+      requests: this.requests.filter(inThreads),
+      responses: this.responses.filter(inThreads),
+      errors: this.errors.filter(inThreads),
+    };
+  }
+
+  async deleteThreadRecords(threadIds: string[]): Promise<{ requests: number; responses: number; errors: number }> {
+    const ids = new Set(threadIds);
+    const keep = (r: { threadId?: string }) => !r.threadId || !ids.has(r.threadId);
+    const counts = {
+      requests: this.requests.length,
+      responses: this.responses.length,
+      errors: this.errors.length,
+    };
+
+    this.requests = this.requests.filter(keep);
+    this.responses = this.responses.filter(keep);
+    this.errors = this.errors.filter(keep);
+
+    return {
+      requests: counts.requests - this.requests.length,
+      responses: counts.responses - this.responses.length,
+      errors: counts.errors - this.errors.length,
+    };
+  }
+
   async clear(): Promise<void> {
     this.requests = [];
     this.responses = [];
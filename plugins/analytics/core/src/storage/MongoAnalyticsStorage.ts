@@ -219,6 +219,42 @@ export class MongoAnalyticsStorage implements AnalyticsStorage {
     };
   }
 
+  async getThreadRecords(threadIds: string[]): Promise<{
+    requests: StoredRequest[];
+    responses: StoredResponse[];
+    errors: StoredError[];
+  }> {
+    await this.ensureConnection();
+
+    const query = { threadId: { $in: threadIds } };
+
+    const [requests, responses, errors] = await Promise.all([
+      this.requestsCollection!.find(query).sort({ timestamp: 1 }).toArray(),
+      this.responsesCollection!.find(query).sort({ timestamp: 1 }).toArray(),
+      this.errorsCollection!.find(query).sort({ timestamp: 1 }).toArray(),
+    ]);
+
+    return { requests, responses, errors };
+  }
+
+  async deleteThreadRecords(threadIds: string[]): Promise<{ requests: number; responses: number; errors: number }> {
+    await this.ensureConnection();
+
+    const query = { threadId: { $in: threadIds } };
+
+    const [requestsResult, responsesResult, errorsResult] = await Promise.all([
+      this.requestsCollection!.deleteMany(query),
+      this.responsesCollection!.deleteMany(query),
+      this.errorsCollection!.deleteMany(query),
+    ]);
+
+    return {
+      requests: requestsResult.deletedCount,
+      responses: responsesResult.deletedCount,
+      errors: errorsResult.deletedCount,
+    };
+  }
+
   async clear(): Promise<void> {
     await this.ensureConnection();
 
@@ -237,6 +237,23 @@ describe('MemoryAnalyticsStorage', () => {
     });
   });
 
+  describe('thread records', () => {
+    it('should get and delete the records of the given threads', async () => {
+      await storage.saveRequests([createRequest('req-1'), { ...createRequest('req-2'), threadId: 'thread-2' }]);
+      await storage.saveResponses([createResponse('res-1')]);
+      await storage.saveErrors([{ ...createError('err-1'), threadId: undefined }]);
+
+      const records = await storage.getThreadRecords(['thread-1']);
+      expect(records.requests.map((r) => r.id)).toEqual(['req-1']);
+      expect(records.responses.map((r) => r.id)).toEqual(['res-1']);
+      expect(records.errors).toEqual([]);
+
+      const result = await storage.deleteThreadRecords(['thread-1']);
+      expect(result).toEqual({ requests: 1, responses: 1, errors: 0 });
+      expect(storage.getStats()).toEqual({ requests: 1, responses: 0, errors: 1 });
+    });
+  });
+
   describe('clear', () => {
     it('should clear all data', async () => {
       await storage.saveRequests([createRequest('req-1')]);
@@ -112,6 +112,21 @@ describe('SnapAgentAnalytics', () => {
       const costMetrics = analytics.getCostMetrics();
       expect(costMetrics.totalTokens).toBe(100);
     });
+
+    it('should use provider-reported token metrics when available', async () => {
+      await analytics.trackResponse({
+        agentId: 'agent-1',
+        response: 'Response text',
+        latency: 500,
+        tokensUsed: 100,
+        tokens: { promptTokens: 80, completionTokens: 20, totalTokens: 100 },
+        timestamp: new Date(),
+      });
+
+      const costMetrics = analytics.getCostMetrics();
+      expect(costMetrics.totalPromptTokens).toBe(80);
+      expect(costMetrics.totalCompletionTokens).toBe(20);
+    });
   });
 
   // ==========================================================================
@@ -707,6 +722,25 @@ describe('SnapAgentAnalytics', () => {
     });
   });
 
+  describe('thread records', () => {
+    it('should get and delete records by thread, including unflushed ones', async () => {
+      const storage = new MemoryAnalyticsStorage();
+      const a = new SnapAgentAnalytics({ storage });
+
+      await a.trackRequest({ agentId: 'agent-1', threadId: 'thread-1', message: 'Hello', timestamp: new Date() });
+      await a.trackRequest({ agentId: 'agent-1', threadId: 'thread-2', message: 'Hi', timestamp: new Date() });
+
+      expect((await a.getThreadRecords(['thread-1'])).requests).toHaveLength(1);
+
+      const result = await a.deleteThreadRecords(['thread-1']);
+
+      expect(result).toEqual({ requests: 1, responses: 0, errors: 0 });
+      expect(a.exportData().requests.map((r) => r.threadId)).toEqual(['thread-2']);
+      expect(a.getSummary().totalThreads).toBe(1);
+      await a.stop();
+    });
+  });
+
   describe('getSummary', () => {
     it('should return summary statistics', async () => {
       await analytics.trackRequest({
@@ -460,6 +460,23 @@ export class CMSRAGPlugin implements RAGPlugin {
     return result.deletedCount;
   }
 
+  /**
+   * Delete all of an agent's documents
+   * Tenant-wide ('shared') documents are kept
+   */
+  async deleteAll(options: IngestOptions): Promise<number> {
+    if (!options.agentId || options.agentId === 'shared') {
+      throw new Error('agentId is required');
+    }
+
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({
+      tenantId: this.config.tenantId,
+      agentId: options.agentId,
+    });
+    return result.deletedCount;
+  }
+
   /**
    * Bulk operations
    */
@@ -168,6 +168,12 @@ describe('CMSRAGPlugin', () => {
       const count = await plugin.delete(['doc-1', 'doc-2']);
       expect(count).toBe(1); // Mocked to return 1
     });
+
+    it("should delete all of an agent's documents but not shared ones", async () => {
+      const count = await plugin.deleteAll({ agentId: 'agent-1' });
+      expect(count).toBe(1);
+      await expect(plugin.deleteAll({ agentId: 'shared' })).rejects.toThrow('agentId is required');
+    });
   });
 
   describe('bulk operations', () => {
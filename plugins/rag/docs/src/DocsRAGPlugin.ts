@@ -600,6 +600,28 @@ export class DocsRAGPlugin implements RAGPlugin {
     return initialCount - filtered.length;
   }
 
+  /**
+   * Delete all of an agent's documents and their chunks
+   */
+  async deleteAll(options: IngestOptions): Promise<number> {
+    if (!options.agentId) {
+      throw new Error('agentId is required');
+    }
+
+    // Count documents, not chunks, like the other RAG plugins
+    const agentChunks = this.chunks.get(options.agentId) || [];
+    const count = new Set(agentChunks.map((chunk) => chunk.documentId)).size;
+    this.chunks.delete(options.agentId);
+
+    for (const key of [...this.documents.keys()]) {
+      if (key.startsWith(`${options.agentId}:`)) {
+        this.documents.delete(key);
+      }
+    }
+
+    return count;
+  }
+
   /**
    * Generate embedding using configured provider (OpenAI or Voyage)
    */
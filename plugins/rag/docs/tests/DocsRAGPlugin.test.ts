@@ -579,6 +579,19 @@ Third paragraph with even more content.`;
 
       expect(deleted).toBe(0);
     });
+
+    it("should delete all of an agent's documents and count them", async () => {
+      await plugin.ingest(
+        [{ id: 'doc4', content: '# Setup\n\nInstall the package.\n\n# Usage\n\nImport the client.' }],
+        { agentId: 'agent-1' }
+      );
+      expect(plugin.getStats().agentStats['agent-1'].totalChunks).toBeGreaterThan(4);
+
+      const deleted = await plugin.deleteAll({ agentId: 'agent-1' });
+
+      expect(deleted).toBe(4);
+      expect(plugin.getStats().agentStats['agent-1']).toBeUndefined();
+    });
   });
 
   // ============================================================================
@@ -1081,6 +1081,24 @@ export class EcommerceRAGPlugin implements RAGPlugin {
     return result.deletedCount;
   }
 
+  /**
+   * Delete all of an agent's products
+   * Tenant-wide ('shared') products are kept
+   */
+  async deleteAll(options: IngestOptions): Promise<number> {
+    if (!options.agentId || options.agentId === 'shared') {
+      throw new Error('agentId is required');
+    }
+
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({
+      tenantId: this.config.tenantId,
+      agentId: options.agentId,
+    });
+
+    return result.deletedCount;
+  }
+
   /**
    * Bulk operations for efficient batch processing
    */
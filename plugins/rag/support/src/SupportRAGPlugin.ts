@@ -549,6 +549,20 @@ export class SupportRAGPlugin implements RAGPlugin {
     return initialCount - filtered.length;
   }
 
+  /**
+   * Delete all of an agent's documents
+   */
+  async deleteAll(options: IngestOptions): Promise<number> {
+    if (!options.agentId) {
+      throw new Error('agentId is required');
+    }
+
+    const count = this.documents.get(options.agentId)?.length || 0;
+    this.documents.delete(options.agentId);
+
+    return count;
+  }
+
   /**
    * Generate embedding using OpenAI
    */
@@ -170,39 +170,34 @@ app.post('/api/chat/stream', async (req: Request, res: Response) => {
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
 
+  // Stop generating (and paying for tokens) when the client disconnects
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
   try {
-    await client.chatStream(
-      {
-        threadId,
-        message,
-        attachments,
-        useRAG,
-        ragFilters,
-      },
-      {
-        onChunk: (chunk) => {
-          // Send each chunk as SSE data
-          res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
-        },
-        onComplete: (fullResponse, metadata) => {
-          // Send completion event with metadata (includes RAG context info, latency, etc.)
-          res.write(`data: ${JSON.stringify({ type: 'complete', content: fullResponse, metadata })}\n\n`);
-          res.write('event: done\ndata: [DONE]\n\n');
-          res.end();
-        },
-        onError: (error) => {
-          // Send error event
-          res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
-          res.write('event: done\ndata: [DONE]\n\n');
-          res.end();
-        },
-      }
-    );
+    const events = client.chatEvents({
+      threadId,
+      message,
+      attachments,
+      useRAG,
+      ragFilters,
+      signal: controller.signal,
+    });
+
+    // Each event (text-delta, sources, tool-call, usage, done) becomes one SSE message
+    for await (const event of events) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
   } catch (error) {
-    res.write(`data: ${JSON.stringify({ type: 'error', error: 'Internal server error' })}\n\n`);
-    res.write('event: done\ndata: [DONE]\n\n');
-    res.end();
+    res.write(`event: error\ndata: ${JSON.stringify({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error',
+    })}\n\n`);
   }
+
+  res.end();
 });
 
 // Get thread messages
@@ -1,14 +1,38 @@
-import { generateText, streamText, Output } from 'ai';
-import type { UserModelMessage, AssistantModelMessage, Schema } from 'ai';
+import {
+  generateText,
+  streamText,
+  Output,
+  tool,
+  jsonSchema,
+  stepCountIs,
+  parsePartialJson,
+} from 'ai';
+import type {
+  UserModelMessage,
+  AssistantModelMessage,
+  ToolModelMessage,
+  ToolSet,
+  StepResult,
+  DeepPartial,
+  LanguageModel,
+  LanguageModelUsage,
+  FinishReason,
+} from 'ai';
 import { ProviderFactory } from '../providers';
 import { PluginManager } from './PluginManager';
 import { PluginRegistry } from './PluginRegistry';
+import { iterateEvents } from './streaming';
+import { createMemoryStrategy, estimateTokens } from './memory';
+import type { MemoryStrategy } from './memory';
+import { AgentToolPlugin } from '../inc';
+import type { AgentToolConfig } from '../inc';
 import {
   AgentConfig,
   AgentData,
   AgentFile,
   StorageAdapter,
   AgentNotFoundError,
+  RequestCancelledError,
   Plugin,
   RAGDocument,
   IngestResult,
@@ -16,14 +40,93 @@ import {
   BulkOperation,
   BulkResult,
   StoredPluginConfig,
+  ToolCallRecord,
+  PendingToolCall,
+  MessageContentPart,
+  OutputConfig,
+  StreamCallbacks,
+  StreamEvent,
+  TokenUsage,
+  RAGSource,
+  PerformanceTimings,
+  RAGMetrics,
+  RequestTrackingData,
+  ResponseTrackingData,
+  ModelFallback,
+  HandoffTarget,
+  RetryPolicy,
+  RetryableErrorClass,
+  MessageData,
+  FileResolver,
+  ToolExecutionContext,
 } from '../types';
 import type {
   URLSource,
   URLIngestResult,
 } from '../types';
 
+// Default number of model steps allowed when tools are available
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+// Retry defaults, matching the AI SDK's built-in retry behaviour
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 2,
+  initialDelayMs: 2000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+  retryOn: ['rate_limit', 'server', 'timeout', 'network'],
+};
+
+// Built-in tool the model calls to hand the conversation to another agent
+const HANDOFF_TOOL_NAME = 'transfer_to_agent';
+
+// Rough prompt cost of an image or file part in token-budgeted mode
+const ATTACHMENT_TOKEN_ESTIMATE = 1000;
+
+// Instructions for folding messages into a thread's running summary
+const SUMMARY_INSTRUCTION = 'You maintain a running summary of a conversation between a user and an assistant. Extend the existing summary with the new messages. Keep names, facts, decisions, preferences and open questions; drop small talk. Reply with the updated summary only.';
+
+// Instructions for pulling long-term user facts out of an exchange
+const FACT_EXTRACTION_INSTRUCTION = 'You extract lasting facts about the user from a conversation: identity, preferences, circumstances and commitments worth remembering in future conversations. Ignore small talk, one-off requests and anything already in the known facts. Reply with a JSON array only, e.g. [{"content": "Prefers email over phone", "category": "preference"}], or [] when there is nothing new.';
+
+// System prompt suffix used for flexible JSON output mode
+const JSON_OUTPUT_INSTRUCTION = '\n\n---\nOUTPUT FORMAT: You MUST respond with valid JSON only. No markdown code blocks, no explanations, no additional text - just raw JSON that can be parsed directly.';
+
 // Type for messages accepted by the AI SDK
-type AIMessage = UserModelMessage | AssistantModelMessage;
+type AIMessage = UserModelMessage | AssistantModelMessage | ToolModelMessage;
+
+// Intermediate message produced by a tool step, persisted to the thread before the final reply
+type ToolStepMessage = {
+  role: 'assistant' | 'tool';
+  content: string;
+  parts: MessageContentPart[];
+};
+
+// Options accepted by streamResponse
+type StreamResponseOptions<T> = Pick<
+  StreamCallbacks<T>,
+  'onPartialObject' | 'onSources' | 'onToolCall'
+> & {
+  onUsage?: (usage: TokenUsage, answeredBy: ModelFallback) => void;
+  useRAG?: boolean;
+  ragFilters?: Record<string, any>;
+  threadId?: string;
+  output?: OutputConfig<T>;
+  signal?: AbortSignal;
+  conversationSummary?: string;
+  userMemories?: string[];
+  maxInputTokens?: number;
+  excludeHandoffs?: string[];
+};
+
+// Tool activity collected while a single turn runs
+type ToolTurnState = {
+  toolCalls: ToolCallRecord[];
+  toolMessages: ToolStepMessage[];
+  pendingToolCalls: PendingToolCall[];
+  handoff?: { agentId: string; reason?: string };
+  toolExecutionTime: number;
+};
 
 /**
  * Helper function to extract text content from a message
@@ -44,6 +147,237 @@ function extractTextContent(content: AIMessage['content']): string {
     .join(' ');
 }
 
+/**
+ * Helper function to check whether a file can be ingested as text
+ */
+function isTextContentType(contentType: string): boolean {
+  return (
+    contentType.startsWith('text/') ||
+    /^application\/([\w.-]+\+)?(json|xml|yaml|x-yaml)$/.test(contentType)
+  );
+}
+
+/**
+ * Helper function to parse and validate streamed structured output
+ * Returns undefined when the text is not valid JSON or fails schema validation
+ */
+async function parseStructuredOutput<T>(
+  text: string,
+  output: OutputConfig<T>
+): Promise<T | undefined> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  if (output.mode === 'object' && output.schema.validate) {
+    const validation = await output.schema.validate(value);
+    return validation.success ? validation.value : undefined;
+  }
+
+  return value as T;
+}
+
+/**
+ * Helper function to check that a turn ended on a final answer, the only step with structured output
+ * Turns stopped by a call awaiting approval, a handoff or the step limit have none
+ */
+function endedWithAnswer(finishReason: FinishReason, toolState: ToolTurnState): boolean {
+  return finishReason === 'stop' && toolState.pendingToolCalls.length === 0 && !toolState.handoff;
+}
+
+/**
+ * Helper function to find the text of the most recent user message
+ * Falls back to the last message when there is no user message
+ */
+function lastUserMessageText(messages: AIMessage[]): string {
+  const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
+  return extractTextContent((lastUserMessage ?? messages[messages.length - 1]).content);
+}
+
+/**
+ * Helper function to stop a turn whose request signal was aborted
+ */
+function throwIfCancelled(signal: AbortSignal | undefined, partialResponse: string): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError(partialResponse);
+  }
+}
+
+/**
+ * Helper function to estimate the tokens of a message
+ * Images and files count as a flat ATTACHMENT_TOKEN_ESTIMATE rather than by their bytes
+ */
+function estimateAIMessageTokens(message: AIMessage): number {
+  if (typeof message.content === 'string') {
+    return estimateTokens(message.content);
+  }
+
+  return message.content.reduce((sum: number, part) => {
+    if (part.type === 'image' || part.type === 'file') {
+      return sum + ATTACHMENT_TOKEN_ESTIMATE;
+    }
+    return sum + estimateTokens(JSON.stringify(part));
+  }, 0);
+}
+
+/**
+ * Helper function to trim history and RAG context to an input token budget
+ * The oldest messages go first; RAG context is only cut once just the latest message is left
+ */
+function fitToTokenBudget(
+  messages: AIMessage[],
+  systemPrompt: string,
+  ragContext: string,
+  maxInputTokens?: number
+): {
+  messages: AIMessage[];
+  ragContext: string;
+  window?: {
+    maxInputTokens: number;
+    estimatedTokens: number;
+    droppedMessages: number;
+    ragTruncated: boolean;
+  };
+} {
+  if (!maxInputTokens) {
+    return { messages, ragContext };
+  }
+
+  const messageTokens = messages.map(estimateAIMessageTokens);
+  const systemTokens = estimateTokens(systemPrompt);
+  let historyTokens = messageTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  let start = 0;
+  const dropOldest = () => {
+    historyTokens -= messageTokens[start];
+    start++;
+  };
+  while (
+    start < messages.length - 1 &&
+    systemTokens + estimateTokens(ragContext) + historyTokens > maxInputTokens
+  ) {
+    dropOldest();
+  }
+  // Tool results cannot be sent without their tool call
+  while (start < messages.length - 1 && messages[start].role === 'tool') {
+    dropOldest();
+  }
+
+  const ragBudget = Math.max(maxInputTokens - systemTokens - historyTokens, 0);
+  const fittedRAG =
+    estimateTokens(ragContext) > ragBudget ? ragContext.slice(0, ragBudget * 4) : ragContext;
+
+  return {
+    messages: messages.slice(start),
+    ragContext: fittedRAG,
+    window: {
+      maxInputTokens,
+      estimatedTokens: systemTokens + estimateTokens(fittedRAG) + historyTokens,
+      droppedMessages: start,
+      ragTruncated: fittedRAG.length < ragContext.length,
+    },
+  };
+}
+
+/**
+ * Helper function to classify a provider error for the retry policy
+ * Returns undefined for errors that retrying cannot fix (e.g. invalid requests)
+ */
+function classifyError(error: unknown): RetryableErrorClass | undefined {
+  const details = (error ?? {}) as { statusCode?: unknown; isRetryable?: unknown; name?: unknown };
+
+  if (typeof details.statusCode === 'number') {
+    if (details.statusCode === 429) return 'rate_limit';
+    if (details.statusCode === 408) return 'timeout';
+    if (details.statusCode >= 500) return 'server';
+    return undefined;
+  }
+
+  if (details.name === 'TimeoutError') return 'timeout';
+
+  // Failed fetches surface as retryable API errors without a status code
+  if (details.isRetryable === true || error instanceof TypeError) return 'network';
+
+  return undefined;
+}
+
+/**
+ * Helper function to compute the backoff delay before a retry
+ */
+function retryDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  return Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt),
+    policy.maxDelayMs
+  );
+}
+
+/**
+ * Helper function to wait between retries, returning early when the request is cancelled
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Helper function to start the tool state of a turn attempt
+ */
+function createToolTurnState(): ToolTurnState {
+  return { toolCalls: [], toolMessages: [], pendingToolCalls: [], toolExecutionTime: 0 };
+}
+
+/**
+ * Helper function to add token counts
+ */
+function sumUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+    completionTokens: (a?.completionTokens ?? 0) + b.completionTokens,
+    totalTokens: (a?.totalTokens ?? 0) + b.totalTokens,
+  };
+}
+
+/**
+ * Helper function to add tokens spent inside tools (e.g. by sub-agents) to a turn's usage
+ */
+function addToolUsage(
+  usage: TokenUsage | undefined,
+  toolCalls: ToolCallRecord[]
+): TokenUsage | undefined {
+  return toolCalls.reduce(
+    (total, call) => (call.usage ? sumUsage(total, call.usage) : total),
+    usage
+  );
+}
+
+/**
+ * Helper function to convert AI SDK usage into the SDK's token usage shape
+ * Returns undefined when the provider did not report usage
+ */
+function toTokenUsage(usage: LanguageModelUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  const promptTokens = usage.inputTokens ?? 0;
+  const completionTokens = usage.outputTokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+  };
+}
+
 /**
  * Agent class representing an AI agent with persistent state
  */
@@ -205,13 +539,55 @@ export class Agent {
 
   /**
    * Add files to the agent
+   * Only the file records are stored here; contents live in a FileStorageAdapter
    */
   async addFiles(files: AgentFile[]): Promise<void> {
-    // Update in storage (implementation depends on storage adapter)
-    // For now, we'll update via the agent update
-    const currentFiles = [...this.data.files, ...files];
-    this.data.files = currentFiles;
+    const added = new Set(files.map((file) => file.fileId));
+    this.data.files = [...this.data.files.filter((file) => !added.has(file.fileId)), ...files];
     this.data.updatedAt = new Date();
+
+    await this.storage.updateAgent(this.data.id, { files: this.data.files });
+  }
+
+  /**
+   * Remove a file record from the agent
+   */
+  async removeFile(fileId: string): Promise<void> {
+    this.data.files = this.data.files.filter((file) => file.fileId !== fileId);
+    this.data.updatedAt = new Date();
+
+    await this.storage.updateAgent(this.data.id, { files: this.data.files });
+  }
+
+  /**
+   * Ingest text files into RAG plugins, one document per file (ID = fileId)
+   * Files that are not text (e.g. images, PDFs) or are missing from the store are skipped
+   */
+  async ingestFiles(
+    files: AgentFile[],
+    fileStorage: FileResolver,
+    options?: IngestOptions
+  ): Promise<{ results: IngestResult[]; skipped: AgentFile[] }> {
+    const documents: RAGDocument[] = [];
+    const skipped: AgentFile[] = [];
+
+    for (const file of files) {
+      const content = await fileStorage.get(file.fileId);
+      const contentType = file.contentType || content?.contentType || '';
+      if (!content || !isTextContentType(contentType)) {
+        skipped.push(file);
+        continue;
+      }
+
+      documents.push({
+        id: file.fileId,
+        content: new TextDecoder().decode(content.data),
+        metadata: { fileId: file.fileId, filename: file.filename, contentType },
+      });
+    }
+
+    const results = documents.length > 0 ? await this.ingestDocuments(documents, options) : [];
+    return { results, skipped };
   }
 
   /**
@@ -223,118 +599,203 @@ export class Agent {
       useRAG?: boolean;
       ragFilters?: Record<string, any>;
       threadId?: string;
-      output?:
-      | { mode: 'json' }                           // Flexible JSON (parsed manually)
-      | { mode: 'object'; schema: Schema<T> }      // Structured object with Zod schema
+      output?: OutputConfig<T>;
+      signal?: AbortSignal;
+      conversationSummary?: string; // Summary of messages outside the conversation window
+      userMemories?: string[]; // Long-term facts about the end user
+      maxInputTokens?: number; // Trim history and RAG context to fit this many input tokens
+      excludeHandoffs?: string[]; // Handoff targets to hide, e.g. agents already visited this turn
     }
   ): Promise<{
     text: string;
     parsed?: T;  // Typed result when using 'object' mode, unknown for 'json' mode
+    usage?: TokenUsage;  // Token usage reported by the provider across all steps
     metadata?: Record<string, any>;
   }> {
     const startTime = Date.now();
+    const timings: PerformanceTimings = { total: 0, pluginExecutionTime: 0 };
+    const query = lastUserMessageText(messages);
 
     // Track request in analytics plugins
     if (messages.length > 0) {
-      await this.pluginManager.trackRequest({
-        agentId: this.data.id,
-        threadId: options?.threadId,
-        message: extractTextContent(messages[messages.length - 1].content),
-        timestamp: new Date(),
-      });
+      await this.pluginManager.trackRequestExtended(this.requestTrackingData(query, options?.threadId));
     }
 
     // Execute middleware before request
+    let pluginStart = Date.now();
     const beforeResult = await this.pluginManager.executeBeforeRequest(messages, {
       agentId: this.data.id,
       threadId: options?.threadId,
+      signal: options?.signal,
     });
+    timings.pluginExecutionTime! += Date.now() - pluginStart;
 
-    let systemPrompt = this.data.instructions;
+    let systemPrompt = this.systemPrompt(options);
+    let ragContext = '';
     let ragMetadata: Record<string, any>[] = [];
+    let ragMetrics: RAGMetrics | undefined;
 
     // Execute RAG plugins if enabled
     if (options?.useRAG && this.pluginManager.hasPluginsOfType('rag')) {
-      const lastMessage = messages[messages.length - 1];
-      const { contexts, allMetadata } = await this.pluginManager.executeRAG(
-        extractTextContent(lastMessage.content),
+      const retrieval = await this.retrieveContext(query, options);
+      ragContext = retrieval.context;
+      ragMetadata = retrieval.ragMetadata;
+      ragMetrics = retrieval.metrics;
+      timings.ragRetrievalTime = retrieval.time;
+    }
+
+    // Trim history and RAG context to the input token budget
+    const fitted = fitToTokenBudget(
+      beforeResult.messages,
+      systemPrompt,
+      ragContext,
+      options?.maxInputTokens
+    );
+    systemPrompt += fitted.ragContext;
+
+    throwIfCancelled(options?.signal, '');
+
+    let toolState = createToolTurnState();
+
+    const llmStart = Date.now();
+    let generation: {
+      text: string;
+      parsed?: T;
+      usage?: TokenUsage;
+      answeredBy: ModelFallback;
+    };
+    try {
+      generation = await this.withModelFallback(
+        async (model, answeredBy) => {
+          // Expose tool plugins to the model, with fresh state for every attempt
+          toolState = createToolTurnState();
+          const toolOptions = this.buildToolOptions(toolState, {
+            excludeHandoffs: options?.excludeHandoffs,
+            threadId: options?.threadId,
+            signal: options?.signal,
+          });
+
+          if (options?.output?.mode === 'object') {
+            // Structured object output using AI SDK's experimental_output
+            // This validates the response against the schema and provides type safety
+            const result = await generateText({
+              model,
+              messages: fitted.messages,
+              system: systemPrompt,
+              experimental_output: Output.object({ schema: options.output.schema }),
+              abortSignal: options.signal,
+              maxRetries: 0,
+              ...toolOptions,
+            });
+            // Reading the output of a turn without a final answer throws NoOutputGeneratedError
+            const parsed = endedWithAnswer(result.finishReason, toolState)
+              ? (result.experimental_output as T)
+              : undefined;
+            return {
+              text: parsed !== undefined ? JSON.stringify(parsed) : result.text,
+              parsed,
+              usage: toTokenUsage(result.totalUsage),
+              answeredBy,
+            };
+          }
+
+          if (options?.output?.mode === 'json') {
+            // Flexible JSON mode - add instruction and parse manually
+            const result = await generateText({
+              model,
+              messages: fitted.messages,
+              system: systemPrompt + JSON_OUTPUT_INSTRUCTION,
+              abortSignal: options.signal,
+              maxRetries: 0,
+              ...toolOptions,
+            });
+            let parsed: T | undefined;
+            try {
+              parsed = JSON.parse(result.text) as T;
+            } catch {
+              // LLM didn't return valid JSON - leave parsed undefined
+            }
+            return {
+              text: result.text,
+              parsed,
+              usage: toTokenUsage(result.totalUsage),
+              answeredBy,
+            };
+          }
+
+          // Default: plain text mode
+          const result = await generateText({
+            model,
+            messages: fitted.messages,
+            system: systemPrompt,
+            abortSignal: options?.signal,
+            maxRetries: 0,
+            ...toolOptions,
+          });
+          return {
+            text: result.text,
+            usage: toTokenUsage(result.totalUsage),
+            answeredBy,
+          };
+        },
         {
-          agentId: this.data.id,
-          threadId: options.threadId,
-          filters: options.ragFilters,
+          threadId: options?.threadId,
+          signal: options?.signal,
+          // Tools that already ran must not run again on a retry or another model
+          canRetry: () => toolState.toolCalls.length === 0,
         }
       );
-
-      if (contexts.length > 0) {
-        systemPrompt += '\n\n' + contexts.join('\n\n');
-      }
-      ragMetadata = allMetadata;
+    } catch (error) {
+      throwIfCancelled(options?.signal, '');
+      throw error;
     }
+    timings.llmApiTime = Date.now() - llmStart;
 
-    // Generate response
-    const model = await this.providerFactory.getModel(this.data.provider, this.data.model);
-
-    let text: string;
-    let parsed: T | undefined;
-
-    if (options?.output?.mode === 'object') {
-      // Structured object output using AI SDK's experimental_output
-      // This validates the response against the schema and provides type safety
-      const result = await generateText({
-        model,
-        messages: beforeResult.messages,
-        system: systemPrompt,
-        experimental_output: Output.object({ schema: options.output.schema }),
-      });
-      text = JSON.stringify(result.experimental_output);
-      parsed = result.experimental_output as T;
-    } else if (options?.output?.mode === 'json') {
-      // Flexible JSON mode - add instruction and parse manually
-      const jsonSystemPrompt = systemPrompt + '\n\n---\nOUTPUT FORMAT: You MUST respond with valid JSON only. No markdown code blocks, no explanations, no additional text - just raw JSON that can be parsed directly.';
-      const result = await generateText({
-        model,
-        messages: beforeResult.messages,
-        system: jsonSystemPrompt,
-      });
-      text = result.text;
-      try {
-        parsed = JSON.parse(text) as T;
-      } catch {
-        // LLM didn't return valid JSON - leave parsed undefined
-      }
-    } else {
-      // Default: plain text mode
-      const result = await generateText({
-        model,
-        messages: beforeResult.messages,
-        system: systemPrompt,
-      });
-      text = result.text;
+    const { text, parsed, answeredBy } = generation;
+    const usage = addToolUsage(generation.usage, toolState.toolCalls);
+    if (toolState.toolCalls.length > 0) {
+      timings.toolExecutionTime = toolState.toolExecutionTime;
     }
 
     // Execute middleware after response
+    pluginStart = Date.now();
     const afterResult = await this.pluginManager.executeAfterResponse(text, {
       agentId: this.data.id,
       threadId: options?.threadId,
       metadata: beforeResult.metadata,
+      usage,
+      signal: options?.signal,
     });
+    timings.pluginExecutionTime! += Date.now() - pluginStart;
 
     // Track response in analytics plugins
     const latency = Date.now() - startTime;
-    await this.pluginManager.trackResponse({
-      agentId: this.data.id,
-      threadId: options?.threadId,
-      response: afterResult.response,
-      latency,
-      timestamp: new Date(),
-    });
+    timings.total = latency;
+    await this.pluginManager.trackResponseExtended(
+      this.responseTrackingData(afterResult.response, {
+        threadId: options?.threadId,
+        timings,
+        usage,
+        rag: ragMetrics,
+        answeredBy,
+      })
+    );
 
     return {
       text: afterResult.response,
       ...(parsed !== undefined && { parsed }),
+      ...(usage && { usage }),
       metadata: {
         ...afterResult.metadata,
+        answeredBy,
         ragMetadata,
+        ...(fitted.window && { contextWindow: fitted.window }),
+        toolCalls: toolState.toolCalls,
+        toolMessages: toolState.toolMessages,
+        ...(toolState.pendingToolCalls.length > 0 && {
+          pendingToolCalls: toolState.pendingToolCalls,
+        }),
+        ...(toolState.handoff && { handoff: toolState.handoff }),
         latency,
       },
     };
@@ -343,105 +804,684 @@ export class Agent {
   /**
    * Stream a text response with optional plugin support
    */
-  async streamResponse(
+  async streamResponse<T = unknown>(
     messages: AIMessage[],
     onChunk: (chunk: string) => void,
-    onComplete?: (fullText: string, metadata?: Record<string, any>) => void,
-    onError?: (error: Error) => void,
-    options?: {
-      useRAG?: boolean;
-      ragFilters?: Record<string, any>;
-      threadId?: string;
-    }
+    onComplete?: (fullText: string, metadata?: Record<string, any>) => void | Promise<void>,
+    onError?: (error: Error) => void | Promise<void>,
+    options?: StreamResponseOptions<T>
   ): Promise<void> {
     try {
       const startTime = Date.now();
+      const timings: PerformanceTimings = { total: 0, pluginExecutionTime: 0 };
+      const query = lastUserMessageText(messages);
 
       // Track request in analytics plugins
       if (messages.length > 0) {
-        await this.pluginManager.trackRequest({
-          agentId: this.data.id,
-          threadId: options?.threadId,
-          message: extractTextContent(messages[messages.length - 1].content),
-          timestamp: new Date(),
-        });
+        await this.pluginManager.trackRequestExtended(this.requestTrackingData(query, options?.threadId));
       }
 
       // Execute middleware before request
+      let pluginStart = Date.now();
       const beforeResult = await this.pluginManager.executeBeforeRequest(messages, {
         agentId: this.data.id,
         threadId: options?.threadId,
+        signal: options?.signal,
       });
+      timings.pluginExecutionTime! += Date.now() - pluginStart;
 
-      let systemPrompt = this.data.instructions;
+      let systemPrompt = this.systemPrompt(options);
+      let ragContext = '';
       let ragMetadata: Record<string, any>[] = [];
+      let ragMetrics: RAGMetrics | undefined;
 
       // Execute RAG plugins if enabled
       if (options?.useRAG && this.pluginManager.hasPluginsOfType('rag')) {
-        const lastMessage = messages[messages.length - 1];
-        const { contexts, allMetadata } = await this.pluginManager.executeRAG(
-          extractTextContent(lastMessage.content),
+        const retrieval = await this.retrieveContext(query, options);
+        ragContext = retrieval.context;
+        ragMetadata = retrieval.ragMetadata;
+        ragMetrics = retrieval.metrics;
+        timings.ragRetrievalTime = retrieval.time;
+
+        if (retrieval.sources.length > 0) {
+          options.onSources?.(retrieval.sources);
+        }
+      }
+
+      // Trim history and RAG context to the input token budget
+      const fitted = fitToTokenBudget(
+        beforeResult.messages,
+        systemPrompt,
+        ragContext,
+        options?.maxInputTokens
+      );
+      systemPrompt += fitted.ragContext;
+
+      throwIfCancelled(options?.signal, '');
+
+      const output = options?.output;
+      let fullText = '';
+      let toolState = createToolTurnState();
+
+      const llmStart = Date.now();
+      let generation: { usage?: TokenUsage; finishReason: FinishReason; answeredBy: ModelFallback };
+      try {
+        generation = await this.withModelFallback(
+          async (model, answeredBy) => {
+            // Expose tool plugins to the model, with fresh state for every attempt
+            toolState = createToolTurnState();
+            const toolOptions = this.buildToolOptions(toolState, {
+              onToolCall: options?.onToolCall,
+              excludeHandoffs: options?.excludeHandoffs,
+              threadId: options?.threadId,
+              signal: options?.signal,
+            });
+
+            // streamText reports provider errors through onError instead of throwing
+            let streamError: unknown;
+            const { textStream, totalUsage, finishReason } = streamText({
+              model,
+              messages: fitted.messages,
+              system: output?.mode === 'json' ? systemPrompt + JSON_OUTPUT_INSTRUCTION : systemPrompt,
+              ...(output?.mode === 'object' && {
+                experimental_output: Output.object({ schema: output.schema }),
+              }),
+              abortSignal: options?.signal,
+              maxRetries: 0,
+              onError: ({ error }) => {
+                streamError = error;
+              },
+              ...toolOptions,
+            });
+
+            let lastPartial: string | undefined;
+            for await (const chunk of textStream) {
+              if (timings.timeToFirstToken === undefined) {
+                timings.timeToFirstToken = Date.now() - llmStart;
+              }
+              fullText += chunk;
+              onChunk(chunk);
+
+              // Emit partial objects as the JSON text grows
+              if (output && options?.onPartialObject) {
+                const { value, state } = await parsePartialJson(fullText);
+                const serialized = JSON.stringify(value);
+                if ((state === 'successful-parse' || state === 'repaired-parse') && serialized !== lastPartial) {
+                  lastPartial = serialized;
+                  options.onPartialObject(value as DeepPartial<T>);
+                }
+              }
+            }
+            timings.timeToLastToken = Date.now() - llmStart;
+
+            if (streamError !== undefined) {
+              throw streamError;
+            }
+
+            return { usage: toTokenUsage(await totalUsage), finishReason: await finishReason, answeredBy };
+          },
           {
-            agentId: this.data.id,
-            threadId: options.threadId,
-            filters: options.ragFilters,
+            threadId: options?.threadId,
+            signal: options?.signal,
+            // Output already sent to the caller cannot be taken back by another model
+            canRetry: () => fullText === '' && toolState.toolCalls.length === 0,
           }
         );
-
-        if (contexts.length > 0) {
-          systemPrompt += '\n\n' + contexts.join('\n\n');
-        }
-        ragMetadata = allMetadata;
+      } catch (error) {
+        // Keep what was streamed so far so the caller can save the partial reply
+        throwIfCancelled(options?.signal, fullText);
+        throw error;
       }
+      timings.llmApiTime = Date.now() - llmStart;
 
-      // Stream response
-      const model = await this.providerFactory.getModel(this.data.provider, this.data.model);
+      const { answeredBy } = generation;
+      const usage = addToolUsage(generation.usage, toolState.toolCalls);
+      if (toolState.toolCalls.length > 0) {
+        timings.toolExecutionTime = toolState.toolExecutionTime;
+      }
 
-      const { textStream } = streamText({
-        model,
-        messages: beforeResult.messages,
-        system: systemPrompt,
-      });
+      const parsed =
+        output && endedWithAnswer(generation.finishReason, toolState)
+          ? await parseStructuredOutput(fullText, output)
+          : undefined;
 
-      let fullText = '';
-      for await (const chunk of textStream) {
-        fullText += chunk;
-        onChunk(chunk);
+      if (usage) {
+        options?.onUsage?.(usage, answeredBy);
       }
 
       // Execute middleware after response
+      pluginStart = Date.now();
       const afterResult = await this.pluginManager.executeAfterResponse(fullText, {
         agentId: this.data.id,
         threadId: options?.threadId,
         metadata: beforeResult.metadata,
+        usage,
+        signal: options?.signal,
       });
+      timings.pluginExecutionTime! += Date.now() - pluginStart;
 
       // Track response in analytics plugins
       const latency = Date.now() - startTime;
-      await this.pluginManager.trackResponse({
-        agentId: this.data.id,
-        threadId: options?.threadId,
-        response: afterResult.response,
-        latency,
-        timestamp: new Date(),
-      });
+      timings.total = latency;
+      await this.pluginManager.trackResponseExtended(
+        this.responseTrackingData(afterResult.response, {
+          threadId: options?.threadId,
+          timings,
+          usage,
+          rag: ragMetrics,
+          answeredBy,
+        })
+      );
 
       if (onComplete) {
-        onComplete(afterResult.response, {
+        await onComplete(afterResult.response, {
           ...afterResult.metadata,
+          answeredBy,
+          ...(parsed !== undefined && { parsed }),
+          ...(usage && { usage }),
           ragMetadata,
+          ...(fitted.window && { contextWindow: fitted.window }),
+          toolCalls: toolState.toolCalls,
+          toolMessages: toolState.toolMessages,
+          ...(toolState.pendingToolCalls.length > 0 && {
+            pendingToolCalls: toolState.pendingToolCalls,
+          }),
+          ...(toolState.handoff && { handoff: toolState.handoff }),
           latency,
         });
       }
     } catch (error) {
       if (onError) {
-        onError(error instanceof Error ? error : new Error('Unknown error'));
+        await onError(error instanceof Error ? error : new Error('Unknown error'));
       } else {
         throw error;
       }
     }
   }
 
+  /**
+   * Stream a response as an async iterator of typed events
+   * Alternative to the callbacks of streamResponse; errors are thrown from the iterator
+   */
+  streamEvents<T = unknown>(
+    messages: AIMessage[],
+    options?: Omit<StreamResponseOptions<T>, 'onPartialObject' | 'onSources' | 'onToolCall' | 'onUsage'>
+  ): AsyncIterable<StreamEvent<T>> {
+    return iterateEvents<StreamEvent<T>>((emit) =>
+      this.streamResponse<T>(
+        messages,
+        (text) => emit({ type: 'text-delta', text }),
+        (response, metadata) =>
+          emit({ type: 'done', response, parsed: metadata?.parsed, metadata }),
+        undefined,
+        {
+          ...options,
+          onPartialObject: (object) => emit({ type: 'partial-object', object }),
+          onSources: (sources) => emit({ type: 'sources', sources }),
+          onToolCall: (toolCall, pendingApproval) =>
+            emit({ type: 'tool-call', toolCall, pendingApproval }),
+          onUsage: (usage) => emit({ type: 'usage', usage }),
+        }
+      )
+    );
+  }
+
+  /**
+   * Execute a single tool call outside of the model loop
+   * Used to run tool calls that were held for human approval
+   */
+  async executeTool(
+    call: PendingToolCall,
+    options: { threadId?: string; signal?: AbortSignal } = {}
+  ): Promise<ToolCallRecord> {
+    const record: ToolCallRecord = { ...call };
+    const pluginTool = this.pluginManager.getTools().find((t) => t.name === call.toolName);
+
+    if (!pluginTool) {
+      record.error = `Tool not found: ${call.toolName}`;
+      return record;
+    }
+
+    try {
+      record.result = await pluginTool.execute(call.args, this.toolExecutionContext(record, options));
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : 'Unknown error';
+      if (!options.signal?.aborted) {
+        await this.pluginManager.reportError(error, 'tool', {
+          agentId: this.data.id,
+          threadId: options.threadId,
+        });
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Build the context passed to a tool, collecting usage it reports on its call record
+   */
+  private toolExecutionContext(
+    record: ToolCallRecord,
+    options: { threadId?: string; signal?: AbortSignal } = {}
+  ): ToolExecutionContext {
+    return {
+      toolCallId: record.toolCallId,
+      agentId: this.data.id,
+      threadId: options.threadId,
+      signal: options.signal,
+      reportUsage: (usage) => {
+        record.usage = sumUsage(record.usage, usage);
+      },
+    };
+  }
+
+  /**
+   * Expose this agent as a tool that other agents can call (sub-agent delegation)
+   */
+  asTool(config?: AgentToolConfig): AgentToolPlugin {
+    return new AgentToolPlugin(this, config);
+  }
+
+  /**
+   * Fold messages into a running conversation summary
+   */
+  async summarizeMessages(
+    messages: MessageData[],
+    previousSummary?: string,
+    options?: { threadId?: string; signal?: AbortSignal }
+  ): Promise<string> {
+    const transcript = messages
+      .map((msg) => `${msg.role}: ${msg.content || JSON.stringify(msg.parts ?? [])}`)
+      .join('\n');
+    const prompt = previousSummary
+      ? `Existing summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+      : `New messages:\n${transcript}`;
+
+    const text = await this.withModelFallback(
+      async (model) => {
+        const result = await generateText({
+          model,
+          system: SUMMARY_INSTRUCTION,
+          prompt,
+          abortSignal: options?.signal,
+          maxRetries: 0,
+        });
+        return result.text;
+      },
+      { threadId: options?.threadId, signal: options?.signal }
+    );
+
+    return text.trim();
+  }
+
+  /**
+   * Extract lasting facts about the user from one exchange
+   * Facts already known are passed in so only new ones come back
+   */
+  async extractUserFacts(
+    exchange: { user: string; assistant: string },
+    knownFacts: string[] = [],
+    options?: { threadId?: string; signal?: AbortSignal }
+  ): Promise<Array<{ content: string; category?: string }>> {
+    const known = knownFacts.length > 0 ? knownFacts.map((fact) => `- ${fact}`).join('\n') : '(none)';
+    const prompt = `Known facts:\n${known}\n\nUser: ${exchange.user}\nAssistant: ${exchange.assistant}`;
+
+    const text = await this.withModelFallback(
+      async (model) => {
+        const result = await generateText({
+          model,
+          system: FACT_EXTRACTION_INSTRUCTION,
+          prompt,
+          abortSignal: options?.signal,
+          maxRetries: 0,
+        });
+        return result.text;
+      },
+      { threadId: options?.threadId, signal: options?.signal }
+    );
+
+    try {
+      const parsed = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      if (!Array.isArray(parsed)) return [];
+      return parsed
+        .filter((fact) => typeof fact?.content === 'string' && fact.content.trim())
+        .map((fact) => ({
+          content: fact.content.trim(),
+          ...(typeof fact.category === 'string' && { category: fact.category }),
+        }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Build the system prompt around the instructions:
+   * the conversation summary goes before them, known user facts after
+   */
+  private systemPrompt(options?: { conversationSummary?: string; userMemories?: string[] }): string {
+    let prompt = this.data.instructions;
+    if (options?.conversationSummary) {
+      prompt = `Summary of the earlier conversation:\n${options.conversationSummary}\n\n---\n\n${prompt}`;
+    }
+    if (options?.userMemories?.length) {
+      prompt += `\n\n---\nWhat you know about this user from earlier conversations:\n${options.userMemories
+        .map((memory) => `- ${memory}`)
+        .join('\n')}`;
+    }
+    return prompt;
+  }
+
+  /**
+   * Run a model call against the primary model, then each fallback in order
+   * Retryable errors are retried with backoff per the agent's retry policy before moving on,
+   * and every failed attempt is reported to analytics
+   */
+  private async withModelFallback<R>(
+    run: (model: LanguageModel, candidate: ModelFallback) => Promise<R>,
+    options: { threadId?: string; signal?: AbortSignal; canRetry?: () => boolean }
+  ): Promise<R> {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...this.data.retryPolicy };
+    const candidates: ModelFallback[] = [
+      { provider: this.data.provider, model: this.data.model },
+      ...(this.data.fallbacks || []),
+    ];
+
+    let lastError: unknown;
+    for (const candidate of candidates) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const model = await this.providerFactory.getModel(candidate.provider, candidate.model);
+          return await run(model, candidate);
+        } catch (error) {
+          lastError = error;
+          if (options.signal?.aborted) {
+            throw error;
+          }
+
+          await this.pluginManager.reportError(error, 'llm', {
+            agentId: this.data.id,
+            threadId: options.threadId,
+          });
+
+          if (options.canRetry && !options.canRetry()) {
+            throw error;
+          }
+
+          const errorClass = classifyError(error);
+          if (attempt >= policy.maxRetries || !errorClass || !policy.retryOn.includes(errorClass)) {
+            break; // Move on to the next fallback
+          }
+
+          await delay(retryDelay(policy, attempt), options.signal);
+          if (options.signal?.aborted) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run RAG plugins for a query and measure the retrieval
+   * Returns the context to append to the system prompt along with source metrics
+   */
+  private async retrieveContext(
+    query: string,
+    options: { threadId?: string; ragFilters?: Record<string, any>; signal?: AbortSignal }
+  ): Promise<{
+    context: string;
+    ragMetadata: Record<string, any>[];
+    sources: RAGSource[];
+    metrics: RAGMetrics;
+    time: number;
+  }> {
+    const ragStart = Date.now();
+    const { contexts, allMetadata, sources } = await this.pluginManager.executeRAG(query, {
+      agentId: this.data.id,
+      threadId: options.threadId,
+      filters: options.ragFilters,
+      signal: options.signal,
+    });
+    const time = Date.now() - ragStart;
+
+    const context = contexts.length > 0 ? '\n\n' + contexts.join('\n\n') : '';
+    const scores = sources
+      .map((source) => source.score)
+      .filter((score): score is number => typeof score === 'number');
+
+    return {
+      context,
+      ragMetadata: allMetadata,
+      sources,
+      time,
+      metrics: {
+        enabled: true,
+        documentsRetrieved: sources.length,
+        sourcesCount: sources.length,
+        contextLength: context.length,
+        vectorSearchTime: time,
+        ...(scores.length > 0 && {
+          avgSimilarityScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+        }),
+      },
+    };
+  }
+
+  /**
+   * Build the extended request tracking data for this agent
+   */
+  private requestTrackingData(message: string, threadId?: string): RequestTrackingData {
+    return {
+      agentId: this.data.id,
+      threadId,
+      userId: this.data.userId,
+      organizationId: this.data.organizationId,
+      message,
+      messageLength: message.length,
+      timestamp: new Date(),
+      model: this.data.model,
+      provider: this.data.provider,
+    };
+  }
+
+  /**
+   * Build the extended response tracking data for this agent
+   */
+  private responseTrackingData(
+    response: string,
+    turn: {
+      threadId?: string;
+      timings: PerformanceTimings;
+      usage?: TokenUsage;
+      rag?: RAGMetrics;
+      answeredBy: ModelFallback;
+    }
+  ): ResponseTrackingData {
+    return {
+      agentId: this.data.id,
+      threadId: turn.threadId,
+      userId: this.data.userId,
+      organizationId: this.data.organizationId,
+      response,
+      responseLength: response.length,
+      timestamp: new Date(),
+      timings: turn.timings,
+      tokens: turn.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      ...(turn.rag && { rag: turn.rag }),
+      success: true,
+      model: turn.answeredBy.model,
+      provider: turn.answeredBy.provider,
+    };
+  }
+
+  /**
+   * Build AI SDK tool options from the attached tool plugins
+   * Every invocation is recorded in `state.toolCalls` so it can be reported in response metadata,
+   * every step that called tools is recorded in `state.toolMessages` so it can be persisted,
+   * and calls to tools that require approval are held in `state.pendingToolCalls`.
+   * With handoff targets, the built-in transfer tool ends the turn and records the
+   * chosen agent in `state.handoff`
+   */
+  private buildToolOptions(
+    state: ToolTurnState,
+    options: {
+      onToolCall?: StreamCallbacks['onToolCall'];
+      excludeHandoffs?: string[];
+      threadId?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): {
+    tools?: ToolSet;
+    stopWhen?: ReturnType<typeof stepCountIs>;
+    onStepFinish?: (step: StepResult<ToolSet>) => void;
+  } {
+    const { onToolCall, excludeHandoffs = [] } = options;
+    const pluginTools = this.pluginManager.getTools();
+    const handoffTargets = this.handoffs.filter(
+      (target) => target.agentId !== this.data.id && !excludeHandoffs.includes(target.agentId)
+    );
+
+    if (pluginTools.length === 0 && handoffTargets.length === 0) {
+      return {};
+    }
+
+    const approvalRequired = new Set(
+      pluginTools.filter((t) => t.requiresApproval).map((t) => t.name)
+    );
+
+    const tools: ToolSet = {};
+    for (const pluginTool of pluginTools) {
+      // Tools without execute stop the loop, leaving the call for a human to resolve
+      if (pluginTool.requiresApproval) {
+        tools[pluginTool.name] = tool({
+          description: pluginTool.description,
+          inputSchema: jsonSchema(pluginTool.parameters),
+        });
+        continue;
+      }
+
+      tools[pluginTool.name] = tool({
+        description: pluginTool.description,
+        inputSchema: jsonSchema(pluginTool.parameters),
+        execute: async (args: any, { toolCallId }) => {
+          const record: ToolCallRecord = {
+            toolCallId,
+            toolName: pluginTool.name,
+            args,
+          };
+          state.toolCalls.push(record);
+
+          const start = Date.now();
+          try {
+            record.result = await pluginTool.execute(
+              args,
+              this.toolExecutionContext(record, options)
+            );
+            return record.result;
+          } catch (error) {
+            // Rethrow so the model receives the failure as a tool error
+            record.error = error instanceof Error ? error.message : 'Unknown error';
+            if (!options.signal?.aborted) {
+              await this.pluginManager.reportError(error, 'tool', {
+                agentId: this.data.id,
+                threadId: options.threadId,
+              });
+            }
+            throw error;
+          } finally {
+            state.toolExecutionTime += Date.now() - start;
+            onToolCall?.(record, false);
+          }
+        },
+      });
+    }
+
+    // Like approval tools, the transfer has no execute, so calling it ends the turn
+    if (handoffTargets.length > 0) {
+      tools[HANDOFF_TOOL_NAME] = tool({
+        description: `Transfer the conversation to another agent when it is better suited to the user's request. Available agents:\n${handoffTargets
+          .map((target) => `- ${target.agentId}: ${target.description}`)
+          .join('\n')}`,
+        inputSchema: jsonSchema({
+          type: 'object',
+          properties: {
+            agentId: { type: 'string', enum: handoffTargets.map((target) => target.agentId) },
+            reason: { type: 'string', description: 'Why the conversation is being transferred' },
+          },
+          required: ['agentId'],
+        }),
+      });
+    }
+
+    return {
+      tools,
+      stopWhen: stepCountIs(this.data.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS),
+      onStepFinish: (step) => {
+        const handoffCall = step.toolCalls.find((call) => call.toolName === HANDOFF_TOOL_NAME);
+        if (handoffCall && !state.handoff) {
+          const input = handoffCall.input as { agentId: string; reason?: string };
+          state.handoff = { agentId: input.agentId, ...(input.reason && { reason: input.reason }) };
+        }
+
+        // The transfer call is not persisted: the next agent may not have the tool
+        const toolCalls = step.toolCalls.filter((call) => call.toolName !== HANDOFF_TOOL_NAME);
+        if (toolCalls.length === 0) {
+          return;
+        }
+
+        state.toolMessages.push({
+          role: 'assistant',
+          content: step.text,
+          parts: [
+            ...(step.text ? [{ type: 'text' as const, text: step.text }] : []),
+            ...toolCalls.map((call) => ({
+              type: 'tool-call' as const,
+              toolCallId: call.toolCallId,
+              toolName: call.toolName,
+              args: call.input,
+            })),
+          ],
+        });
+
+        const executedCalls = toolCalls.filter((call) => {
+          if (approvalRequired.has(call.toolName)) {
+            const pending: PendingToolCall = {
+              toolCallId: call.toolCallId,
+              toolName: call.toolName,
+              args: call.input,
+            };
+            state.pendingToolCalls.push(pending);
+            onToolCall?.(pending, true);
+            return false;
+          }
+          return true;
+        });
+
+        if (executedCalls.length === 0) {
+          return;
+        }
+
+        state.toolMessages.push({
+          role: 'tool',
+          content: '',
+          parts: executedCalls.map((call) => {
+            const record = state.toolCalls.find((r) => r.toolCallId === call.toolCallId);
+            const failed = !record || record.error !== undefined;
+            return {
+              type: 'tool-result' as const,
+              toolCallId: call.toolCallId,
+              toolName: call.toolName,
+              result: failed ? record?.error ?? 'Tool was not executed' : record.result,
+              ...(failed && { isError: true }),
+            };
+          }),
+        });
+      },
+    };
+  }
+
   /**
    * Get agent ID
    */
@@ -477,6 +1517,20 @@ export class Agent {
     return this.data.model;
   }
 
+  /**
+   * Get the agents this agent can hand conversations to
+   */
+  get handoffs(): HandoffTarget[] {
+    return this.data.handoffs || [];
+  }
+
+  /**
+   * Get the memory strategy for this agent's conversations, if configured
+   */
+  get memoryStrategy(): MemoryStrategy | undefined {
+    return this.data.memory ? createMemoryStrategy(this.data.memory) : undefined;
+  }
+
   /**
    * Get all plugins attached to this agent
    */
@@ -586,6 +1640,26 @@ export class Agent {
     return totalDeleted;
   }
 
+  /**
+   * Delete all of this agent's documents from its RAG plugins
+   * Plugins without deleteAll are skipped
+   */
+  async deleteAllDocuments(options?: IngestOptions): Promise<number> {
+    const ragPlugins = this.data.plugins?.filter(p => p.type === 'rag') || [];
+    let totalDeleted = 0;
+
+    for (const plugin of ragPlugins) {
+      if ('deleteAll' in plugin && typeof plugin.deleteAll === 'function') {
+        totalDeleted += await plugin.deleteAll({
+          agentId: this.data.id,
+          ...options,
+        });
+      }
+    }
+
+    return totalDeleted;
+  }
+
   /**
    * Perform bulk operations on RAG plugins
    */
@@ -1,7 +1,9 @@
 import { Agent } from './Agent';
 import { Thread } from './Thread';
-import { ProviderFactory } from '../providers';
+import { ProviderFactory, getModelContextLimit } from '../providers';
 import { PluginRegistry } from './PluginRegistry';
+import { iterateEvents } from './streaming';
+import { rankUserMemories, isKnownFact } from './userMemory';
 import {
   ClientConfig,
   AgentConfig,
@@ -15,8 +17,101 @@ import {
   AgentNotFoundError,
   ThreadNotFoundError,
   Plugin,
+  PendingToolCall,
+  ResolveToolCallOptions,
+  ToolCallRecord,
+  ToolResultContentPart,
+  ToolCallNotFoundError,
+  RequestCancelledError,
+  OutputConfig,
+  StreamEvent,
+  TokenUsage,
+  CustomProviderFactory,
+  UserMemoryConfig,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  UserMemoryNotFoundError,
+  AgentFile,
+  AgentFileUpload,
+  IngestResult,
+  HandoffRecord,
+  MessageData,
+  MessageUpdate,
+  MessageNotFoundError,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  ThreadFilters,
+  RegenerateRequest,
+  ForkThreadOptions,
+  AgentSDKError,
+  RetentionPolicy,
+  RetentionSweepOptions,
+  RetentionSweepResult,
+  AgentDeletionResult,
+  AnalyticsRecordCounts,
+  EndUserDataExport,
+  EndUserErasureReport,
 } from '../types';
 import { DefaultRAGPlugin } from '../inc';
+import {
+  pageAgents,
+  pageThreads,
+  pageMessages,
+  updateStoredMessage,
+} from '../storage/compat';
+
+// Thread metadata keys used to hold a turn that is waiting for tool approval
+const PENDING_TOOL_CALLS_KEY = 'pendingToolCalls';
+const PENDING_TOOL_REQUEST_KEY = 'pendingToolRequest';
+
+// Thread metadata keys tracking which agent owns a thread after handoffs
+const CURRENT_AGENT_KEY = 'currentAgentId';
+const HANDOFFS_KEY = 'handoffs';
+
+// Thread metadata key linking a fork to its source thread
+const FORKED_FROM_KEY = 'forkedFrom';
+
+// Request options carried over when a turn is generated or resumed
+type TurnOptions = Pick<ChatRequest, 'useRAG' | 'ragFilters' | 'contextLength' | 'tokenBudget'>;
+
+// Tokens kept free for the completion in token-budgeted mode
+const DEFAULT_RESERVED_TOKENS = 4096;
+
+// User memory facts added to the prompt per turn
+const DEFAULT_USER_MEMORY_RESULTS = 5;
+
+// Retention: day length, default replacement content, and the metadata key marking redacted messages
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REDACTED_CONTENT = '[redacted]';
+const REDACTED_KEY = 'redacted';
+
+/**
+ * Helper function to check that retention periods are positive numbers of days
+ */
+function validateRetention(policy: RetentionPolicy): void {
+  for (const key of ['deleteThreadsAfterDays', 'redactMessagesAfterDays'] as const) {
+    const days = policy[key];
+    if (days !== undefined && !(typeof days === 'number' && days > 0)) {
+      throw new InvalidConfigError(`retention.${key} must be a positive number of days`);
+    }
+  }
+}
+
+/**
+ * Helper function to convert a tool call record to a stored tool-result part
+ */
+function toToolResultPart(record: ToolCallRecord): ToolResultContentPart {
+  const failed = record.error !== undefined;
+  return {
+    type: 'tool-result',
+    toolCallId: record.toolCallId,
+    toolName: record.toolName,
+    result: failed ? record.error : record.result,
+    ...(failed && { isError: true }),
+  };
+}
 
 /**
  * Main SDK Client for managing AI agents and conversations
@@ -26,6 +121,13 @@ export class AgentClient {
   private providerFactory: ProviderFactory;
   private providers: ClientConfig['providers'];
   private pluginRegistry?: PluginRegistry;
+  private modelCosts: NonNullable<ClientConfig['modelCosts']>;
+  private modelContextLimits: NonNullable<ClientConfig['modelContextLimits']>;
+  private userMemory?: UserMemoryConfig;
+  private fileStorage?: ClientConfig['fileStorage'];
+  private autoIngestFiles: boolean;
+  private retention?: RetentionPolicy;
+  private analyticsStorage?: ClientConfig['analyticsStorage'];
 
   constructor(config: ClientConfig) {
     this.validateConfig(config);
@@ -34,6 +136,13 @@ export class AgentClient {
     this.providers = config.providers;
     this.providerFactory = new ProviderFactory(config.providers);
     this.pluginRegistry = config.pluginRegistry as PluginRegistry | undefined;
+    this.modelCosts = config.modelCosts || {};
+    this.modelContextLimits = config.modelContextLimits || {};
+    this.userMemory = config.userMemory;
+    this.fileStorage = config.fileStorage;
+    this.autoIngestFiles = config.autoIngestFiles ?? false;
+    this.retention = config.retention;
+    this.analyticsStorage = config.analyticsStorage;
   }
 
   private validateConfig(config: ClientConfig): void {
@@ -44,6 +153,10 @@ export class AgentClient {
     if (!config.providers || Object.keys(config.providers).length === 0) {
       throw new InvalidConfigError('At least one provider must be configured');
     }
+
+    if (config.retention) {
+      validateRetention(config.retention);
+    }
   }
 
   // ============================================================================
@@ -137,17 +250,117 @@ export class AgentClient {
 
   /**
    * List agents for a user
+   * Pass `options` to get a page of results, with sorting and filters
    */
-  async listAgents(userId: string, organizationId?: string): Promise<AgentData[]> {
+  async listAgents(userId: string, organizationId?: string): Promise<AgentData[]>;
+  async listAgents(
+    userId: string,
+    organizationId: string | undefined,
+    options: ListOptions
+  ): Promise<Page<AgentData>>;
+  async listAgents(
+    userId: string,
+    organizationId?: string,
+    options?: ListOptions
+  ): Promise<AgentData[] | Page<AgentData>> {
+    if (options) {
+      return await pageAgents(this.storage, { userId, organizationId }, options);
+    }
     return await this.storage.listAgents(userId, organizationId);
   }
 
   /**
-   * Delete an agent
+   * Delete an agent with its threads, messages, files and the documents in its RAG plugins
+   * RAG plugins are loaded as in getAgent; the agent itself is deleted last, so a failed
+   * deletion can be retried
    */
-  async deleteAgent(agentId: string): Promise<void> {
-    const agent = await this.getAgent(agentId);
+  async deleteAgent(agentId: string, options?: { plugins?: Plugin[] }): Promise<AgentDeletionResult> {
+    const agent = await this.getAgent(agentId, { plugins: options?.plugins });
+
+    const documentsDeleted = await agent.deleteAllDocuments();
+
+    let filesDeleted = 0;
+    if (this.fileStorage) {
+      for (const file of agent.toJSON().files) {
+        await this.fileStorage.delete(file.fileId);
+        filesDeleted++;
+      }
+    }
+
+    const threads = await this.storage.listThreads({ agentId });
+    for (const thread of threads) {
+      await this.storage.deleteThread(thread.id);
+    }
+
     await agent.delete();
+
+    return { threadsDeleted: threads.length, documentsDeleted, filesDeleted };
+  }
+
+  // ============================================================================
+  // Agent File Operations
+  // ============================================================================
+
+  /**
+   * Upload files to an agent
+   * Contents are written to the file storage and recorded on the agent. With `ingest`
+   * (default: autoIngestFiles, when the agent has RAG plugins) text files are also
+   * ingested into the agent's RAG plugins, which are loaded as in getAgent
+   */
+  async addAgentFiles(
+    agentId: string,
+    uploads: AgentFileUpload[],
+    options?: { ingest?: boolean; plugins?: Plugin[] }
+  ): Promise<{ files: AgentFile[]; ingestion?: { results: IngestResult[]; skipped: AgentFile[] } }> {
+    const fileStorage = this.requireFileStorage();
+    const agent = await this.getAgent(agentId, { plugins: options?.plugins });
+
+    const files: AgentFile[] = [];
+    for (const upload of uploads) {
+      const fileId = upload.fileId || `${agentId}/${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+      await fileStorage.put(fileId, upload.data, {
+        filename: upload.filename,
+        contentType: upload.contentType,
+        metadata: { agentId },
+      });
+      files.push({ fileId, filename: upload.filename, contentType: upload.contentType, addedAt: new Date() });
+    }
+    await agent.addFiles(files);
+
+    const ingest =
+      options?.ingest ??
+      (this.autoIngestFiles && agent.plugins.some((p) => p.type === 'rag' && 'ingest' in p));
+    if (!ingest) {
+      return { files };
+    }
+
+    return { files, ingestion: await agent.ingestFiles(files, fileStorage) };
+  }
+
+  /**
+   * Remove a file from an agent and the file storage
+   * Documents ingested from the file are deleted from the agent's RAG plugins
+   */
+  async removeAgentFile(
+    agentId: string,
+    fileId: string,
+    options?: { plugins?: Plugin[] }
+  ): Promise<void> {
+    const fileStorage = this.requireFileStorage();
+    const agent = await this.getAgent(agentId, { plugins: options?.plugins });
+
+    await agent.removeFile(fileId);
+    await fileStorage.delete(fileId);
+    if (agent.plugins.some((p) => p.type === 'rag' && 'delete' in p)) {
+      await agent.deleteDocuments(fileId);
+    }
+  }
+
+  private requireFileStorage() {
+    if (!this.fileStorage) {
+      throw new InvalidConfigError('fileStorage must be configured to manage agent files');
+    }
+    return this.fileStorage;
   }
 
   // ============================================================================
@@ -183,15 +396,38 @@ export class AgentClient {
 
   /**
    * List threads by user or agent
+   * Pass `options` to get a page of results, with sorting and filters
+   *
+   * @example
+   * ```typescript
+   * let page = await client.listThreads({ userId }, { limit: 20 });
+   * while (page.nextCursor) {
+   *   page = await client.listThreads({ userId }, { limit: 20, cursor: page.nextCursor });
+   * }
+   * ```
    */
-  async listThreads(filters: {
-    userId?: string;
-    agentId?: string;
-    organizationId?: string;
-  }): Promise<ThreadData[]> {
+  async listThreads(filters: ThreadFilters): Promise<ThreadData[]>;
+  async listThreads(filters: ThreadFilters, options: ListOptions): Promise<Page<ThreadData>>;
+  async listThreads(
+    filters: ThreadFilters,
+    options?: ListOptions
+  ): Promise<ThreadData[] | Page<ThreadData>> {
+    if (options) {
+      return await pageThreads(this.storage, filters, options);
+    }
     return await this.storage.listThreads(filters);
   }
 
+  /**
+   * Get a page of a thread's messages, newest first by default
+   */
+  async listMessages(
+    threadId: string,
+    options: MessageListOptions = {}
+  ): Promise<Page<MessageData>> {
+    return await pageMessages(this.storage, threadId, options);
+  }
+
   /**
    * Delete a thread
    */
@@ -200,6 +436,289 @@ export class AgentClient {
     await thread.delete();
   }
 
+  /**
+   * Copy a thread into a new thread, up to and including a message
+   * The fork keeps the source thread's agent, owner and metadata, plus a `forkedFrom` link
+   */
+  async forkThread(threadId: string, options: ForkThreadOptions = {}): Promise<Thread> {
+    const thread = await this.getThread(threadId);
+
+    // Tool calls awaiting approval only carry over when the fork ends where the source does
+    const {
+      [PENDING_TOOL_CALLS_KEY]: pendingToolCalls,
+      [PENDING_TOOL_REQUEST_KEY]: pendingRequest,
+      ...threadMetadata
+    } = thread.metadata || {};
+    const lastMessage = thread.messages[thread.messages.length - 1];
+    const copiesAll = !options.messageId || options.messageId === lastMessage?.id;
+
+    return await thread.fork(options.messageId, {
+      ...(options.name !== undefined && { name: options.name }),
+      metadata: {
+        ...threadMetadata,
+        ...(copiesAll && pendingToolCalls && {
+          [PENDING_TOOL_CALLS_KEY]: pendingToolCalls,
+          [PENDING_TOOL_REQUEST_KEY]: pendingRequest,
+        }),
+        ...options.metadata,
+        [FORKED_FROM_KEY]: { threadId, ...(options.messageId && { messageId: options.messageId }) },
+      },
+    });
+  }
+
+  // ============================================================================
+  // Message Operations
+  // ============================================================================
+
+  /**
+   * Edit a message in a thread
+   * Later messages are kept; call regenerate() with the message ID to answer the edit
+   */
+  async updateMessage(
+    threadId: string,
+    messageId: string,
+    updates: MessageUpdate
+  ): Promise<MessageData> {
+    const thread = await this.getThread(threadId);
+    await thread.updateMessage(messageId, updates);
+
+    const message = thread.messages.find((m) => m.id === messageId);
+    if (!message) {
+      throw new MessageNotFoundError(messageId);
+    }
+    return message;
+  }
+
+  /**
+   * Delete a message from a thread
+   */
+  async deleteMessage(threadId: string, messageId: string): Promise<void> {
+    const thread = await this.getThread(threadId);
+    await thread.deleteMessages([messageId]);
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  /**
+   * List the long-term facts remembered about an end user
+   */
+  async listUserMemories(
+    endUserId: string,
+    filters?: { organizationId?: string; category?: string }
+  ): Promise<UserMemoryEntry[]> {
+    return await this.userMemoryStorage().listUserMemories(endUserId, filters);
+  }
+
+  /**
+   * Remember a fact about an end user
+   */
+  async addUserMemory(entry: UserMemoryInput): Promise<UserMemoryEntry> {
+    const storage = this.userMemoryStorage();
+    const memoryId = await storage.addUserMemory(entry);
+    return (await storage.getUserMemory(memoryId))!;
+  }
+
+  /**
+   * Correct a remembered fact
+   */
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<UserMemoryEntry> {
+    const storage = this.userMemoryStorage();
+    if (!(await storage.getUserMemory(memoryId))) {
+      throw new UserMemoryNotFoundError(memoryId);
+    }
+
+    await storage.updateUserMemory(memoryId, updates);
+    return (await storage.getUserMemory(memoryId))!;
+  }
+
+  /**
+   * Forget a single remembered fact
+   */
+  async forgetUserMemory(memoryId: string): Promise<void> {
+    const storage = this.userMemoryStorage();
+    if (!(await storage.getUserMemory(memoryId))) {
+      throw new UserMemoryNotFoundError(memoryId);
+    }
+
+    await storage.deleteUserMemory(memoryId);
+  }
+
+  /**
+   * Forget everything remembered about an end user (e.g. for a GDPR erasure request)
+   * Returns the number of facts removed
+   */
+  async forgetUser(endUserId: string): Promise<number> {
+    return await this.userMemoryStorage().deleteUserMemories(endUserId);
+  }
+
+  private userMemoryStorage() {
+    if (!this.userMemory) {
+      throw new InvalidConfigError('userMemory must be configured to manage user memories');
+    }
+    return this.userMemory.storage;
+  }
+
+  // ============================================================================
+  // Data Retention
+  // ============================================================================
+
+  /**
+   * Apply the retention policy: delete threads without messages for deleteThreadsAfterDays,
+   * and redact the content, parts and attachments of messages older than redactMessagesAfterDays
+   * Call it on a schedule (e.g. a daily cron job); options override the configured policy
+   */
+  async sweep(options: RetentionSweepOptions = {}): Promise<RetentionSweepResult> {
+    const { filters = {}, now = new Date(), ...overrides } = options;
+    const policy = { ...this.retention, ...overrides };
+    if (policy.deleteThreadsAfterDays === undefined && policy.redactMessagesAfterDays === undefined) {
+      throw new InvalidConfigError('retention must be configured to sweep threads');
+    }
+    validateRetention(policy);
+
+    const result: RetentionSweepResult = { threadsDeleted: 0, messagesRedacted: 0 };
+
+    if (policy.deleteThreadsAfterDays !== undefined) {
+      // Idle time counts from the last message, since updatedAt also moves on edits and redaction
+      const cutoff = now.getTime() - policy.deleteThreadsAfterDays * DAY_MS;
+      const createdBefore = new Date(cutoff);
+      await this.eachThreadPage(filters, { sortBy: 'createdAt', createdBefore }, async (thread) => {
+        const lastMessage = thread.messages[thread.messages.length - 1];
+        if (lastMessage && lastMessage.timestamp.getTime() >= cutoff) return;
+
+        await this.storage.deleteThread(thread.id);
+        result.threadsDeleted++;
+      });
+    }
+
+    if (policy.redactMessagesAfterDays !== undefined) {
+      const cutoff = now.getTime() - policy.redactMessagesAfterDays * DAY_MS;
+      const content = policy.redactedContent ?? DEFAULT_REDACTED_CONTENT;
+
+      // Only threads created before the cutoff can hold messages older than it
+      const createdBefore = new Date(cutoff);
+      await this.eachThreadPage(filters, { sortBy: 'createdAt', createdBefore }, async (thread) => {
+        for (const message of thread.messages) {
+          if (message.timestamp.getTime() >= cutoff || message.metadata?.[REDACTED_KEY]) continue;
+
+          await updateStoredMessage(this.storage, thread.id, message.id, {
+            content,
+            parts: [],
+            attachments: [],
+            metadata: { ...message.metadata, [REDACTED_KEY]: true },
+          });
+          result.messagesRedacted++;
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Visit every thread matching the filters, one page at a time
+   */
+  private async eachThreadPage(
+    filters: ThreadFilters,
+    options: ListOptions,
+    visit: (thread: ThreadData) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const page = await pageThreads(this.storage, filters, { ...options, order: 'asc', cursor });
+      for (const thread of page.items) {
+        await visit(thread);
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  // ============================================================================
+  // End User Data
+  // ============================================================================
+
+  /**
+   * Export everything held about an end user: their threads with messages, user memories
+   * and the analytics records of their threads (e.g. for a GDPR access request)
+   */
+  async exportEndUserData(endUserId: string): Promise<EndUserDataExport> {
+    const threads = await this.listEndUserThreads(endUserId);
+
+    return {
+      version: 1,
+      endUserId,
+      exportedAt: new Date(),
+      threads,
+      memories: this.userMemory ? await this.userMemory.storage.listUserMemories(endUserId) : [],
+      ...(this.analyticsStorage && {
+        analytics: await this.analyticsStorage.getThreadRecords(threads.map((t) => t.id)),
+      }),
+    };
+  }
+
+  /**
+   * Delete everything held about an end user (e.g. for a GDPR erasure request)
+   * Analytics records go first, while the thread IDs linking them are still known; the report
+   * lists what was deleted, and what was skipped because no store for it is configured
+   */
+  async eraseEndUserData(endUserId: string): Promise<EndUserErasureReport> {
+    const startedAt = new Date();
+    const threads = await this.listEndUserThreads(endUserId);
+    const threadIds = threads.map((t) => t.id);
+    const skipped: string[] = [];
+
+    let analytics: AnalyticsRecordCounts | undefined;
+    if (this.analyticsStorage) {
+      analytics = await this.analyticsStorage.deleteThreadRecords(threadIds);
+    } else {
+      skipped.push('analytics: analyticsStorage is not configured');
+    }
+
+    const fileIds = threads.flatMap((t) => t.messages.flatMap((m) => m.attachments || [])).map((a) => a.fileId);
+    let filesDeleted = 0;
+    if (this.fileStorage) {
+      for (const fileId of new Set(fileIds)) {
+        await this.fileStorage.delete(fileId);
+        filesDeleted++;
+      }
+    } else if (fileIds.length > 0) {
+      skipped.push('attachments: fileStorage is not configured');
+    }
+
+    for (const threadId of threadIds) {
+      await this.storage.deleteThread(threadId);
+    }
+
+    let memoriesDeleted = 0;
+    if (this.userMemory) {
+      memoriesDeleted = await this.userMemory.storage.deleteUserMemories(endUserId);
+    } else {
+      skipped.push('user memories: userMemory is not configured');
+    }
+
+    return {
+      endUserId,
+      startedAt,
+      completedAt: new Date(),
+      threadIds,
+      threadsDeleted: threadIds.length,
+      messagesDeleted: threads.reduce((count, t) => count + t.messages.length, 0),
+      memoriesDeleted,
+      filesDeleted,
+      ...(analytics && { analytics }),
+      skipped,
+    };
+  }
+
+  private async listEndUserThreads(endUserId: string): Promise<ThreadData[]> {
+    const threads: ThreadData[] = [];
+    await this.eachThreadPage({ endUserId }, { sortBy: 'createdAt' }, async (thread) => {
+      threads.push(thread);
+    });
+    return threads;
+  }
+
   // ============================================================================
   // Chat Operations
   // ============================================================================
@@ -207,77 +726,678 @@ export class AgentClient {
   /**
    * Send a message and get a response (non-streaming)
    */
-  async chat(request: ChatRequest): Promise<ChatResponse> {
-    // Load thread and agent
+  async chat<T = unknown>(request: ChatRequest<T>): Promise<ChatResponse<T>> {
+    // Load thread and the agent that currently owns it
     const thread = await this.getThread(request.threadId);
-    const agent = await this.getAgent(thread.agentId);
+    const agent = await this.getThreadAgent(thread);
+
+    // A new message supersedes any tool calls still awaiting approval
+    await this.rejectPendingToolCalls(thread);
 
     // Add user message to thread
     await thread.addMessage('user', request.message, request.attachments);
 
-    // Get conversation context with configurable length
-    const contextLength = request.contextLength ?? 20;
-    const messages = await thread.getConversationContext(contextLength);
+    try {
+      return await this.generateTurn(thread, agent, request);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        await this.saveCancelledTurn(thread, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message and stream the response
+   */
+  async chatStream<T = unknown>(
+    request: ChatRequest<T>,
+    callbacks: StreamCallbacks<T>
+  ): Promise<void> {
+    try {
+      // Load thread and the agent that currently owns it
+      const thread = await this.getThread(request.threadId);
+      const agent = await this.getThreadAgent(thread);
+
+      // A new message supersedes any tool calls still awaiting approval
+      await this.rejectPendingToolCalls(thread);
+
+      // Add user message to thread
+      await thread.addMessage('user', request.message, request.attachments);
+
+      await this.streamTurn(thread, agent, request, callbacks);
+    } catch (error) {
+      callbacks.onError(
+        error instanceof Error ? error : new Error('Unknown error')
+      );
+    }
+  }
+
+  /**
+   * Stream a reply from the current thread state and persist it
+   * When the agent hands off, the turn continues under the target agent
+   */
+  private async streamTurn<T = unknown>(
+    thread: Thread,
+    agent: Agent,
+    request: TurnOptions & { output?: OutputConfig<T>; signal?: AbortSignal },
+    callbacks: StreamCallbacks<T>,
+    handoffs: HandoffRecord[] = []
+  ): Promise<void> {
+    // Get conversation context from the agent's memory strategy or configurable length
+    const { messages, summary } = await this.loadContext(thread, agent, request);
+    const userMemories = await this.recallUserMemories(thread);
+
+    // Stream response with plugin support
+    await agent.streamResponse(
+      messages,
+      callbacks.onChunk,
+      async (fullResponse: string, metadata?: Record<string, any>) => {
+        const usage =
+          metadata?.usage &&
+          this.withCost(metadata.usage, metadata.answeredBy?.model ?? agent.model);
+        const handoff = this.acceptHandoff(agent, metadata?.handoff, handoffs);
+        const turn = await this.completeTurn(
+          thread,
+          {
+            text: fullResponse,
+            parsed: metadata?.parsed,
+            metadata: metadata && { ...metadata, ...(usage && { usage }) },
+          },
+          request,
+          handoff !== undefined
+        );
+
+        if (handoff && !turn.pendingToolCalls) {
+          const record = await this.recordHandoff(thread, agent, handoff);
+          callbacks.onHandoff?.(record);
+          const target = await this.getAgent(record.toAgentId);
+          await this.streamTurn(thread, target, request, callbacks, [...handoffs, record]);
+          return;
+        }
+
+        callbacks.onComplete(
+          fullResponse,
+          turn.metadata && {
+            ...turn.metadata,
+            ...(handoffs.length > 0 && { agentId: agent.id, handoffs }),
+          }
+        );
+        if (!turn.pendingToolCalls) {
+          await this.rememberUserFacts(thread, agent, fullResponse, userMemories.known, request.signal);
+        }
+      },
+      async (error: Error) => {
+        if (error instanceof RequestCancelledError) {
+          await this.saveCancelledTurn(thread, error);
+        }
+        callbacks.onError(error);
+      },
+      {
+        useRAG: request.useRAG,
+        ragFilters: request.ragFilters,
+        threadId: thread.id,
+        signal: request.signal,
+        output: request.output,
+        conversationSummary: summary,
+        userMemories: userMemories.relevant,
+        maxInputTokens: this.inputTokenBudget(agent, request.tokenBudget),
+        excludeHandoffs: handoffs.map((h) => h.fromAgentId),
+        onPartialObject: callbacks.onPartialObject,
+        onSources: callbacks.onSources,
+        onToolCall: callbacks.onToolCall,
+        onUsage: (usage, answeredBy) =>
+          callbacks.onUsage?.(this.withCost(usage, answeredBy.model)),
+      }
+    );
+  }
+
+  /**
+   * Send a message and iterate over the streamed response events
+   * Alternative to chatStream callbacks, suited to edge runtimes and SSE handlers (see toSSEResponse)
+   */
+  chatEvents<T = unknown>(request: ChatRequest<T>): AsyncIterable<StreamEvent<T>> {
+    return iterateEvents<StreamEvent<T>>(
+      (emit) =>
+        new Promise<void>((resolve, reject) => {
+          this.chatStream<T>(request, {
+            onChunk: (text) => emit({ type: 'text-delta', text }),
+            onPartialObject: (object) => emit({ type: 'partial-object', object }),
+            onSources: (sources) => emit({ type: 'sources', sources }),
+            onToolCall: (toolCall, pendingApproval) =>
+              emit({ type: 'tool-call', toolCall, pendingApproval }),
+            onUsage: (usage) => emit({ type: 'usage', usage }),
+            onHandoff: (handoff) => emit({ type: 'handoff', handoff }),
+            onComplete: (response, metadata) => {
+              emit({ type: 'done', response, parsed: metadata?.parsed, metadata });
+              resolve();
+            },
+            onError: reject,
+          });
+        })
+    );
+  }
+
+  /**
+   * Replace a reply with a newly generated one
+   * The reply to the user message at `messageId` (default: the last one) and every later
+   * message are deleted, then the thread's current agent answers that message again
+   */
+  async regenerate<T = unknown>(request: RegenerateRequest<T>): Promise<ChatResponse<T>> {
+    const { thread, agent } = await this.prepareRegeneration(request);
+
+    try {
+      return await this.generateTurn(thread, agent, request);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        await this.saveCancelledTurn(thread, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a reply with a newly generated one, streaming the new reply
+   */
+  async regenerateStream<T = unknown>(
+    request: RegenerateRequest<T>,
+    callbacks: StreamCallbacks<T>
+  ): Promise<void> {
+    try {
+      const { thread, agent } = await this.prepareRegeneration(request);
+      await this.streamTurn(thread, agent, request, callbacks);
+    } catch (error) {
+      callbacks.onError(
+        error instanceof Error ? error : new Error('Unknown error')
+      );
+    }
+  }
+
+  /**
+   * Delete everything after the user message being answered again
+   */
+  private async prepareRegeneration(
+    request: RegenerateRequest<unknown>
+  ): Promise<{ thread: Thread; agent: Agent }> {
+    const thread = await this.getThread(request.threadId);
+    const agent = await this.getThreadAgent(thread);
+    const messages = thread.messages;
+
+    let index = messages.length - 1;
+    if (request.messageId) {
+      index = messages.findIndex((m) => m.id === request.messageId);
+      if (index < 0) {
+        throw new MessageNotFoundError(request.messageId);
+      }
+    }
+
+    // Regenerating an assistant or tool message answers the user message before it
+    while (index >= 0 && messages[index].role !== 'user') {
+      index--;
+    }
+    if (index < 0) {
+      throw new AgentSDKError('No user message to regenerate a reply for');
+    }
+
+    // Tool calls awaiting approval belong to the reply being replaced
+    const {
+      [PENDING_TOOL_CALLS_KEY]: pendingToolCalls,
+      [PENDING_TOOL_REQUEST_KEY]: _pendingRequest,
+      ...threadMetadata
+    } = thread.metadata || {};
+    if (pendingToolCalls) {
+      await thread.update({ metadata: threadMetadata });
+    }
+
+    await thread.deleteMessagesAfter(messages[index].id);
+
+    return { thread, agent };
+  }
+
+  /**
+   * Approve a tool call that is awaiting human approval
+   * The tool is executed and, once no calls remain pending, the turn resumes
+   */
+  async approveToolCall<T = unknown>(
+    threadId: string,
+    toolCallId: string,
+    options: ResolveToolCallOptions<T> = {}
+  ): Promise<ChatResponse<T>> {
+    return await this.resolveToolCall(threadId, toolCallId, { approved: true }, options);
+  }
+
+  /**
+   * Reject a tool call that is awaiting human approval
+   * The model is told the call was rejected and, once no calls remain pending, the turn resumes
+   */
+  async rejectToolCall<T = unknown>(
+    threadId: string,
+    toolCallId: string,
+    reason?: string,
+    options: ResolveToolCallOptions<T> = {}
+  ): Promise<ChatResponse<T>> {
+    return await this.resolveToolCall(threadId, toolCallId, { approved: false, reason }, options);
+  }
+
+  private async resolveToolCall<T>(
+    threadId: string,
+    toolCallId: string,
+    decision: { approved: boolean; reason?: string },
+    options: ResolveToolCallOptions<T>
+  ): Promise<ChatResponse<T>> {
+    const thread = await this.getThread(threadId);
+    const agent = await this.getThreadAgent(thread);
+
+    const {
+      [PENDING_TOOL_CALLS_KEY]: pendingToolCalls = [],
+      [PENDING_TOOL_REQUEST_KEY]: pendingRequest = {},
+      ...threadMetadata
+    } = thread.metadata || {};
+
+    const call = (pendingToolCalls as PendingToolCall[]).find((c) => c.toolCallId === toolCallId);
+    if (!call) {
+      throw new ToolCallNotFoundError(toolCallId);
+    }
+
+    const record: ToolCallRecord = decision.approved
+      ? await agent.executeTool(call, { threadId: thread.id, signal: options.signal })
+      : { ...call, error: `Tool call rejected: ${decision.reason || 'not approved by a human reviewer'}` };
+
+    const messageId = await thread.addMessage('tool', '', undefined, {
+      parts: [toToolResultPart(record)],
+    });
+
+    // Wait until every pending call of the turn has been resolved
+    const remaining = (pendingToolCalls as PendingToolCall[]).filter((c) => c.toolCallId !== toolCallId);
+    if (remaining.length > 0) {
+      await thread.update({
+        metadata: {
+          ...threadMetadata,
+          [PENDING_TOOL_CALLS_KEY]: remaining,
+          [PENDING_TOOL_REQUEST_KEY]: pendingRequest,
+        },
+      });
+
+      return {
+        reply: '',
+        messageId,
+        threadId: thread.id,
+        timestamp: new Date(),
+        metadata: { toolCalls: [record] },
+        pendingToolCalls: remaining,
+      };
+    }
+
+    await thread.update({ metadata: threadMetadata });
+
+    return await this.generateTurn(thread, agent, { ...pendingRequest, ...options });
+  }
+
+  /**
+   * Mark all tool calls awaiting approval as rejected
+   */
+  private async rejectPendingToolCalls(thread: Thread): Promise<void> {
+    const {
+      [PENDING_TOOL_CALLS_KEY]: pendingToolCalls,
+      [PENDING_TOOL_REQUEST_KEY]: _pendingRequest,
+      ...threadMetadata
+    } = thread.metadata || {};
+
+    if (!pendingToolCalls || pendingToolCalls.length === 0) {
+      return;
+    }
+
+    await thread.addMessage('tool', '', undefined, {
+      parts: (pendingToolCalls as PendingToolCall[]).map((call) =>
+        toToolResultPart({
+          ...call,
+          error: 'Tool call rejected: the user sent a new message instead of approving it',
+        })
+      ),
+    });
+    await thread.update({ metadata: threadMetadata });
+  }
+
+  /**
+   * Load the conversation window for a turn
+   * Agents with a memory config use their strategy (and may update the thread summary);
+   * otherwise the last `contextLength` messages are used, or the whole history in
+   * token-budgeted mode, where the agent trims it to fit
+   */
+  private async loadContext(
+    thread: Thread,
+    agent: Agent,
+    options: TurnOptions & { signal?: AbortSignal }
+  ) {
+    const strategy = agent.memoryStrategy;
+    if (!strategy) {
+      const defaultLength = options.tokenBudget ? Infinity : 20;
+      return {
+        messages: await thread.getConversationContext(
+          options.contextLength ?? defaultLength,
+          this.fileStorage
+        ),
+      };
+    }
+
+    return thread.getMemoryContext(
+      strategy,
+      (messages, previousSummary) =>
+        agent.summarizeMessages(messages, previousSummary, {
+          threadId: thread.id,
+          signal: options.signal,
+        }),
+      this.fileStorage
+    );
+  }
+
+  /**
+   * Load the facts remembered about the thread's end user
+   * Returns every known fact (for de-duplicating new ones) and the most relevant
+   * ones to the latest user message (for the prompt)
+   */
+  private async recallUserMemories(
+    thread: Thread
+  ): Promise<{ known: UserMemoryEntry[]; relevant?: string[] }> {
+    if (!this.userMemory || !thread.endUserId) {
+      return { known: [] };
+    }
+
+    const known = await this.userMemory.storage.listUserMemories(thread.endUserId, {
+      organizationId: thread.organizationId,
+    });
+    const query = [...thread.messages].reverse().find((m) => m.role === 'user')?.content || '';
+    const relevant = rankUserMemories(
+      known,
+      query,
+      this.userMemory.maxResults ?? DEFAULT_USER_MEMORY_RESULTS
+    );
+
+    return { known, relevant: relevant.map((entry) => entry.content) };
+  }
+
+  /**
+   * Extract new facts about the end user from the latest exchange and store them
+   * Failures are logged rather than thrown, since the reply has already been saved
+   */
+  private async rememberUserFacts(
+    thread: Thread,
+    agent: Agent,
+    reply: string,
+    known: UserMemoryEntry[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    const endUserId = thread.endUserId;
+    if (!this.userMemory || this.userMemory.extract === false || !endUserId || !reply) {
+      return;
+    }
+
+    const userMessage = [...thread.messages].reverse().find((m) => m.role === 'user');
+    if (!userMessage) {
+      return;
+    }
+
+    try {
+      const knownFacts = known.map((entry) => entry.content);
+      const facts = await agent.extractUserFacts(
+        { user: userMessage.content, assistant: reply },
+        knownFacts,
+        { threadId: thread.id, signal }
+      );
+
+      for (const fact of facts) {
+        if (isKnownFact(fact.content, knownFacts)) continue;
+        knownFacts.push(fact.content);
+
+        await this.userMemory.storage.addUserMemory({
+          endUserId,
+          organizationId: thread.organizationId,
+          content: fact.content,
+          category: fact.category,
+          agentId: agent.id,
+          threadId: thread.id,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to extract user memories:', error);
+    }
+  }
+
+  /**
+   * Compute the input token budget for a token-budgeted turn
+   */
+  private inputTokenBudget(
+    agent: Agent,
+    tokenBudget: ChatRequest['tokenBudget']
+  ): number | undefined {
+    if (!tokenBudget) {
+      return undefined;
+    }
+
+    const options = tokenBudget === true ? {} : tokenBudget;
+    const limit =
+      options.maxContextTokens ?? getModelContextLimit(agent.model, this.modelContextLimits);
+    const reserve = options.reserveTokens ?? Math.min(DEFAULT_RESERVED_TOKENS, Math.floor(limit / 4));
+    return Math.max(limit - reserve, 0);
+  }
+
+  /**
+   * Generate a reply from the current thread state and persist it
+   */
+  private async generateTurn<T = unknown>(
+    thread: Thread,
+    agent: Agent,
+    options: TurnOptions & { output?: OutputConfig<T>; signal?: AbortSignal },
+    handoffs: HandoffRecord[] = []
+  ): Promise<ChatResponse<T>> {
+    // Get conversation context from the agent's memory strategy or configurable length
+    const { messages, summary } = await this.loadContext(thread, agent, options);
+    const userMemories = await this.recallUserMemories(thread);
 
     // Generate response with plugin support
     const result = await agent.generateResponse(messages, {
-      useRAG: request.useRAG,
-      ragFilters: request.ragFilters,
+      useRAG: options.useRAG,
+      ragFilters: options.ragFilters,
       threadId: thread.id,
+      output: options.output,
+      signal: options.signal,
+      conversationSummary: summary,
+      userMemories: userMemories.relevant,
+      maxInputTokens: this.inputTokenBudget(agent, options.tokenBudget),
+      excludeHandoffs: handoffs.map((h) => h.fromAgentId),
     });
 
-    // Add assistant response to thread
-    const messageId = await thread.addMessage('assistant', result.text);
+    const handoff = this.acceptHandoff(agent, result.metadata?.handoff, handoffs);
+    const turn = await this.completeTurn(thread, result, options, handoff !== undefined);
+    const usage =
+      result.usage && this.withCost(result.usage, result.metadata?.answeredBy?.model ?? agent.model);
+
+    // Continue the turn under the target agent, which answers the same user message
+    if (handoff && !turn.pendingToolCalls) {
+      const record = await this.recordHandoff(thread, agent, handoff);
+      const target = await this.getAgent(record.toAgentId);
+      const response = await this.generateTurn(thread, target, options, [...handoffs, record]);
+      const totalUsage = usage && response.usage ? this.addUsage(usage, response.usage) : response.usage;
+      return { ...response, ...(totalUsage && { usage: totalUsage }) };
+    }
+
+    if (!turn.pendingToolCalls) {
+      await this.rememberUserFacts(thread, agent, result.text, userMemories.known, options.signal);
+    }
 
     return {
       reply: result.text,
-      messageId,
+      ...(result.parsed !== undefined && { parsed: result.parsed }),
+      ...(usage && { usage }),
+      messageId: turn.messageId,
       threadId: thread.id,
       timestamp: new Date(),
-      metadata: result.metadata,
+      metadata: turn.metadata,
+      ...(turn.pendingToolCalls && { pendingToolCalls: turn.pendingToolCalls }),
+      agentId: agent.id,
+      ...(handoffs.length > 0 && { handoffs }),
     };
   }
 
+  // ============================================================================
+  // Handoffs
+  // ============================================================================
+
   /**
-   * Send a message and stream the response
+   * Get the handoffs recorded on a thread, oldest first
    */
-  async chatStream(
-    request: ChatRequest,
-    callbacks: StreamCallbacks
-  ): Promise<void> {
-    try {
-      // Load thread and agent
-      const thread = await this.getThread(request.threadId);
-      const agent = await this.getAgent(thread.agentId);
+  async getThreadHandoffs(threadId: string): Promise<HandoffRecord[]> {
+    const thread = await this.getThread(threadId);
+    return thread.metadata?.[HANDOFFS_KEY] || [];
+  }
 
-      // Add user message to thread
-      await thread.addMessage('user', request.message, request.attachments);
+  /**
+   * Load the agent that currently owns a thread: the last handoff target, or the thread's agent
+   */
+  private async getThreadAgent(thread: Thread): Promise<Agent> {
+    return this.getAgent(thread.metadata?.[CURRENT_AGENT_KEY] ?? thread.agentId);
+  }
+
+  /**
+   * Check a handoff requested by the model against the agent's declared targets
+   * Targets the turn already passed through are refused to avoid loops
+   */
+  private acceptHandoff(
+    agent: Agent,
+    handoff: { agentId: string; reason?: string } | undefined,
+    handoffs: HandoffRecord[]
+  ): { agentId: string; reason?: string } | undefined {
+    if (!handoff || !agent.handoffs.some((target) => target.agentId === handoff.agentId)) {
+      return undefined;
+    }
+
+    const visited = handoffs.map((h) => h.fromAgentId);
+    return handoff.agentId === agent.id || visited.includes(handoff.agentId) ? undefined : handoff;
+  }
+
+  /**
+   * Make the target agent the thread's owner and append the handoff to the thread's history
+   */
+  private async recordHandoff(
+    thread: Thread,
+    from: Agent,
+    handoff: { agentId: string; reason?: string }
+  ): Promise<HandoffRecord> {
+    const record: HandoffRecord = {
+      fromAgentId: from.id,
+      toAgentId: handoff.agentId,
+      ...(handoff.reason && { reason: handoff.reason }),
+      timestamp: new Date().toISOString(),
+    };
+
+    await thread.update({
+      metadata: {
+        ...thread.metadata,
+        [CURRENT_AGENT_KEY]: record.toAgentId,
+        [HANDOFFS_KEY]: [...(thread.metadata?.[HANDOFFS_KEY] || []), record],
+      },
+    });
+
+    return record;
+  }
+
+  /**
+   * Save the partial reply of a cancelled turn, flagged so it can be told apart from complete replies
+   */
+  private async saveCancelledTurn(thread: Thread, error: RequestCancelledError): Promise<void> {
+    await thread.addMessage('assistant', error.partialResponse, undefined, {
+      metadata: { cancelled: true },
+    });
+  }
+
+  /**
+   * Add the estimated cost to token usage when pricing is configured for the model
+   */
+  private withCost(usage: TokenUsage, model: string): TokenUsage {
+    const costs = this.modelCosts[model];
+    if (!costs) {
+      return usage;
+    }
+
+    return {
+      ...usage,
+      estimatedCost:
+        (usage.promptTokens / 1000) * costs.input +
+        (usage.completionTokens / 1000) * costs.output,
+    };
+  }
+
+  /**
+   * Sum the token usage of turns answered by several agents
+   */
+  private addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    const estimatedCost =
+      a.estimatedCost !== undefined || b.estimatedCost !== undefined
+        ? (a.estimatedCost ?? 0) + (b.estimatedCost ?? 0)
+        : undefined;
+
+    return {
+      promptTokens: a.promptTokens + b.promptTokens,
+      completionTokens: a.completionTokens + b.completionTokens,
+      totalTokens: a.totalTokens + b.totalTokens,
+      ...(estimatedCost !== undefined && { estimatedCost }),
+    };
+  }
+
+  /**
+   * Persist the outcome of a turn: the intermediate tool-call and tool-result messages,
+   * then either the final reply or the tool calls awaiting human approval
+   * Returns the response metadata without the raw tool messages
+   */
+  private async completeTurn(
+    thread: Thread,
+    result: { text: string; parsed?: unknown; metadata?: Record<string, any> },
+    options: TurnOptions,
+    handingOff: boolean = false
+  ): Promise<{
+    messageId: string;
+    metadata?: Record<string, any>;
+    pendingToolCalls?: PendingToolCall[];
+  }> {
+    const { text, parsed, metadata } = result;
+    const { toolMessages, handoff: _handoff, ...responseMetadata } = metadata || {};
+    let messageId = '';
+
+    for (const toolMessage of toolMessages || []) {
+      messageId = await thread.addMessage(toolMessage.role, toolMessage.content, undefined, {
+        parts: toolMessage.parts,
+      });
+    }
 
-      // Get conversation context with configurable length
-      const contextLength = request.contextLength ?? 20;
-      const messages = await thread.getConversationContext(contextLength);
-
-      // Stream response with plugin support
-      await agent.streamResponse(
-        messages,
-        callbacks.onChunk,
-        async (fullResponse: string, metadata?: Record<string, any>) => {
-          // Add assistant response to thread
-          await thread.addMessage('assistant', fullResponse);
-          callbacks.onComplete(fullResponse, metadata);
+    const pendingToolCalls: PendingToolCall[] | undefined = responseMetadata.pendingToolCalls;
+    if (pendingToolCalls && pendingToolCalls.length > 0) {
+      await thread.update({
+        metadata: {
+          ...thread.metadata,
+          [PENDING_TOOL_CALLS_KEY]: pendingToolCalls,
+          [PENDING_TOOL_REQUEST_KEY]: {
+            useRAG: options.useRAG,
+            ragFilters: options.ragFilters,
+            contextLength: options.contextLength,
+            tokenBudget: options.tokenBudget,
+          },
         },
-        callbacks.onError,
-        {
-          useRAG: request.useRAG,
-          ragFilters: request.ragFilters,
-          threadId: thread.id,
-        }
-      );
-    } catch (error) {
-      callbacks.onError(
-        error instanceof Error ? error : new Error('Unknown error')
-      );
+      });
+
+      return { messageId, metadata: responseMetadata, pendingToolCalls };
+    }
+
+    // A handoff without text leaves nothing to save; the target agent replies next
+    if (handingOff && !text) {
+      return { messageId, metadata: responseMetadata };
     }
+
+    // Keep the validated structured output alongside the reply
+    messageId = parsed !== undefined
+      ? await thread.addMessage('assistant', text, undefined, { metadata: { parsed } })
+      : await thread.addMessage('assistant', text);
+
+    return { messageId, metadata: metadata && responseMetadata };
   }
 
   /**
@@ -332,5 +1452,13 @@ Return only the title without additional explanations.`,
   isProviderConfigured(provider: string) {
     return this.providerFactory.isProviderConfigured(provider as any);
   }
+
+  /**
+   * Register a custom provider at runtime
+   * Agents created with `provider: name` will get their models from the factory
+   */
+  registerProvider(name: string, factory: CustomProviderFactory): void {
+    this.providerFactory.registerProvider(name, factory);
+  }
 }
 
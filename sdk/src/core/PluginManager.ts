@@ -2,9 +2,15 @@ import type {
   Plugin,
   RAGPlugin,
   ToolPlugin,
+  Tool,
   MiddlewarePlugin,
   AnalyticsPlugin,
+  TokenMetrics,
+  RequestTrackingData,
+  ResponseTrackingData,
+  ErrorTrackingData,
 } from '../types/plugins';
+import type { RAGSource } from '../types';
 
 /**
  * Plugin Manager
@@ -61,15 +67,17 @@ export class PluginManager {
       threadId?: string;
       filters?: Record<string, any>;
       metadata?: Record<string, any>;
+      signal?: AbortSignal;
     }
   ): Promise<{
     contexts: string[];
     allMetadata: Record<string, any>[];
+    sources: RAGSource[];
   }> {
     const ragPlugins = this.getRAGPlugins();
 
     if (ragPlugins.length === 0) {
-      return { contexts: [], allMetadata: [] };
+      return { contexts: [], allMetadata: [], sources: [] };
     }
 
     const results = await Promise.all(
@@ -83,13 +91,21 @@ export class PluginManager {
           return {
             context: formattedContext,
             metadata: context.metadata || {},
+            sources: (context.sources || []).map((source) => ({
+              ...source,
+              pluginName: plugin.name,
+            })),
             pluginName: plugin.name,
           };
         } catch (error) {
           console.error(`RAG plugin "${plugin.name}" failed:`, error);
+          if (!options.signal?.aborted) {
+            await this.reportError(error, 'rag', options);
+          }
           return {
             context: '',
             metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+            sources: [] as RAGSource[],
             pluginName: plugin.name,
           };
         }
@@ -99,9 +115,36 @@ export class PluginManager {
     return {
       contexts: results.map((r) => r.context).filter(Boolean),
       allMetadata: results.map((r) => ({ [r.pluginName]: r.metadata })),
+      sources: results.flatMap((r) => r.sources),
     };
   }
 
+  // ============================================================================
+  // Tool Plugin Execution
+  // ============================================================================
+
+  /**
+   * Collect tools from all tool plugins
+   * If two plugins expose a tool with the same name, the higher-priority one wins
+   */
+  getTools(): Tool[] {
+    const tools = new Map<string, Tool>();
+
+    for (const plugin of this.getToolPlugins()) {
+      for (const tool of plugin.getTools()) {
+        if (tools.has(tool.name)) {
+          console.warn(
+            `Tool "${tool.name}" from plugin "${plugin.name}" is already registered. Skipping.`
+          );
+          continue;
+        }
+        tools.set(tool.name, tool);
+      }
+    }
+
+    return Array.from(tools.values());
+  }
+
   // ============================================================================
   // Middleware Plugin Execution
   // ============================================================================
@@ -111,7 +154,7 @@ export class PluginManager {
    */
   async executeBeforeRequest(
     messages: any[],
-    context: { agentId: string; threadId?: string }
+    context: { agentId: string; threadId?: string; signal?: AbortSignal }
   ): Promise<{ messages: any[]; metadata?: any }> {
     const middlewarePlugins = this.getMiddlewarePlugins();
 
@@ -124,6 +167,9 @@ export class PluginManager {
           result = { ...result, ...pluginResult };
         } catch (error) {
           console.error(`Middleware plugin "${plugin.name}" beforeRequest failed:`, error);
+          if (!context.signal?.aborted) {
+            await this.reportError(error, 'plugin', context);
+          }
         }
       }
     }
@@ -136,7 +182,13 @@ export class PluginManager {
    */
   async executeAfterResponse(
     response: string,
-    context: { agentId: string; threadId?: string; metadata?: any }
+    context: {
+      agentId: string;
+      threadId?: string;
+      metadata?: any;
+      usage?: TokenMetrics;
+      signal?: AbortSignal;
+    }
   ): Promise<{ response: string; metadata?: any }> {
     const middlewarePlugins = this.getMiddlewarePlugins();
 
@@ -149,6 +201,9 @@ export class PluginManager {
           result = { ...result, ...pluginResult };
         } catch (error) {
           console.error(`Middleware plugin "${plugin.name}" afterResponse failed:`, error);
+          if (!context.signal?.aborted) {
+            await this.reportError(error, 'plugin', context);
+          }
         }
       }
     }
@@ -191,6 +246,7 @@ export class PluginManager {
     response: string;
     latency: number;
     tokensUsed?: number;
+    tokens?: TokenMetrics;
     timestamp: Date;
   }): Promise<void> {
     const analyticsPlugins = this.getAnalyticsPlugins();
@@ -206,6 +262,104 @@ export class PluginManager {
     );
   }
 
+  /**
+   * Track request with extended data in all analytics plugins
+   * Plugins without trackRequestExtended receive the basic request data
+   */
+  async trackRequestExtended(data: RequestTrackingData): Promise<void> {
+    const analyticsPlugins = this.getAnalyticsPlugins();
+
+    await Promise.all(
+      analyticsPlugins.map(async (plugin) => {
+        try {
+          if (plugin.trackRequestExtended) {
+            await plugin.trackRequestExtended(data);
+          } else {
+            await plugin.trackRequest({
+              agentId: data.agentId,
+              threadId: data.threadId,
+              message: data.message,
+              timestamp: data.timestamp,
+            });
+          }
+        } catch (error) {
+          console.error(`Analytics plugin "${plugin.name}" trackRequest failed:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Track response with extended metrics in all analytics plugins
+   * Plugins without trackResponseExtended receive the basic response data
+   */
+  async trackResponseExtended(data: ResponseTrackingData): Promise<void> {
+    const analyticsPlugins = this.getAnalyticsPlugins();
+
+    await Promise.all(
+      analyticsPlugins.map(async (plugin) => {
+        try {
+          if (plugin.trackResponseExtended) {
+            await plugin.trackResponseExtended(data);
+          } else {
+            await plugin.trackResponse({
+              agentId: data.agentId,
+              threadId: data.threadId,
+              response: data.response,
+              latency: data.timings.total,
+              tokensUsed: data.tokens.totalTokens,
+              tokens: data.tokens,
+              timestamp: data.timestamp,
+            });
+          }
+        } catch (error) {
+          console.error(`Analytics plugin "${plugin.name}" trackResponse failed:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Track error in all analytics plugins that support it
+   */
+  async trackError(data: ErrorTrackingData): Promise<void> {
+    const analyticsPlugins = this.getAnalyticsPlugins();
+
+    await Promise.all(
+      analyticsPlugins.map(async (plugin) => {
+        if (!plugin.trackError) return;
+        try {
+          await plugin.trackError(data);
+        } catch (error) {
+          console.error(`Analytics plugin "${plugin.name}" trackError failed:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Report a failure in one pipeline component to analytics plugins
+   * Retry hints and status codes are read from provider API errors when present
+   */
+  async reportError(
+    error: unknown,
+    component: NonNullable<ErrorTrackingData['component']>,
+    context: { agentId: string; threadId?: string }
+  ): Promise<void> {
+    const details = (error ?? {}) as { isRetryable?: unknown; statusCode?: unknown };
+
+    await this.trackError({
+      agentId: context.agentId,
+      threadId: context.threadId,
+      timestamp: new Date(),
+      errorType: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      ...(details.statusCode !== undefined && { errorCode: String(details.statusCode) }),
+      ...(typeof details.isRetryable === 'boolean' && { isRetryable: details.isRetryable }),
+      component,
+    });
+  }
+
   // ============================================================================
   // Plugin Management
   // ============================================================================
@@ -1,16 +1,153 @@
-import type { UserModelMessage, AssistantModelMessage } from 'ai';
+import type {
+  UserModelMessage,
+  AssistantModelMessage,
+  ToolModelMessage,
+  TextPart,
+  ImagePart,
+  FilePart,
+  ToolCallPart,
+} from 'ai';
 import {
   ThreadConfig,
   ThreadData,
   MessageData,
   MessageAttachment,
   MessageRole,
+  AddMessageOptions,
+  MessageUpdate,
   StorageAdapter,
+  ThreadSummary,
   CouldNotCreateThreadError,
+  MessageNotFoundError,
+  FileResolver,
 } from '../types';
+import type { MemoryStrategy, Summarizer } from './memory';
+import { deleteStoredMessages, forkStoredThread, updateStoredMessage } from '../storage/compat';
 
 // Type for messages accepted by the AI SDK
-type AIMessage = UserModelMessage | AssistantModelMessage;
+type AIMessage = UserModelMessage | AssistantModelMessage | ToolModelMessage;
+
+/**
+ * Convert a stored message to the Vercel AI SDK message format
+ * Messages with structured parts are replayed with their tool calls and results
+ */
+function toAIMessage(msg: MessageData): AIMessage {
+  if (!msg.parts || msg.parts.length === 0) {
+    return {
+      role: msg.role as 'user' | 'assistant',
+      content: msg.content,
+    } as AIMessage;
+  }
+
+  if (msg.role === 'tool') {
+    return {
+      role: 'tool',
+      content: msg.parts.flatMap((part) =>
+        part.type === 'tool-result'
+          ? [{
+            type: 'tool-result' as const,
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            output: part.isError
+              ? { type: 'error-text' as const, value: String(part.result) }
+              : { type: 'json' as const, value: part.result ?? null },
+          }]
+          : []
+      ),
+    };
+  }
+
+  if (msg.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: msg.parts.flatMap<TextPart | ToolCallPart>((part) => {
+        if (part.type === 'text') {
+          return [{ type: 'text' as const, text: part.text }];
+        }
+        if (part.type === 'tool-call') {
+          return [{
+            type: 'tool-call' as const,
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            input: part.args,
+          }];
+        }
+        return [];
+      }),
+    };
+  }
+
+  return {
+    role: 'user',
+    content: msg.parts.flatMap((part) =>
+      part.type === 'text' ? [{ type: 'text' as const, text: part.text }] : []
+    ),
+  };
+}
+
+/**
+ * Whether an attachment can be sent to the model as a content part
+ */
+function isSendableAttachment(attachment: MessageAttachment): boolean {
+  return attachment.contentType.startsWith('image/') || attachment.contentType === 'application/pdf';
+}
+
+/**
+ * Add a user message's attachments as content parts
+ * Images and PDFs are resolved through the file store; anything else, or files that
+ * cannot be resolved, is mentioned by name so the model knows it was shared
+ */
+async function withAttachments(
+  message: UserModelMessage,
+  attachments: MessageAttachment[],
+  files?: FileResolver
+): Promise<UserModelMessage> {
+  const content: Array<TextPart | ImagePart | FilePart> =
+    typeof message.content === 'string'
+      ? message.content ? [{ type: 'text', text: message.content }] : []
+      : (message.content as Array<TextPart | ImagePart | FilePart>);
+
+  for (const attachment of attachments) {
+    const file = files && isSendableAttachment(attachment) ? await files.get(attachment.fileId) : null;
+    if (!file) {
+      content.push({ type: 'text', text: `[Attachment: ${attachment.filename} (${attachment.contentType})]` });
+    } else if (attachment.contentType.startsWith('image/')) {
+      content.push({ type: 'image', image: file.data, mediaType: file.contentType || attachment.contentType });
+    } else {
+      content.push({
+        type: 'file',
+        data: file.data,
+        mediaType: file.contentType || attachment.contentType,
+        filename: attachment.filename,
+      });
+    }
+  }
+
+  return { role: 'user', content };
+}
+
+/**
+ * Convert a window of stored messages to the Vercel AI SDK message format
+ */
+async function toConversation(messages: MessageData[], files?: FileResolver): Promise<AIMessage[]> {
+  // Tool results whose tool call fell outside the window cannot be replayed
+  let start = 0;
+  while (start < messages.length && messages[start].role === 'tool') {
+    start++;
+  }
+
+  // Turns cancelled before any text arrived leave empty replies that providers reject
+  return Promise.all(
+    messages
+      .slice(start)
+      .filter((msg) => msg.role !== 'assistant' || msg.content !== '' || msg.parts?.length)
+      .map((msg) =>
+        msg.role === 'user' && msg.attachments?.length
+          ? withAttachments(toAIMessage(msg) as UserModelMessage, msg.attachments, files)
+          : toAIMessage(msg)
+      )
+  );
+}
 
 /**
  * Thread class representing a conversation thread
@@ -83,13 +220,15 @@ export class Thread {
   async addMessage(
     role: MessageRole,
     content: string,
-    attachments?: MessageAttachment[]
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
   ): Promise<string> {
     const messageId = await this.storage.addMessage(
       this.data.id,
       role,
       content,
-      attachments
+      attachments,
+      options
     );
 
     // Reload data to include new message
@@ -101,6 +240,78 @@ export class Thread {
     return messageId;
   }
 
+  /**
+   * Update a message's content, parts, attachments or metadata
+   * Clears the running summary when it covers the message
+   */
+  async updateMessage(messageId: string, updates: MessageUpdate): Promise<void> {
+    const staleSummary = this.summaryCovers(this.messageIndex(messageId));
+    await updateStoredMessage(this.storage, this.data.id, messageId, updates);
+    await this.afterHistoryChange(staleSummary);
+  }
+
+  /**
+   * Delete messages from the thread
+   * Clears the running summary when it covers any of them
+   */
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    const staleSummary = messageIds.some((id) => this.summaryCovers(this.messageIndex(id)));
+    await deleteStoredMessages(this.storage, this.data.id, messageIds);
+    await this.afterHistoryChange(staleSummary);
+  }
+
+  /**
+   * Delete every message after the given one
+   * Returns the number of messages deleted
+   */
+  async deleteMessagesAfter(messageId: string): Promise<number> {
+    const index = this.messageIndex(messageId);
+    const later = this.data.messages.slice(index + 1).map((m) => m.id);
+
+    if (later.length > 0) {
+      const staleSummary = this.summaryCovers(index + 1);
+      await deleteStoredMessages(this.storage, this.data.id, later);
+      await this.afterHistoryChange(staleSummary);
+    }
+
+    return later.length;
+  }
+
+  /**
+   * Copy this thread into a new thread, up to and including a message (default: all messages)
+   * The fork starts without a running summary; it is rebuilt from the copied messages
+   */
+  async fork(
+    upToMessageId?: string,
+    overrides: Partial<Omit<ThreadConfig, 'summary'>> = {}
+  ): Promise<Thread> {
+    if (upToMessageId) {
+      this.messageIndex(upToMessageId);
+    }
+
+    const threadId = await forkStoredThread(
+      this.storage,
+      this.data.id,
+      {
+        agentId: this.data.agentId,
+        userId: this.data.userId,
+        name: this.data.name,
+        metadata: this.data.metadata,
+        organizationId: this.data.organizationId,
+        endUserId: this.data.endUserId,
+        ...overrides,
+      },
+      upToMessageId
+    );
+
+    const data = await this.storage.getThread(threadId);
+    if (!data) {
+      throw new CouldNotCreateThreadError(threadId);
+    }
+
+    return new Thread(data, this.storage);
+  }
+
   /**
    * Get messages from this thread
    */
@@ -110,14 +321,33 @@ export class Thread {
 
   /**
    * Get conversation context for AI (formatted for Vercel AI SDK)
+   * Pass a file store to send image and PDF attachments as content parts
    */
-  async getConversationContext(maxMessages: number = 20): Promise<AIMessage[]> {
+  async getConversationContext(maxMessages: number = 20, files?: FileResolver): Promise<AIMessage[]> {
     const messages = await this.storage.getMessages(this.data.id, maxMessages);
+    return toConversation(messages, files);
+  }
 
-    return messages.map(msg => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })) as AIMessage[];
+  /**
+   * Get conversation context using a memory strategy
+   * A summary updated by the strategy is saved on the thread
+   */
+  async getMemoryContext(
+    strategy: MemoryStrategy,
+    summarize: Summarizer,
+    files?: FileResolver
+  ): Promise<{ messages: AIMessage[]; summary?: string }> {
+    const messages = await this.storage.getMessages(this.data.id);
+    const window = await strategy.buildContext(messages, {
+      summary: this.data.summary,
+      summarize,
+    });
+
+    if (window.summary && window.summary !== this.data.summary) {
+      await this.update({ summary: window.summary });
+    }
+
+    return { messages: await toConversation(window.messages, files), summary: window.summary?.content };
   }
 
   /**
@@ -156,6 +386,34 @@ export class Thread {
     return this.data.agentId;
   }
 
+  /**
+   * Get the end user the thread belongs to
+   */
+  get endUserId(): string | undefined {
+    return this.data.endUserId;
+  }
+
+  /**
+   * Get organization ID
+   */
+  get organizationId(): string | undefined {
+    return this.data.organizationId;
+  }
+
+  /**
+   * Get thread metadata
+   */
+  get metadata(): Record<string, any> | undefined {
+    return this.data.metadata;
+  }
+
+  /**
+   * Get the running summary of messages outside the conversation window
+   */
+  get summary(): ThreadSummary | undefined {
+    return this.data.summary;
+  }
+
   /**
    * Get messages (cached from last load)
    */
@@ -176,5 +434,43 @@ export class Thread {
   toJSON(): ThreadData {
     return { ...this.data };
   }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private messageIndex(messageId: string): number {
+    const index = this.data.messages.findIndex((m) => m.id === messageId);
+    if (index < 0) {
+      throw new MessageNotFoundError(messageId);
+    }
+    return index;
+  }
+
+  /**
+   * Whether the running summary includes the message at an index
+   */
+  private summaryCovers(index: number): boolean {
+    const summary = this.data.summary;
+    if (!summary) return false;
+
+    const summaryIndex = this.data.messages.findIndex((m) => m.id === summary.lastMessageId);
+    return index < (summaryIndex >= 0 ? summaryIndex + 1 : summary.messageCount);
+  }
+
+  /**
+   * Reload the thread after messages were edited or deleted, dropping a summary
+   * that no longer matches the history
+   */
+  private async afterHistoryChange(staleSummary: boolean): Promise<void> {
+    if (staleSummary) {
+      await this.storage.updateThread(this.data.id, { summary: undefined });
+    }
+
+    const updatedData = await this.storage.getThread(this.data.id);
+    if (updatedData) {
+      this.data = updatedData;
+    }
+  }
 }
 
@@ -0,0 +1,184 @@
+import type { MemoryConfig, MessageData, ThreadSummary } from '../types';
+
+/**
+ * Summarize messages into a running summary
+ * Receives the messages to fold in and the summary so far
+ */
+export type Summarizer = (messages: MessageData[], previousSummary?: string) => Promise<string>;
+
+export interface MemoryWindow {
+  messages: MessageData[]; // Messages to send to the model, oldest first
+  summary?: ThreadSummary; // Summary of everything before the window
+}
+
+/**
+ * Strategy deciding which messages of a thread are sent to the model
+ */
+export interface MemoryStrategy {
+  buildContext(
+    messages: MessageData[],
+    options: { summary?: ThreadSummary; summarize: Summarizer }
+  ): Promise<MemoryWindow>;
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the tokens a stored message takes in the prompt
+ */
+export function estimateMessageTokens(message: MessageData): number {
+  const parts = message.parts?.length ? JSON.stringify(message.parts) : '';
+  return estimateTokens(message.content) + estimateTokens(parts);
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * Send only the most recent messages
+ */
+export class SlidingWindowMemory implements MemoryStrategy {
+  constructor(private maxMessages: number = 20) {}
+
+  async buildContext(messages: MessageData[]): Promise<MemoryWindow> {
+    return { messages: messages.slice(windowStart(messages, messages.length - this.maxMessages)) };
+  }
+}
+
+/**
+ * Send recent messages plus a running summary of older ones
+ * Once more than `maxMessages` messages are unsummarized, all but the newest half
+ * are folded into the summary, so the summarizer runs every few turns rather than every turn
+ */
+export class SummaryBufferMemory implements MemoryStrategy {
+  constructor(private maxMessages: number = 20) {}
+
+  async buildContext(
+    messages: MessageData[],
+    options: { summary?: ThreadSummary; summarize: Summarizer }
+  ): Promise<MemoryWindow> {
+    const start = summarizedUpTo(messages, options.summary);
+    if (messages.length - start <= this.maxMessages) {
+      return { messages: messages.slice(start), summary: options.summary };
+    }
+
+    const keep = Math.ceil(this.maxMessages / 2);
+    const cut = windowStart(messages, messages.length - keep);
+    return foldIntoSummary(messages, start, cut, options);
+  }
+}
+
+/**
+ * Send as many recent messages as fit in a token budget
+ * With `summarize`, messages that no longer fit are folded into a running summary;
+ * like the summary buffer, it folds down to half the budget to batch summarizer calls
+ */
+export class TokenBudgetMemory implements MemoryStrategy {
+  constructor(
+    private maxTokens: number,
+    private summarize: boolean = false
+  ) {}
+
+  async buildContext(
+    messages: MessageData[],
+    options: { summary?: ThreadSummary; summarize: Summarizer }
+  ): Promise<MemoryWindow> {
+    if (!this.summarize) {
+      return { messages: messages.slice(this.fitWithin(messages, 0, this.maxTokens)) };
+    }
+
+    const start = summarizedUpTo(messages, options.summary);
+    const summaryTokens = options.summary ? estimateTokens(options.summary.content) : 0;
+    const fitStart = this.fitWithin(messages, start, this.maxTokens - summaryTokens);
+    if (fitStart === start) {
+      return { messages: messages.slice(start), summary: options.summary };
+    }
+
+    const cut = this.fitWithin(messages, start, Math.floor(this.maxTokens / 2));
+    return foldIntoSummary(messages, start, cut, options);
+  }
+
+  /**
+   * Find the earliest index from which the remaining messages fit in the budget
+   */
+  private fitWithin(messages: MessageData[], start: number, budget: number): number {
+    let used = 0;
+    let index = messages.length;
+    while (index > start) {
+      const tokens = estimateMessageTokens(messages[index - 1]);
+      // Always keep the newest message, even when it alone exceeds the budget
+      if (used + tokens > budget && index < messages.length) break;
+      used += tokens;
+      index--;
+    }
+    return windowStart(messages, index);
+  }
+}
+
+/**
+ * Create the memory strategy for an agent's memory config
+ */
+export function createMemoryStrategy(config: MemoryConfig): MemoryStrategy {
+  switch (config.strategy) {
+    case 'sliding-window':
+      return new SlidingWindowMemory(config.maxMessages);
+    case 'summary-buffer':
+      return new SummaryBufferMemory(config.maxMessages);
+    case 'token-budget':
+      return new TokenBudgetMemory(config.maxTokens, config.summarize);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Move a window start past tool results, which cannot be sent without their tool call
+ */
+function windowStart(messages: MessageData[], index: number): number {
+  let start = Math.max(index, 0);
+  while (start < messages.length && messages[start].role === 'tool') {
+    start++;
+  }
+  return start;
+}
+
+/**
+ * Index of the first message not yet covered by the summary
+ */
+function summarizedUpTo(messages: MessageData[], summary?: ThreadSummary): number {
+  if (!summary) return 0;
+
+  const index = messages.findIndex((message) => message.id === summary.lastMessageId);
+  return index >= 0 ? index + 1 : Math.min(summary.messageCount, messages.length);
+}
+
+async function foldIntoSummary(
+  messages: MessageData[],
+  start: number,
+  cut: number,
+  options: { summary?: ThreadSummary; summarize: Summarizer }
+): Promise<MemoryWindow> {
+  const folded = messages.slice(start, cut);
+  if (folded.length === 0) {
+    return { messages: messages.slice(start), summary: options.summary };
+  }
+
+  const content = await options.summarize(folded, options.summary?.content);
+  return {
+    messages: messages.slice(cut),
+    summary: {
+      content,
+      lastMessageId: folded[folded.length - 1].id,
+      messageCount: (options.summary?.messageCount || 0) + folded.length,
+      updatedAt: new Date(),
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import type { StreamEvent } from '../types';
+
+/**
+ * Bridge a callback-based producer into an async iterator
+ * Events are buffered until consumed; errors thrown by the producer surface from the iterator
+ */
+export async function* iterateEvents<E>(
+  run: (emit: (event: E) => void) => Promise<void>
+): AsyncGenerator<E> {
+  const queue: E[] = [];
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  run((event) => {
+    queue.push(event);
+    notify();
+  })
+    .catch((error) => {
+      failure = { error };
+    })
+    .finally(() => {
+      finished = true;
+      notify();
+    });
+
+  while (true) {
+    if (queue.length > 0) {
+      yield queue.shift()!;
+      continue;
+    }
+    if (finished) {
+      break;
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+}
+
+/**
+ * Encode stream events as a Server-Sent Events `Response`
+ * Each event is sent with its `type` as the SSE event name and the event as JSON data.
+ * A failure is sent as a final `error` event before the stream closes.
+ * Pass a function to receive an abort signal for the turn; it is aborted when the client
+ * disconnects and the stream is cancelled.
+ */
+export function toSSEResponse<T = unknown>(
+  events: AsyncIterable<StreamEvent<T>> | ((signal: AbortSignal) => AsyncIterable<StreamEvent<T>>),
+  init?: ResponseInit
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  const iterator = (typeof events === 'function' ? events(abortController.signal) : events)[
+    Symbol.asyncIterator
+  ]();
+
+  const encode = (type: string, data: unknown) =>
+    encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(value.type, value));
+      } catch (error) {
+        controller.enqueue(
+          encode('error', {
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          })
+        );
+        controller.close();
+      }
+    },
+    async cancel() {
+      abortController.abort();
+      await iterator.return?.();
+    },
+  });
+
+  const headers = new Headers(init?.headers);
+  headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+  headers.set('Cache-Control', 'no-cache, no-transform');
+  headers.set('Connection', 'keep-alive');
+
+  return new Response(stream, { ...init, headers });
+}
@@ -0,0 +1,57 @@
+import type { UserMemoryEntry } from '../types';
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'have',
+  'has', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'how', 'can', 'could',
+  'would', 'should', 'will', 'about', 'from', 'into', 'they', 'them', 'their', 'there',
+  'does', 'did', 'any', 'all', 'our', 'out', 'some', 'than', 'then', 'also', 'just',
+  'user', 'users',
+]);
+
+function terms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Pick the facts most relevant to a message
+ * Entries are scored by the words they share with the message; remaining slots
+ * are filled with the most recently updated entries, so stable facts like the
+ * user's name stay in the prompt even when the message doesn't mention them
+ */
+export function rankUserMemories(
+  entries: UserMemoryEntry[],
+  query: string,
+  limit: number
+): UserMemoryEntry[] {
+  const queryTerms = terms(query);
+
+  return entries
+    .map((entry) => {
+      let score = 0;
+      for (const term of terms(entry.content)) {
+        if (queryTerms.has(term)) score++;
+      }
+      return { entry, score };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.entry.updatedAt.getTime() - a.entry.updatedAt.getTime()
+    )
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Check whether a fact is already known, ignoring case, word order and punctuation
+ */
+export function isKnownFact(content: string, knownFacts: string[]): boolean {
+  const normalize = (text: string) => [...terms(text)].sort().join(' ');
+  const normalized = normalize(content);
+  return knownFacts.some((fact) => normalize(fact) === normalized);
+}
@@ -0,0 +1,117 @@
+import type { Agent } from '../core/Agent';
+import type { Tool, ToolPlugin, ToolExecutionContext } from '../types/plugins';
+
+/**
+ * Configuration for exposing an agent as a tool
+ */
+export interface AgentToolConfig {
+  /**
+   * Tool name shown to the parent model
+   * @default `ask_<agent name>`, e.g. "ask_billing_expert"
+   */
+  name?: string;
+
+  /**
+   * When the parent model should call the agent
+   * @default the agent's description, or "Ask the <name> agent"
+   */
+  description?: string;
+
+  /**
+   * Retrieve context from the sub-agent's RAG plugins for each call
+   * @default true
+   */
+  useRAG?: boolean;
+
+  /**
+   * Hold calls for human approval, like any other tool
+   */
+  requiresApproval?: boolean;
+}
+
+/**
+ * Agent Tool Plugin
+ *
+ * Exposes an agent as a tool to another agent (sub-agent delegation). The parent
+ * model sends a self-contained request, the sub-agent answers it with its own
+ * instructions, model and plugins, and the answer is returned as the tool result.
+ * Unlike a handoff, the parent keeps the conversation.
+ *
+ * Tokens spent by the sub-agent are added to the parent turn's usage, and its time
+ * to the turn's `toolExecutionTime`.
+ *
+ * @example
+ * ```typescript
+ * const researcher = await client.getAgent(researcherId);
+ * const writer = await client.createAgent({
+ *   name: 'Writer',
+ *   instructions: 'Write articles. Ask the researcher for facts.',
+ *   model: 'gpt-4o',
+ *   userId,
+ *   plugins: [researcher.asTool({ description: 'Finds facts and sources on a topic' })],
+ * });
+ * ```
+ */
+export class AgentToolPlugin implements ToolPlugin {
+  type = 'tool' as const;
+  name: string;
+
+  private agent: Agent;
+  private config: AgentToolConfig;
+
+  constructor(agent: Agent, config: AgentToolConfig = {}) {
+    this.agent = agent;
+    this.config = config;
+    this.name = `agent-tool:${agent.id}`;
+  }
+
+  getTools(): Tool[] {
+    const agentData = this.agent.toJSON();
+
+    return [
+      {
+        name: this.config.name || toToolName(agentData.name),
+        description:
+          this.config.description || agentData.description || `Ask the ${agentData.name} agent`,
+        parameters: {
+          type: 'object',
+          properties: {
+            input: {
+              type: 'string',
+              description: 'The request for the agent, with all the context it needs to answer',
+            },
+          },
+          required: ['input'],
+        },
+        requiresApproval: this.config.requiresApproval,
+        execute: (args: { input: string }, context?: ToolExecutionContext) =>
+          this.run(args.input, context),
+      },
+    ];
+  }
+
+  private async run(input: string, context?: ToolExecutionContext): Promise<string> {
+    const result = await this.agent.generateResponse([{ role: 'user', content: input }], {
+      useRAG: this.config.useRAG ?? true,
+      threadId: context?.threadId,
+      signal: context?.signal,
+    });
+
+    if (result.usage) {
+      context?.reportUsage(result.usage);
+    }
+
+    return result.text;
+  }
+}
+
+/**
+ * Helper function to derive a tool name from an agent name
+ */
+function toToolName(agentName: string): string {
+  const slug = agentName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+  return `ask_${slug || 'agent'}`;
+}
@@ -276,6 +276,20 @@ export class DefaultRAGPlugin implements RAGPlugin {
     return deletedCount;
   }
 
+  /**
+   * Delete all of an agent's documents
+   */
+  async deleteAll(options: IngestOptions): Promise<number> {
+    if (!options.agentId) {
+      throw new Error('agentId is required for document deletion');
+    }
+
+    const count = this.documents.get(options.agentId)?.length || 0;
+    this.documents.delete(options.agentId);
+
+    return count;
+  }
+
   /**
    * Generate embedding using OpenAI
    */
@@ -3,4 +3,4 @@
  */
 
 export { DefaultRAGPlugin, type DefaultRAGConfig } from './DefaultRAGPlugin';
-
+export { AgentToolPlugin, type AgentToolConfig } from './AgentToolPlugin';
@@ -9,6 +9,19 @@ export { Agent } from './core/Agent';
 export { Thread } from './core/Thread';
 export { PluginManager } from './core/PluginManager';
 
+// Streaming helpers
+export { toSSEResponse } from './core/streaming';
+
+// Conversation memory
+export {
+  SlidingWindowMemory,
+  SummaryBufferMemory,
+  TokenBudgetMemory,
+  createMemoryStrategy,
+  estimateTokens,
+} from './core/memory';
+export type { MemoryStrategy, MemoryWindow, Summarizer } from './core/memory';
+
 // Plugin Registry (for plugin persistence)
 export {
   PluginRegistry,
@@ -19,28 +32,87 @@ export {
 export type { PluginFactory } from './core/PluginRegistry';
 
 // Providers
-export { ProviderFactory, Models } from './providers';
+export {
+  ProviderFactory,
+  Models,
+  MockProvider,
+  MODEL_CONTEXT_LIMITS,
+  getModelContextLimit,
+} from './providers';
+export type { MockResponse, MockCall, MockProviderConfig } from './providers';
 
 // Built-in (included with SDK)
-export { DefaultRAGPlugin } from './inc';
-export type { DefaultRAGConfig } from './inc';
+export { DefaultRAGPlugin, AgentToolPlugin } from './inc';
+export type { DefaultRAGConfig, AgentToolConfig } from './inc';
 
 // Types
 export type {
   ProviderType,
   ProviderConfig,
+  ProviderSettings,
+  CompatibleProviderSettings,
+  CustomProviderFactory,
   AgentConfig,
   AgentData,
+  ModelFallback,
+  HandoffTarget,
+  HandoffRecord,
+  RetryPolicy,
+  RetryableErrorClass,
+  MemoryConfig,
   AgentFile,
   ThreadConfig,
   ThreadData,
+  ThreadSummary,
   MessageData,
   MessageRole,
   MessageAttachment,
+  FileContent,
+  FileResolver,
+  FileInfo,
+  StoredFile,
+  PutFileOptions,
+  FileStorageAdapter,
+  AgentFileUpload,
+  MessageContentPart,
+  TextContentPart,
+  ToolCallContentPart,
+  ToolResultContentPart,
+  AddMessageOptions,
+  MessageUpdate,
   ChatRequest,
+  RegenerateRequest,
+  ForkThreadOptions,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
+  RetentionPolicy,
+  RetentionSweepOptions,
+  RetentionSweepResult,
+  AgentDeletionResult,
+  AnalyticsRecords,
+  AnalyticsRecordCounts,
+  AnalyticsRecordStore,
+  EndUserDataExport,
+  EndUserErasureReport,
   ChatResponse,
+  OutputConfig,
+  TokenBudgetOptions,
+  ToolCallRecord,
+  PendingToolCall,
+  ResolveToolCallOptions,
   StreamCallbacks,
+  StreamEvent,
+  RAGSource,
+  TokenUsage,
   StorageAdapter,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  UserMemoryStorage,
+  UserMemoryConfig,
   ClientConfig,
   RAGConfig,
   // Plugin types
@@ -60,6 +132,7 @@ export type {
   URLIngestResult,
   ToolPlugin,
   Tool,
+  ToolExecutionContext,
   MiddlewarePlugin,
   AnalyticsPlugin,
   // Analytics types
@@ -81,11 +154,33 @@ export {
   ThreadNotFoundError,
   ProviderNotFoundError,
   InvalidConfigError,
+  ToolCallNotFoundError,
+  RequestCancelledError,
+  UserMemoryNotFoundError,
+  MessageNotFoundError,
+  InvalidCursorError,
+  StorageMethodNotSupportedError,
 } from './types';
 
 // Storage (re-export for convenience, but also available via '@snap-agent/core/storage')
-export { MongoDBStorage, MemoryStorage, UpstashStorage } from './storage';
-export type { MongoDBStorageConfig, UpstashStorageConfig } from './storage';
+export {
+  MongoDBStorage,
+  MemoryStorage,
+  UpstashStorage,
+  PostgresStorage,
+  SqliteStorage,
+} from './storage';
+export type {
+  MongoDBStorageConfig,
+  UpstashStorageConfig,
+  PostgresStorageConfig,
+  PostgresQueryable,
+  SqliteStorageConfig,
+  SqliteDatabase,
+  SqliteStatement,
+} from './storage';
+export { MemoryFileStorage, LocalFileStorage, S3FileStorage } from './storage';
+export type { LocalFileStorageConfig, S3FileStorageConfig } from './storage';
 
 // Convenience function to create a client
 export function createClient(config: ClientConfig): AgentClient {
@@ -0,0 +1,310 @@
+import * as ai from 'ai';
+import type { LanguageModel } from 'ai';
+
+// AI SDK language model specifications implemented by the mock (v3 for AI SDK 6, v2 for AI SDK 5)
+type MockLanguageModel = Extract<Exclude<LanguageModel, string>, { specificationVersion: 'v3' }>;
+type MockLanguageModelV2 = Extract<Exclude<LanguageModel, string>, { specificationVersion: 'v2' }>;
+type CallOptions = Parameters<MockLanguageModel['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<MockLanguageModel['doGenerate']>>;
+type StreamPart = Awaited<ReturnType<MockLanguageModel['doStream']>>['stream'] extends ReadableStream<
+  infer P
+>
+  ? P
+  : never;
+
+/**
+ * Scripted model response
+ * `text`, `object` and `toolCalls` can be combined; `error` makes the call fail instead
+ */
+export interface MockResponse {
+  text?: string;
+  object?: unknown; // Returned as JSON text, for structured output
+  toolCalls?: Array<{ toolName: string; args?: Record<string, any>; toolCallId?: string }>;
+  chunks?: string[]; // Streamed text deltas (default: `text` split on word boundaries)
+  usage?: { promptTokens: number; completionTokens: number };
+  error?: Error;
+}
+
+/**
+ * A model call recorded by the mock provider
+ */
+export interface MockCall {
+  modelId: string;
+  mode: 'generate' | 'stream';
+  system?: string; // System messages joined by blank lines
+  messages: Array<{ role: string; content: string }>; // Non-system messages, flattened to text (files as `[mediaType: filename]`)
+  tools: string[]; // Names of the tools offered to the model
+}
+
+export interface MockProviderConfig {
+  responses?: Array<MockResponse | string>; // Played back in order, one per model call
+  respond?: (call: MockCall) => MockResponse | string; // Used once scripted responses run out
+  specificationVersion?: 'v2' | 'v3'; // Model specification to implement (default: the one the installed `ai` expects)
+}
+
+/**
+ * Deterministic provider for offline tests
+ * Plays back scripted responses and records every call it receives. Models implement the
+ * v3 specification on AI SDK 6 and v2 on AI SDK 5; set `specificationVersion` to override
+ */
+export class MockProvider {
+  readonly calls: MockCall[] = [];
+  private queue: MockResponse[];
+  private respond?: MockProviderConfig['respond'];
+  private specificationVersion: 'v2' | 'v3';
+  private toolCallCount = 0;
+
+  constructor(config: MockProviderConfig = {}) {
+    this.queue = (config.responses || []).map(toMockResponse);
+    this.respond = config.respond;
+    this.specificationVersion = config.specificationVersion || installedSpecificationVersion();
+  }
+
+  /**
+   * Append scripted responses
+   */
+  enqueue(...responses: Array<MockResponse | string>): this {
+    this.queue.push(...responses.map(toMockResponse));
+    return this;
+  }
+
+  /**
+   * The most recent model call
+   */
+  get lastCall(): MockCall | undefined {
+    return this.calls[this.calls.length - 1];
+  }
+
+  /**
+   * Clear recorded calls and remaining scripted responses
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.queue = [];
+    this.toolCallCount = 0;
+  }
+
+  /**
+   * Create a language model backed by this provider
+   */
+  languageModel(modelId: string): LanguageModel {
+    const model: MockLanguageModel = {
+      specificationVersion: 'v3',
+      provider: 'mock',
+      modelId,
+      supportedUrls: {},
+      doGenerate: async (options) => {
+        const { response, prompt } = this.next(modelId, 'generate', options);
+        const content: GenerateResult['content'] = [];
+
+        const text = responseText(response);
+        if (text) {
+          content.push({ type: 'text', text });
+        }
+        for (const toolCall of this.toolCalls(response)) {
+          content.push(toolCall);
+        }
+
+        return {
+          content,
+          finishReason: finishReason(response),
+          usage: toUsage(response, prompt, text),
+          warnings: [],
+        };
+      },
+      doStream: async (options) => {
+        const { response, prompt } = this.next(modelId, 'stream', options);
+        const text = responseText(response);
+        const chunks = response.chunks || splitWords(text);
+
+        const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+        if (chunks.length > 0) {
+          parts.push({ type: 'text-start', id: 'text-0' });
+          for (const delta of chunks) {
+            parts.push({ type: 'text-delta', id: 'text-0', delta });
+          }
+          parts.push({ type: 'text-end', id: 'text-0' });
+        }
+        parts.push(...this.toolCalls(response));
+        parts.push({
+          type: 'finish',
+          finishReason: finishReason(response),
+          usage: toUsage(response, prompt, chunks.join('')),
+        });
+
+        return {
+          stream: new ReadableStream<StreamPart>({
+            start(controller) {
+              parts.forEach((part) => controller.enqueue(part));
+              controller.close();
+            },
+          }),
+        };
+      },
+    };
+
+    return this.specificationVersion === 'v2' ? toV2(model) : model;
+  }
+
+  /**
+   * Record a call and pick the response for it
+   */
+  private next(
+    modelId: string,
+    mode: MockCall['mode'],
+    options: CallOptions
+  ): { response: MockResponse; prompt: string } {
+    if (options.abortSignal?.aborted) {
+      throw options.abortSignal.reason ?? new Error('Request was aborted');
+    }
+
+    const system = options.prompt
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content as string);
+    const messages = options.prompt
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({ role: message.role, content: flattenContent(message.content) }));
+
+    const call: MockCall = {
+      modelId,
+      mode,
+      ...(system.length > 0 && { system: system.join('\n\n') }),
+      messages,
+      tools: (options.tools || []).map((tool) => tool.name),
+    };
+    this.calls.push(call);
+
+    const scripted = this.queue.shift();
+    const response = scripted || (this.respond && toMockResponse(this.respond(call)));
+    if (!response) {
+      throw new Error(`Mock provider has no response left for call ${this.calls.length}`);
+    }
+    if (response.error) {
+      throw response.error;
+    }
+
+    const prompt = [...system, ...messages.map((message) => message.content)].join('\n');
+    return { response, prompt };
+  }
+
+  private toolCalls(response: MockResponse) {
+    return (response.toolCalls || []).map((toolCall) => ({
+      type: 'tool-call' as const,
+      toolCallId: toolCall.toolCallId || `mock-call-${++this.toolCallCount}`,
+      toolName: toolCall.toolName,
+      input: JSON.stringify(toolCall.args || {}),
+    }));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The model specification the installed AI SDK expects
+ * ai has no version export; ToolLoopAgent arrived in AI SDK 6 together with v3
+ */
+function installedSpecificationVersion(): 'v2' | 'v3' {
+  return 'ToolLoopAgent' in ai ? 'v3' : 'v2';
+}
+
+function toMockResponse(response: MockResponse | string): MockResponse {
+  return typeof response === 'string' ? { text: response } : response;
+}
+
+function responseText(response: MockResponse): string {
+  if (response.object !== undefined) {
+    return JSON.stringify(response.object);
+  }
+  return response.text ?? response.chunks?.join('') ?? '';
+}
+
+function finishReason(response: MockResponse): GenerateResult['finishReason'] {
+  const unified = response.toolCalls?.length ? 'tool-calls' : 'stop';
+  return { unified, raw: unified };
+}
+
+/**
+ * Use scripted usage, or estimate ~4 characters per token so numbers stay deterministic
+ */
+function toUsage(response: MockResponse, prompt: string, text: string): GenerateResult['usage'] {
+  const input = response.usage?.promptTokens ?? Math.ceil(prompt.length / 4);
+  const output = response.usage?.completionTokens ?? Math.ceil(text.length / 4);
+
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  };
+}
+
+/**
+ * Implement the v2 specification on top of v3: a plain finish reason and flat usage.
+ * Prompts, content and stream parts the mock uses have the same shape in both.
+ */
+function toV2(model: MockLanguageModel): MockLanguageModelV2 {
+  type V2Result = Awaited<ReturnType<MockLanguageModelV2['doGenerate']>>;
+  type V2StreamPart = Awaited<ReturnType<MockLanguageModelV2['doStream']>>['stream'] extends ReadableStream<
+    infer P
+  >
+    ? P
+    : never;
+
+  const toV2Usage = (usage: GenerateResult['usage']): V2Result['usage'] => ({
+    inputTokens: usage.inputTokens.total,
+    outputTokens: usage.outputTokens.total,
+    totalTokens: (usage.inputTokens.total ?? 0) + (usage.outputTokens.total ?? 0),
+  });
+
+  return {
+    specificationVersion: 'v2',
+    provider: model.provider,
+    modelId: model.modelId,
+    supportedUrls: model.supportedUrls,
+    doGenerate: async (options) => {
+      const result = await model.doGenerate(options as unknown as CallOptions);
+      return {
+        ...result,
+        finishReason: result.finishReason.unified,
+        usage: toV2Usage(result.usage),
+      } as V2Result;
+    },
+    doStream: async (options) => {
+      const { stream } = await model.doStream(options as unknown as CallOptions);
+      return {
+        stream: stream.pipeThrough(
+          new TransformStream<StreamPart, V2StreamPart>({
+            transform(part, controller) {
+              controller.enqueue(
+                (part.type === 'finish'
+                  ? { ...part, finishReason: part.finishReason.unified, usage: toV2Usage(part.usage) }
+                  : part) as V2StreamPart
+              );
+            },
+          })
+        ),
+      };
+    },
+  };
+}
+
+function flattenContent(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return (content as Array<Record<string, any>>)
+    .map((part) => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'file') return `[${part.mediaType}${part.filename ? `: ${part.filename}` : ''}]`;
+      if (part.type === 'tool-call') return `[${part.toolName}] ${JSON.stringify(part.input)}`;
+      if (part.type === 'tool-result') return JSON.stringify(part.output?.value ?? part.output);
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function splitWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
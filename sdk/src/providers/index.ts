@@ -1,14 +1,24 @@
 import { LanguageModel } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
-import { ProviderType, ProviderConfig, ProviderNotFoundError } from '../types';
+import {
+  ProviderType,
+  ProviderConfig,
+  CustomProviderFactory,
+  ProviderNotFoundError,
+} from '../types';
+
+export { MockProvider } from './MockProvider';
+export type { MockResponse, MockCall, MockProviderConfig } from './MockProvider';
 
 /**
  * Provider factory for creating language model instances
- * Supports OpenAI, Anthropic, and Google providers via Vercel AI SDK
+ * Supports OpenAI, Anthropic, and Google providers via Vercel AI SDK,
+ * OpenAI-compatible endpoints, and custom providers registered at runtime
  */
 export class ProviderFactory {
   private config: ProviderConfig;
   private modelCache: Map<string, LanguageModel> = new Map();
+  private customProviders: Map<string, CustomProviderFactory> = new Map();
 
   constructor(config: ProviderConfig) {
     this.config = config;
@@ -27,6 +37,13 @@ export class ProviderFactory {
 
     let model: LanguageModel;
 
+    const customProvider = this.customProviders.get(provider);
+    if (customProvider) {
+      model = await customProvider(modelName);
+      this.modelCache.set(cacheKey, model);
+      return model;
+    }
+
     switch (provider) {
       case 'openai': {
         if (!this.config.openai?.apiKey) {
@@ -34,6 +51,8 @@ export class ProviderFactory {
         }
         const openai = createOpenAI({
           apiKey: this.config.openai.apiKey,
+          baseURL: this.config.openai.baseURL,
+          headers: this.config.openai.headers,
         });
         model = openai(modelName);
         break;
@@ -48,6 +67,8 @@ export class ProviderFactory {
           const { createAnthropic } = await import('@ai-sdk/anthropic');
           const anthropic = createAnthropic({
             apiKey: this.config.anthropic.apiKey,
+            baseURL: this.config.anthropic.baseURL,
+            headers: this.config.anthropic.headers,
           });
           model = anthropic(modelName);
         } catch (error) {
@@ -67,6 +88,8 @@ export class ProviderFactory {
           const { createGoogleGenerativeAI } = await import('@ai-sdk/google');
           const google = createGoogleGenerativeAI({
             apiKey: this.config.google.apiKey,
+            baseURL: this.config.google.baseURL,
+            headers: this.config.google.headers,
           });
           model = google(modelName);
         } catch (error) {
@@ -77,18 +100,61 @@ export class ProviderFactory {
         break;
       }
 
-      default:
-        throw new ProviderNotFoundError(`Unknown provider: ${provider}`);
+      case 'mock': {
+        if (!this.config.mock) {
+          throw new ProviderNotFoundError('Mock provider not configured');
+        }
+        model = this.config.mock.languageModel(modelName);
+        break;
+      }
+
+      default: {
+        const compatible = this.config.compatible?.[provider];
+        if (!compatible) {
+          throw new ProviderNotFoundError(`Unknown provider: ${provider}`);
+        }
+        // Compatible servers implement chat completions, not the Responses API
+        const openai = createOpenAI({
+          name: provider,
+          apiKey: compatible.apiKey ?? '',
+          baseURL: compatible.baseURL,
+          headers: compatible.headers,
+        });
+        model = openai.chat(modelName);
+        break;
+      }
     }
 
     this.modelCache.set(cacheKey, model);
     return model;
   }
 
+  /**
+   * Register a custom provider at runtime
+   * Agents using `name` as their provider get models from `factory`.
+   * Registering an existing name (including a built-in one) overrides it.
+   */
+  registerProvider(name: string, factory: CustomProviderFactory): void {
+    this.customProviders.set(name, factory);
+    this.clearCache(name);
+  }
+
+  /**
+   * Remove a custom provider registered at runtime
+   */
+  unregisterProvider(name: string): boolean {
+    this.clearCache(name);
+    return this.customProviders.delete(name);
+  }
+
   /**
    * Check if a provider is configured
    */
   isProviderConfigured(provider: ProviderType): boolean {
+    if (this.customProviders.has(provider)) {
+      return true;
+    }
+
     switch (provider) {
       case 'openai':
         return !!this.config.openai?.apiKey;
@@ -96,8 +162,10 @@ export class ProviderFactory {
         return !!this.config.anthropic?.apiKey;
       case 'google':
         return !!this.config.google?.apiKey;
+      case 'mock':
+        return !!this.config.mock;
       default:
-        return false;
+        return !!this.config.compatible?.[provider];
     }
   }
 
@@ -110,18 +178,74 @@ export class ProviderFactory {
     if (this.config.openai?.apiKey) providers.push('openai');
     if (this.config.anthropic?.apiKey) providers.push('anthropic');
     if (this.config.google?.apiKey) providers.push('google');
+    if (this.config.mock) providers.push('mock');
+
+    for (const name of Object.keys(this.config.compatible || {})) {
+      if (!providers.includes(name)) providers.push(name);
+    }
+
+    for (const name of this.customProviders.keys()) {
+      if (!providers.includes(name)) providers.push(name);
+    }
 
     return providers;
   }
 
   /**
-   * Clear the model cache
+   * Clear the model cache, optionally for a single provider
    */
-  clearCache(): void {
-    this.modelCache.clear();
+  clearCache(provider?: ProviderType): void {
+    if (!provider) {
+      this.modelCache.clear();
+      return;
+    }
+
+    for (const key of this.modelCache.keys()) {
+      if (key.startsWith(`${provider}:`)) {
+        this.modelCache.delete(key);
+      }
+    }
   }
 }
 
+/**
+ * Context window sizes (in tokens) for common models
+ * Unlisted models match the longest listed prefix (e.g. 'gpt-4o-2024-08-06' uses 'gpt-4o')
+ */
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-3.5-turbo': 16385,
+  'claude-3-5-sonnet': 200000,
+  'claude-3-5-haiku': 200000,
+  'claude-3-opus': 200000,
+  'gemini-2.0-flash': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+};
+
+// Context window assumed for unknown models
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+/**
+ * Get the context window size for a model
+ */
+export function getModelContextLimit(
+  model: string,
+  overrides: Record<string, number> = {}
+): number {
+  const limits = { ...MODEL_CONTEXT_LIMITS, ...overrides };
+  if (limits[model]) {
+    return limits[model];
+  }
+
+  const prefix = Object.keys(limits)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? limits[prefix] : DEFAULT_CONTEXT_LIMIT;
+}
+
 /**
  * Common model names for quick reference
  */
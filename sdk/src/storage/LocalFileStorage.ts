@@ -0,0 +1,107 @@
+import type { FileInfo, FileStorageAdapter, PutFileOptions, StoredFile } from '../types';
+
+export interface LocalFileStorageConfig {
+  /**
+   * Directory files are written to (created on first write)
+   */
+  directory: string;
+}
+
+// Sidecar file holding a file's info next to its contents
+const INFO_SUFFIX = '.info.json';
+
+/**
+ * Local Filesystem File Storage (Node.js only)
+ * Each file is written to the directory with a JSON sidecar holding its info.
+ * Node modules are imported lazily so the SDK still loads on edge runtimes.
+ */
+export class LocalFileStorage implements FileStorageAdapter {
+  private directory: string;
+
+  constructor(config: LocalFileStorageConfig | string) {
+    this.directory = typeof config === 'string' ? config : config.directory;
+  }
+
+  async put(
+    fileId: string,
+    data: Uint8Array | string,
+    options: PutFileOptions = {}
+  ): Promise<FileInfo> {
+    const fs = await import('node:fs/promises');
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const info: FileInfo = {
+      fileId,
+      ...options,
+      size: bytes.byteLength,
+      createdAt: new Date(),
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(await this.path(fileId), bytes);
+    await fs.writeFile(await this.path(fileId, INFO_SUFFIX), JSON.stringify(info));
+
+    return info;
+  }
+
+  async get(fileId: string): Promise<StoredFile | null> {
+    const fs = await import('node:fs/promises');
+    const info = await this.readInfo(`${encodeURIComponent(fileId)}${INFO_SUFFIX}`);
+    if (!info) return null;
+
+    const data = await fs.readFile(await this.path(fileId));
+    return { ...info, data: new Uint8Array(data) };
+  }
+
+  async delete(fileId: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.path(fileId), { force: true });
+    await fs.rm(await this.path(fileId, INFO_SUFFIX), { force: true });
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<FileInfo[]> {
+    const fs = await import('node:fs/promises');
+
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files: FileInfo[] = [];
+    for (const name of names) {
+      if (!name.endsWith(INFO_SUFFIX)) continue;
+      const info = await this.readInfo(name);
+      if (info && (!options.prefix || info.fileId.startsWith(options.prefix))) {
+        files.push(info);
+      }
+    }
+    return files;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * File IDs are URI-encoded so IDs with slashes stay inside the directory
+   */
+  private async path(fileId: string, suffix: string = ''): Promise<string> {
+    const { join } = await import('node:path');
+    return join(this.directory, `${encodeURIComponent(fileId)}${suffix}`);
+  }
+
+  private async readInfo(name: string): Promise<FileInfo | null> {
+    const fs = await import('node:fs/promises');
+    const { join } = await import('node:path');
+
+    try {
+      const info = JSON.parse(await fs.readFile(join(this.directory, name), 'utf8'));
+      return { ...info, createdAt: new Date(info.createdAt) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
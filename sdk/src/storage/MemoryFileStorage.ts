@@ -0,0 +1,53 @@
+import type { FileInfo, FileStorageAdapter, PutFileOptions, StoredFile } from '../types';
+
+/**
+ * In-Memory File Storage
+ * Keeps file contents in memory (useful for testing and development)
+ */
+export class MemoryFileStorage implements FileStorageAdapter {
+  private files: Map<string, StoredFile> = new Map();
+
+  async put(
+    fileId: string,
+    data: Uint8Array | string,
+    options: PutFileOptions = {}
+  ): Promise<FileInfo> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data.slice();
+    const file: StoredFile = {
+      fileId,
+      ...options,
+      size: bytes.byteLength,
+      createdAt: new Date(),
+      data: bytes,
+    };
+
+    this.files.set(fileId, file);
+    return toFileInfo(file);
+  }
+
+  async get(fileId: string): Promise<StoredFile | null> {
+    const file = this.files.get(fileId);
+    return file ? { ...file, data: file.data.slice() } : null;
+  }
+
+  async delete(fileId: string): Promise<void> {
+    this.files.delete(fileId);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<FileInfo[]> {
+    return Array.from(this.files.values())
+      .filter((file) => !options.prefix || file.fileId.startsWith(options.prefix))
+      .map(toFileInfo);
+  }
+
+  /**
+   * Remove all files
+   */
+  clear(): void {
+    this.files.clear();
+  }
+}
+
+function toFileInfo({ data: _data, ...info }: StoredFile): FileInfo {
+  return info;
+}
@@ -7,15 +7,28 @@ import {
   MessageData,
   MessageRole,
   MessageAttachment,
+  AddMessageOptions,
+  MessageUpdate,
+  UserMemoryStorage,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
 } from '../types';
+import { paginate, paginateMessages } from './pagination';
 
 /**
  * In-Memory Storage Adapter
  * Provides temporary storage for agents and threads (useful for testing and development)
  */
-export class MemoryStorage implements StorageAdapter {
+export class MemoryStorage implements StorageAdapter, UserMemoryStorage {
   private agents: Map<string, AgentData> = new Map();
   private threads: Map<string, ThreadData> = new Map();
+  private userMemories: Map<string, UserMemoryEntry> = new Map();
   private idCounter = 0;
 
   private generateId(): string {
@@ -46,7 +59,7 @@ export class MemoryStorage implements StorageAdapter {
 
   async updateAgent(
     agentId: string,
-    updates: Partial<AgentConfig>
+    updates: Partial<AgentConfig & Pick<AgentData, 'files'>>
   ): Promise<void> {
     const agent = this.agents.get(agentId);
     if (!agent) return;
@@ -84,6 +97,16 @@ export class MemoryStorage implements StorageAdapter {
     return agents.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  async listAgentsPage(filters: AgentFilters, options?: ListOptions): Promise<Page<AgentData>> {
+    const agents = Array.from(this.agents.values()).filter((agent) => {
+      if (agent.userId !== filters.userId) return false;
+      if (filters.organizationId && agent.organizationId !== filters.organizationId) return false;
+      return true;
+    });
+
+    return paginate(agents, options);
+  }
+
   // ============================================================================
   // Thread Operations
   // ============================================================================
@@ -137,6 +160,18 @@ export class MemoryStorage implements StorageAdapter {
     return threads.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  async listThreadsPage(filters: ThreadFilters, options?: ListOptions): Promise<Page<ThreadData>> {
+    const threads = Array.from(this.threads.values()).filter((thread) => {
+      if (filters.userId && thread.userId !== filters.userId) return false;
+      if (filters.agentId && thread.agentId !== filters.agentId) return false;
+      if (filters.organizationId && thread.organizationId !== filters.organizationId) return false;
+      if (filters.endUserId && thread.endUserId !== filters.endUserId) return false;
+      return true;
+    });
+
+    return paginate(threads, options);
+  }
+
   // ============================================================================
   // Message Operations
   // ============================================================================
@@ -145,7 +180,8 @@ export class MemoryStorage implements StorageAdapter {
     threadId: string,
     role: MessageRole,
     content: string,
-    attachments?: MessageAttachment[]
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
   ): Promise<string> {
     const thread = this.threads.get(threadId);
     if (!thread) {
@@ -159,6 +195,8 @@ export class MemoryStorage implements StorageAdapter {
       content,
       timestamp: new Date(),
       attachments,
+      ...(options?.parts && { parts: options.parts }),
+      ...(options?.metadata && { metadata: options.metadata }),
     };
 
     thread.messages.push(message);
@@ -181,6 +219,14 @@ export class MemoryStorage implements StorageAdapter {
     return messages;
   }
 
+  async listMessagesPage(
+    threadId: string,
+    options?: MessageListOptions
+  ): Promise<Page<MessageData>> {
+    const thread = this.threads.get(threadId);
+    return paginateMessages(thread ? thread.messages : [], options);
+  }
+
   async getConversationContext(
     threadId: string,
     maxMessages: number = 20
@@ -192,6 +238,97 @@ export class MemoryStorage implements StorageAdapter {
     }));
   }
 
+  async updateMessage(threadId: string, messageId: string, updates: MessageUpdate): Promise<void> {
+    const thread = this.threads.get(threadId);
+    const message = thread?.messages.find((m) => m.id === messageId);
+    if (!thread || !message) return;
+
+    Object.assign(message, updates);
+    thread.updatedAt = new Date();
+  }
+
+  async deleteMessages(threadId: string, messageIds: string[]): Promise<void> {
+    const thread = this.threads.get(threadId);
+    if (!thread) return;
+
+    thread.messages = thread.messages.filter((m) => !messageIds.includes(m.id));
+    thread.updatedAt = new Date();
+  }
+
+  async forkThread(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string> {
+    const source = this.threads.get(threadId);
+    if (!source) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const end = upToMessageId
+      ? source.messages.findIndex((m) => m.id === upToMessageId) + 1
+      : source.messages.length;
+
+    const id = await this.createThread(config);
+    this.threads.get(id)!.messages = source.messages.slice(0, end).map((message) => ({
+      ...structuredClone(message),
+      id: this.generateId(),
+    }));
+
+    return id;
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  async addUserMemory(entry: UserMemoryInput): Promise<string> {
+    const id = this.generateId();
+    this.userMemories.set(id, {
+      id,
+      ...entry,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    return id;
+  }
+
+  async getUserMemory(memoryId: string): Promise<UserMemoryEntry | null> {
+    return this.userMemories.get(memoryId) || null;
+  }
+
+  async listUserMemories(
+    endUserId: string,
+    filters: { organizationId?: string; category?: string } = {}
+  ): Promise<UserMemoryEntry[]> {
+    const entries = Array.from(this.userMemories.values()).filter((entry) => {
+      if (entry.endUserId !== endUserId) return false;
+      if (filters.organizationId && entry.organizationId !== filters.organizationId) return false;
+      if (filters.category && entry.category !== filters.category) return false;
+      return true;
+    });
+
+    return entries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void> {
+    const entry = this.userMemories.get(memoryId);
+    if (!entry) return;
+
+    Object.assign(entry, updates, { updatedAt: new Date() });
+  }
+
+  async deleteUserMemory(memoryId: string): Promise<void> {
+    this.userMemories.delete(memoryId);
+  }
+
+  async deleteUserMemories(endUserId: string): Promise<number> {
+    let deleted = 0;
+    for (const [id, entry] of this.userMemories.entries()) {
+      if (entry.endUserId === endUserId) {
+        this.userMemories.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   // ============================================================================
   // Utility Methods
   // ============================================================================
@@ -202,6 +339,7 @@ export class MemoryStorage implements StorageAdapter {
   clear(): void {
     this.agents.clear();
     this.threads.clear();
+    this.userMemories.clear();
     this.idCounter = 0;
   }
 
@@ -8,9 +8,28 @@ import {
   MessageData,
   MessageRole,
   MessageAttachment,
+  MessageContentPart,
+  AddMessageOptions,
+  MessageUpdate,
   AgentFile,
   StoredPluginConfig,
+  ModelFallback,
+  HandoffTarget,
+  RetryPolicy,
+  MemoryConfig,
+  ThreadSummary,
+  UserMemoryStorage,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
+  InvalidCursorError,
 } from '../types';
+import { decodeCursor, pageSize, paginateMessages, toPage } from './pagination';
 
 interface AgentDocument {
   _id?: ObjectId;
@@ -27,6 +46,11 @@ interface AgentDocument {
   files: AgentFile[];
   metadata?: Record<string, any>;
   pluginConfigs?: StoredPluginConfig[];
+  maxToolSteps?: number;
+  fallbacks?: ModelFallback[];
+  retryPolicy?: RetryPolicy;
+  memory?: MemoryConfig;
+  handoffs?: HandoffTarget[];
 }
 
 interface ThreadDocument {
@@ -42,12 +66,27 @@ interface ThreadDocument {
     _id?: ObjectId;
     role: MessageRole;
     content: string;
+    parts?: MessageContentPart[];
     timestamp: Date;
     metadata?: Record<string, any>;
     attachments?: MessageAttachment[];
   }>;
   isPendingThread: boolean;
   metadata?: Record<string, any>;
+  summary?: ThreadSummary;
+}
+
+interface UserMemoryDocument {
+  _id?: ObjectId;
+  endUserId: string;
+  organizationId?: string;
+  content: string;
+  category?: string;
+  agentId?: string;
+  threadId?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface MongoDBStorageConfig {
@@ -55,13 +94,14 @@ export interface MongoDBStorageConfig {
   dbName?: string;
   agentsCollection?: string;
   threadsCollection?: string;
+  userMemoriesCollection?: string;
 }
 
 /**
  * MongoDB Storage Adapter
  * Provides persistent storage for agents and threads using MongoDB
  */
-export class MongoDBStorage implements StorageAdapter {
+export class MongoDBStorage implements StorageAdapter, UserMemoryStorage {
   private client: MongoClient;
   private db: Db | null = null;
   private config: Required<MongoDBStorageConfig>;
@@ -73,6 +113,7 @@ export class MongoDBStorage implements StorageAdapter {
         dbName: 'agentStudio',
         agentsCollection: 'v2_agents',
         threadsCollection: 'v2_threads',
+        userMemoriesCollection: 'v2_user_memories',
       };
     } else {
       this.config = {
@@ -80,6 +121,7 @@ export class MongoDBStorage implements StorageAdapter {
         dbName: config.dbName || 'agentStudio',
         agentsCollection: config.agentsCollection || 'v2_agents',
         threadsCollection: config.threadsCollection || 'v2_threads',
+        userMemoriesCollection: config.userMemoriesCollection || 'v2_user_memories',
       };
     }
 
@@ -99,6 +141,24 @@ export class MongoDBStorage implements StorageAdapter {
     this.db = null;
   }
 
+  /**
+   * Create the compound indexes used by the paginated list methods.
+   * Safe to call on every startup; existing indexes are left as they are.
+   */
+  async createIndexes(): Promise<void> {
+    const db = await this.ensureConnection();
+    const agents = db.collection(this.config.agentsCollection);
+    const threads = db.collection(this.config.threadsCollection);
+
+    for (const sortBy of ['updatedAt', 'createdAt']) {
+      await agents.createIndex({ userId: 1, [sortBy]: -1, _id: -1 });
+      await threads.createIndex({ userId: 1, [sortBy]: -1, _id: -1 });
+      await threads.createIndex({ agentId: 1, [sortBy]: -1, _id: -1 });
+      await threads.createIndex({ organizationId: 1, [sortBy]: -1, _id: -1 });
+    }
+    await threads.createIndex({ endUserId: 1 });
+  }
+
   // ============================================================================
   // Agent Operations
   // ============================================================================
@@ -123,6 +183,11 @@ export class MongoDBStorage implements StorageAdapter {
       files: [],
       metadata: config.metadata || {},
       pluginConfigs: config.pluginConfigs || [],
+      maxToolSteps: config.maxToolSteps,
+      fallbacks: config.fallbacks,
+      retryPolicy: config.retryPolicy,
+      memory: config.memory,
+      handoffs: config.handoffs,
     };
 
     const result = await collection.insertOne(doc);
@@ -143,7 +208,7 @@ export class MongoDBStorage implements StorageAdapter {
 
   async updateAgent(
     agentId: string,
-    updates: Partial<AgentConfig>
+    updates: Partial<AgentConfig & Pick<AgentData, 'files'>>
   ): Promise<void> {
     const db = await this.ensureConnection();
     const collection: Collection<AgentDocument> = db.collection(
@@ -168,6 +233,9 @@ export class MongoDBStorage implements StorageAdapter {
     );
 
     await collection.deleteOne({ _id: new ObjectId(agentId) });
+
+    // Also delete associated threads
+    await db.collection(this.config.threadsCollection).deleteMany({ agentId });
   }
 
   async listAgents(
@@ -188,6 +256,19 @@ export class MongoDBStorage implements StorageAdapter {
     return docs.map((doc) => this.agentDocToData(doc));
   }
 
+  async listAgentsPage(filters: AgentFilters, options: ListOptions = {}): Promise<Page<AgentData>> {
+    const db = await this.ensureConnection();
+    const collection: Collection<AgentDocument> = db.collection(
+      this.config.agentsCollection
+    );
+
+    const query: any = { userId: filters.userId };
+    if (filters.organizationId) query.organizationId = filters.organizationId;
+
+    const page = await this.findPage(collection, query, options);
+    return { items: page.items.map((doc) => this.agentDocToData(doc)), nextCursor: page.nextCursor };
+  }
+
   // ============================================================================
   // Thread Operations
   // ============================================================================
@@ -275,6 +356,25 @@ export class MongoDBStorage implements StorageAdapter {
     return docs.map((doc) => this.threadDocToData(doc));
   }
 
+  async listThreadsPage(
+    filters: ThreadFilters,
+    options: ListOptions = {}
+  ): Promise<Page<ThreadData>> {
+    const db = await this.ensureConnection();
+    const collection: Collection<ThreadDocument> = db.collection(
+      this.config.threadsCollection
+    );
+
+    const query: any = {};
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.agentId) query.agentId = filters.agentId;
+    if (filters.organizationId) query.organizationId = filters.organizationId;
+    if (filters.endUserId) query.endUserId = filters.endUserId;
+
+    const page = await this.findPage(collection, query, options);
+    return { items: page.items.map((doc) => this.threadDocToData(doc)), nextCursor: page.nextCursor };
+  }
+
   // ============================================================================
   // Message Operations
   // ============================================================================
@@ -283,7 +383,8 @@ export class MongoDBStorage implements StorageAdapter {
     threadId: string,
     role: MessageRole,
     content: string,
-    attachments?: MessageAttachment[]
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
   ): Promise<string> {
     const db = await this.ensureConnection();
     const collection: Collection<ThreadDocument> = db.collection(
@@ -297,15 +398,20 @@ export class MongoDBStorage implements StorageAdapter {
       content,
       timestamp: new Date(),
       attachments,
+      ...(options?.parts && { parts: options.parts }),
+      ...(options?.metadata && { metadata: options.metadata }),
     };
 
-    await collection.updateOne(
+    const result = await collection.updateOne(
       { _id: new ObjectId(threadId) },
       {
         $push: { messages: message },
         $set: { updatedAt: new Date() },
       }
     );
+    if (result.matchedCount === 0) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
 
     return messageId.toString();
   }
@@ -323,6 +429,7 @@ export class MongoDBStorage implements StorageAdapter {
       id: msg._id?.toString() || '',
       role: msg.role,
       content: msg.content,
+      parts: msg.parts,
       timestamp: msg.timestamp,
       metadata: msg.metadata,
       attachments: msg.attachments,
@@ -335,6 +442,17 @@ export class MongoDBStorage implements StorageAdapter {
     return messages;
   }
 
+  /**
+   * Messages are embedded in the thread document, so they are paged after loading it
+   */
+  async listMessagesPage(
+    threadId: string,
+    options?: MessageListOptions
+  ): Promise<Page<MessageData>> {
+    const messages = await this.getMessages(threadId);
+    return paginateMessages(messages, options);
+  }
+
   async getConversationContext(
     threadId: string,
     maxMessages: number = 20
@@ -346,10 +464,217 @@ export class MongoDBStorage implements StorageAdapter {
     }));
   }
 
+  async updateMessage(threadId: string, messageId: string, updates: MessageUpdate): Promise<void> {
+    const db = await this.ensureConnection();
+    const collection: Collection<ThreadDocument> = db.collection(
+      this.config.threadsCollection
+    );
+
+    // Set only the given fields on the matched message
+    const fields: Record<string, unknown> = { updatedAt: new Date() };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        fields[`messages.$.${key}`] = value;
+      }
+    }
+
+    await collection.updateOne(
+      { _id: new ObjectId(threadId), 'messages._id': new ObjectId(messageId) },
+      { $set: fields }
+    );
+  }
+
+  async deleteMessages(threadId: string, messageIds: string[]): Promise<void> {
+    const db = await this.ensureConnection();
+    const collection: Collection<ThreadDocument> = db.collection(
+      this.config.threadsCollection
+    );
+
+    await collection.updateOne(
+      { _id: new ObjectId(threadId) },
+      {
+        $pull: { messages: { _id: { $in: messageIds.map((id) => new ObjectId(id)) } } },
+        $set: { updatedAt: new Date() },
+      }
+    );
+  }
+
+  async forkThread(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string> {
+    const db = await this.ensureConnection();
+    const collection: Collection<ThreadDocument> = db.collection(
+      this.config.threadsCollection
+    );
+
+    const source = await collection.findOne({ _id: new ObjectId(threadId) });
+    if (!source) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const end = upToMessageId
+      ? source.messages.findIndex((m) => m._id?.toString() === upToMessageId) + 1
+      : source.messages.length;
+
+    const doc: ThreadDocument = {
+      organizationId: config.organizationId,
+      agentId: config.agentId,
+      userId: config.userId,
+      endUserId: config.endUserId,
+      name: config.name,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      messages: source.messages.slice(0, end).map((message) => ({ ...message, _id: new ObjectId() })),
+      isPendingThread: true,
+      metadata: config.metadata || {},
+    };
+
+    const result = await collection.insertOne(doc);
+    return result.insertedId.toString();
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  async addUserMemory(entry: UserMemoryInput): Promise<string> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    const doc: UserMemoryDocument = {
+      ...entry,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await collection.insertOne(doc);
+    return result.insertedId.toString();
+  }
+
+  async getUserMemory(memoryId: string): Promise<UserMemoryEntry | null> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    const doc = await collection.findOne({ _id: new ObjectId(memoryId) });
+    if (!doc) return null;
+
+    return this.userMemoryDocToData(doc);
+  }
+
+  async listUserMemories(
+    endUserId: string,
+    filters: { organizationId?: string; category?: string } = {}
+  ): Promise<UserMemoryEntry[]> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    const query: any = { endUserId };
+    if (filters.organizationId) query.organizationId = filters.organizationId;
+    if (filters.category) query.category = filters.category;
+
+    const docs = await collection.find(query).sort({ updatedAt: -1 }).toArray();
+    return docs.map((doc) => this.userMemoryDocToData(doc));
+  }
+
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    await collection.updateOne(
+      { _id: new ObjectId(memoryId) },
+      {
+        $set: {
+          ...updates,
+          updatedAt: new Date(),
+        },
+      }
+    );
+  }
+
+  async deleteUserMemory(memoryId: string): Promise<void> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    await collection.deleteOne({ _id: new ObjectId(memoryId) });
+  }
+
+  async deleteUserMemories(endUserId: string): Promise<number> {
+    const db = await this.ensureConnection();
+    const collection: Collection<UserMemoryDocument> = db.collection(
+      this.config.userMemoriesCollection
+    );
+
+    const result = await collection.deleteMany({ endUserId });
+    return result.deletedCount;
+  }
+
   // ============================================================================
   // Helper Methods
   // ============================================================================
 
+  /**
+   * Run a keyset-paginated query ordered by (sortBy, _id)
+   */
+  private async findPage<T extends { _id?: ObjectId; createdAt: Date; updatedAt: Date }>(
+    collection: Collection<T>,
+    query: any,
+    options: ListOptions
+  ): Promise<Page<T>> {
+    const sortBy = options.sortBy || 'updatedAt';
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const op = order === 'asc' ? '$gt' : '$lt';
+    const conditions: any[] = [query];
+
+    const range = (after?: Date, before?: Date) => ({
+      ...(after && { $gt: after }),
+      ...(before && { $lt: before }),
+    });
+    if (options.createdAfter || options.createdBefore) {
+      conditions.push({ createdAt: range(options.createdAfter, options.createdBefore) });
+    }
+    if (options.updatedAfter || options.updatedBefore) {
+      conditions.push({ updatedAt: range(options.updatedAfter, options.updatedBefore) });
+    }
+    for (const [field, value] of Object.entries(options.metadata || {})) {
+      conditions.push({ [`metadata.${field}`]: value });
+    }
+
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      if (!ObjectId.isValid(cursor.id)) {
+        throw new InvalidCursorError(options.cursor);
+      }
+      const value = new Date(cursor.value);
+      conditions.push({
+        $or: [
+          { [sortBy]: { [op]: value } },
+          { [sortBy]: value, _id: { [op]: new ObjectId(cursor.id) } },
+        ],
+      });
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    const docs = await collection
+      .find(conditions.length > 1 ? { $and: conditions } : query)
+      .sort({ [sortBy]: direction, _id: direction })
+      .limit(limit + 1)
+      .toArray();
+
+    return toPage(docs as T[], limit, (doc) => ({
+      value: doc[sortBy].getTime(),
+      id: doc._id!.toString(),
+    }));
+  }
+
   private agentDocToData(doc: AgentDocument): AgentData {
     return {
       id: doc._id!.toString(),
@@ -366,6 +691,11 @@ export class MongoDBStorage implements StorageAdapter {
       files: doc.files,
       metadata: doc.metadata,
       pluginConfigs: doc.pluginConfigs,
+      maxToolSteps: doc.maxToolSteps,
+      fallbacks: doc.fallbacks,
+      retryPolicy: doc.retryPolicy,
+      memory: doc.memory,
+      handoffs: doc.handoffs,
     };
   }
 
@@ -383,13 +713,29 @@ export class MongoDBStorage implements StorageAdapter {
         id: msg._id?.toString() || '',
         role: msg.role,
         content: msg.content,
+        parts: msg.parts,
         timestamp: msg.timestamp,
         metadata: msg.metadata,
         attachments: msg.attachments,
       })),
       isPendingThread: doc.isPendingThread,
       metadata: doc.metadata,
+      summary: doc.summary,
     };
   }
-}
 
+  private userMemoryDocToData(doc: UserMemoryDocument): UserMemoryEntry {
+    return {
+      id: doc._id!.toString(),
+      endUserId: doc.endUserId,
+      organizationId: doc.organizationId,
+      content: doc.content,
+      category: doc.category,
+      agentId: doc.agentId,
+      threadId: doc.threadId,
+      metadata: doc.metadata,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,937 @@
+import {
+  StorageAdapter,
+  AgentConfig,
+  AgentData,
+  AgentFile,
+  ThreadConfig,
+  ThreadData,
+  ThreadSummary,
+  MessageData,
+  MessageRole,
+  MessageAttachment,
+  AddMessageOptions,
+  MessageUpdate,
+  UserMemoryStorage,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
+  InvalidConfigError,
+} from '../types';
+import { decodeCursor, pageSize, toPage } from './pagination';
+
+/**
+ * Minimal query interface of a Postgres client
+ * Satisfied by `pg` (Pool and Client) and `@neondatabase/serverless` (Pool and Client)
+ */
+export interface PostgresQueryable {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[]; rowCount?: number | null }>;
+}
+
+export interface PostgresStorageConfig {
+  /**
+   * Client used for all queries, e.g. `new Pool({ connectionString })` from `pg`
+   */
+  client: PostgresQueryable;
+
+  /**
+   * Schema holding the tables (default: the connection's search_path, usually "public")
+   */
+  schema?: string;
+
+  /**
+   * Prefix for table and index names
+   * @default "snap_"
+   */
+  tablePrefix?: string;
+
+  /**
+   * Apply pending migrations before the first query
+   * @default true
+   */
+  autoMigrate?: boolean;
+
+  /**
+   * Add a pgvector `embedding vector(N)` column to the messages table.
+   * Requires the pgvector extension to be available on the server.
+   */
+  embeddingDimensions?: number;
+}
+
+interface Tables {
+  prefix: string;
+  agents: string;
+  threads: string;
+  messages: string;
+  userMemories: string;
+  migrations: string;
+}
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: (t: Tables) => string;
+}
+
+/**
+ * Schema migrations, applied in order and recorded in the migrations table.
+ * Never edit a released migration; add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_tables',
+    sql: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.agents} (
+        id TEXT COLLATE "C" PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        organization_id TEXT,
+        user_id TEXT NOT NULL,
+        phone TEXT,
+        name TEXT NOT NULL,
+        description TEXT,
+        instructions TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        files JSONB NOT NULL DEFAULT '[]',
+        metadata JSONB,
+        plugin_configs JSONB,
+        max_tool_steps INTEGER,
+        fallbacks JSONB,
+        retry_policy JSONB,
+        memory JSONB,
+        handoffs JSONB,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${t.prefix}agents_user_updated_idx ON ${t.agents} (user_id, updated_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}agents_user_created_idx ON ${t.agents} (user_id, created_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}agents_org_idx ON ${t.agents} (organization_id);
+
+      CREATE TABLE IF NOT EXISTS ${t.threads} (
+        id TEXT COLLATE "C" PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        organization_id TEXT,
+        agent_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        end_user_id TEXT,
+        name TEXT,
+        metadata JSONB,
+        summary JSONB,
+        is_pending_thread BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_user_updated_idx ON ${t.threads} (user_id, updated_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_user_created_idx ON ${t.threads} (user_id, created_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_agent_updated_idx ON ${t.threads} (agent_id, updated_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_agent_created_idx ON ${t.threads} (agent_id, created_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_org_updated_idx ON ${t.threads} (organization_id, updated_at DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}threads_end_user_idx ON ${t.threads} (end_user_id);
+
+      CREATE TABLE IF NOT EXISTS ${t.messages} (
+        id TEXT COLLATE "C" PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        seq BIGINT GENERATED ALWAYS AS IDENTITY,
+        thread_id TEXT NOT NULL REFERENCES ${t.threads} (id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        parts JSONB,
+        attachments JSONB,
+        metadata JSONB,
+        created_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${t.prefix}messages_thread_seq_idx ON ${t.messages} (thread_id, seq);
+      CREATE INDEX IF NOT EXISTS ${t.prefix}messages_thread_created_idx ON ${t.messages} (thread_id, created_at, id);
+
+      CREATE TABLE IF NOT EXISTS ${t.userMemories} (
+        id TEXT COLLATE "C" PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        end_user_id TEXT NOT NULL,
+        organization_id TEXT,
+        content TEXT NOT NULL,
+        category TEXT,
+        agent_id TEXT,
+        thread_id TEXT,
+        metadata JSONB,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${t.prefix}user_memories_end_user_idx ON ${t.userMemories} (end_user_id, updated_at DESC);
+    `,
+  },
+];
+
+/**
+ * Agent fields and the columns they are stored in; JSON fields are stored as JSONB
+ */
+const AGENT_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  organizationId: { column: 'organization_id' },
+  userId: { column: 'user_id' },
+  phone: { column: 'phone' },
+  name: { column: 'name' },
+  description: { column: 'description' },
+  instructions: { column: 'instructions' },
+  provider: { column: 'provider' },
+  model: { column: 'model' },
+  files: { column: 'files', json: true },
+  metadata: { column: 'metadata', json: true },
+  pluginConfigs: { column: 'plugin_configs', json: true },
+  maxToolSteps: { column: 'max_tool_steps' },
+  fallbacks: { column: 'fallbacks', json: true },
+  retryPolicy: { column: 'retry_policy', json: true },
+  memory: { column: 'memory', json: true },
+  handoffs: { column: 'handoffs', json: true },
+};
+
+const THREAD_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  organizationId: { column: 'organization_id' },
+  agentId: { column: 'agent_id' },
+  userId: { column: 'user_id' },
+  endUserId: { column: 'end_user_id' },
+  name: { column: 'name' },
+  metadata: { column: 'metadata', json: true },
+  summary: { column: 'summary', json: true },
+};
+
+const MESSAGE_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  content: { column: 'content' },
+  parts: { column: 'parts', json: true },
+  attachments: { column: 'attachments', json: true },
+  metadata: { column: 'metadata', json: true },
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * PostgreSQL Storage Adapter
+ *
+ * Stores agents, threads, messages and user memories in their own tables, with
+ * indexes for lookups by user, agent and organization. Migrations run automatically
+ * before the first query (see `autoMigrate`), or explicitly with `migrate()`.
+ *
+ * The adapter takes any client with a `pg`-style `query(text, values)` method, so it
+ * works with `pg` on servers and `@neondatabase/serverless` on the edge.
+ *
+ * @example
+ * ```typescript
+ * import { Pool } from 'pg';
+ * import { PostgresStorage } from '@snap-agent/core/storage';
+ *
+ * const storage = new PostgresStorage({
+ *   client: new Pool({ connectionString: process.env.DATABASE_URL }),
+ * });
+ * ```
+ */
+export class PostgresStorage implements StorageAdapter, UserMemoryStorage {
+  private client: PostgresQueryable;
+  private config: PostgresStorageConfig;
+  private tables: Tables;
+  private ready: Promise<void> | null = null;
+
+  constructor(config: PostgresStorageConfig) {
+    const prefix = config.tablePrefix ?? 'snap_';
+    if ((prefix && !IDENTIFIER.test(prefix)) || (config.schema && !IDENTIFIER.test(config.schema))) {
+      throw new InvalidConfigError(
+        'PostgresStorage schema and tablePrefix may only contain letters, digits and underscores'
+      );
+    }
+
+    const table = (name: string) =>
+      config.schema ? `"${config.schema}"."${prefix}${name}"` : `"${prefix}${name}"`;
+
+    this.client = config.client;
+    this.config = config;
+    this.tables = {
+      prefix,
+      agents: table('agents'),
+      threads: table('threads'),
+      messages: table('messages'),
+      userMemories: table('user_memories'),
+      migrations: table('migrations'),
+    };
+  }
+
+  // ============================================================================
+  // Migrations
+  // ============================================================================
+
+  /**
+   * Apply pending migrations. Safe to run concurrently from several processes.
+   * Returns the number of migrations applied.
+   */
+  async migrate(): Promise<number> {
+    const t = this.tables;
+    await this.client.query(
+      `CREATE TABLE IF NOT EXISTS ${t.migrations} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )`
+    );
+
+    const { rows } = await this.client.query(`SELECT version FROM ${t.migrations}`);
+    const applied = new Set(rows.map((row) => Number(row.version)));
+
+    let count = 0;
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+
+      // A multi-statement query runs as a single transaction. The advisory lock
+      // serializes concurrent migrators; the statements themselves are idempotent.
+      await this.client.query(`
+        SELECT pg_advisory_xact_lock(hashtext('${t.prefix}migrations'));
+        ${migration.sql(t)}
+        INSERT INTO ${t.migrations} (version, name)
+          VALUES (${migration.version}, '${migration.name}')
+          ON CONFLICT (version) DO NOTHING;
+      `);
+      count++;
+    }
+
+    if (this.config.embeddingDimensions) {
+      const dimensions = Math.floor(this.config.embeddingDimensions);
+      await this.client.query(`
+        CREATE EXTENSION IF NOT EXISTS vector;
+        ALTER TABLE ${t.messages} ADD COLUMN IF NOT EXISTS embedding vector(${dimensions});
+      `);
+    }
+
+    return count;
+  }
+
+  private async ensureSchema(): Promise<void> {
+    if (this.config.autoMigrate === false) return;
+
+    if (!this.ready) {
+      this.ready = this.migrate().then(
+        () => undefined,
+        (error) => {
+          this.ready = null; // Retry on the next query
+          throw error;
+        }
+      );
+    }
+    await this.ready;
+  }
+
+  private async query(text: string, values?: unknown[]): Promise<any[]> {
+    await this.ensureSchema();
+    const result = await this.client.query(text, values);
+    return result.rows;
+  }
+
+  // ============================================================================
+  // Agent Operations
+  // ============================================================================
+
+  async createAgent(config: AgentConfig): Promise<string> {
+    const now = new Date();
+    const [row] = await this.query(
+      `INSERT INTO ${this.tables.agents} (
+        organization_id, user_id, phone, name, description, instructions, provider, model,
+        files, metadata, plugin_configs, max_tool_steps, fallbacks, retry_policy, memory, handoffs,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, '[]', $9, $10, $11, $12, $13, $14, $15, $16, $16)
+      RETURNING id`,
+      [
+        config.organizationId ?? null,
+        config.userId,
+        config.phone ?? null,
+        config.name,
+        config.description ?? null,
+        config.instructions,
+        config.provider,
+        config.model,
+        toJson(config.metadata || {}),
+        toJson(config.pluginConfigs || []),
+        config.maxToolSteps ?? null,
+        toJson(config.fallbacks),
+        toJson(config.retryPolicy),
+        toJson(config.memory),
+        toJson(config.handoffs),
+        now,
+      ]
+    );
+    return row.id;
+  }
+
+  async getAgent(agentId: string): Promise<AgentData | null> {
+    const [row] = await this.query(`SELECT * FROM ${this.tables.agents} WHERE id = $1`, [agentId]);
+    return row ? this.rowToAgent(row) : null;
+  }
+
+  async updateAgent(
+    agentId: string,
+    updates: Partial<AgentConfig & Pick<AgentData, 'files'>>
+  ): Promise<void> {
+    const values: unknown[] = [agentId, new Date()];
+    const assignments = ['updated_at = $2'];
+
+    for (const [key, value] of Object.entries(updates)) {
+      const field = AGENT_COLUMNS[key];
+      if (!field || value === undefined) continue;
+      values.push(field.json ? toJson(value) : value);
+      assignments.push(`${field.column} = $${values.length}`);
+    }
+
+    await this.query(
+      `UPDATE ${this.tables.agents} SET ${assignments.join(', ')} WHERE id = $1`,
+      values
+    );
+  }
+
+  /**
+   * Deletes the agent and its threads (messages go with their threads)
+   */
+  async deleteAgent(agentId: string): Promise<void> {
+    await this.query(
+      `WITH deleted_threads AS (DELETE FROM ${this.tables.threads} WHERE agent_id = $1)
+      DELETE FROM ${this.tables.agents} WHERE id = $1`,
+      [agentId]
+    );
+  }
+
+  async listAgents(userId: string, organizationId?: string): Promise<AgentData[]> {
+    const values: unknown[] = [userId];
+    let sql = `SELECT * FROM ${this.tables.agents} WHERE user_id = $1`;
+    if (organizationId) {
+      values.push(organizationId);
+      sql += ` AND organization_id = $2`;
+    }
+
+    const rows = await this.query(`${sql} ORDER BY updated_at DESC`, values);
+    return rows.map((row) => this.rowToAgent(row));
+  }
+
+  async listAgentsPage(filters: AgentFilters, options: ListOptions = {}): Promise<Page<AgentData>> {
+    const page = await this.findPage(
+      this.tables.agents,
+      { user_id: filters.userId, organization_id: filters.organizationId },
+      options
+    );
+    return { items: page.items.map((row) => this.rowToAgent(row)), nextCursor: page.nextCursor };
+  }
+
+  // ============================================================================
+  // Thread Operations
+  // ============================================================================
+
+  async createThread(config: ThreadConfig): Promise<string> {
+    const now = new Date();
+    const [row] = await this.query(
+      `INSERT INTO ${this.tables.threads} (
+        organization_id, agent_id, user_id, end_user_id, name, metadata, summary,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+      RETURNING id`,
+      [
+        config.organizationId ?? null,
+        config.agentId,
+        config.userId,
+        config.endUserId ?? null,
+        config.name ?? null,
+        toJson(config.metadata),
+        toJson(config.summary),
+        now,
+      ]
+    );
+    return row.id;
+  }
+
+  async getThread(threadId: string): Promise<ThreadData | null> {
+    const [row] = await this.query(`SELECT * FROM ${this.tables.threads} WHERE id = $1`, [
+      threadId,
+    ]);
+    if (!row) return null;
+
+    const [thread] = await this.withMessages([row]);
+    return thread;
+  }
+
+  /**
+   * Fields explicitly set to undefined are cleared, as in the other adapters
+   */
+  async updateThread(threadId: string, updates: Partial<ThreadConfig>): Promise<void> {
+    const values: unknown[] = [threadId, new Date()];
+    const assignments = ['updated_at = $2'];
+
+    for (const [key, value] of Object.entries(updates)) {
+      const field = THREAD_COLUMNS[key];
+      if (!field) continue;
+      values.push(field.json ? toJson(value) : value ?? null);
+      assignments.push(`${field.column} = $${values.length}`);
+    }
+
+    await this.query(
+      `UPDATE ${this.tables.threads} SET ${assignments.join(', ')} WHERE id = $1`,
+      values
+    );
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.query(`DELETE FROM ${this.tables.threads} WHERE id = $1`, [threadId]);
+  }
+
+  async listThreads(filters: {
+    userId?: string;
+    agentId?: string;
+    organizationId?: string;
+  }): Promise<ThreadData[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    for (const [column, value] of Object.entries({
+      user_id: filters.userId,
+      agent_id: filters.agentId,
+      organization_id: filters.organizationId,
+    })) {
+      if (!value) continue;
+      values.push(value);
+      conditions.push(`${column} = $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.query(
+      `SELECT * FROM ${this.tables.threads} ${where} ORDER BY updated_at DESC`,
+      values
+    );
+    return this.withMessages(rows);
+  }
+
+  async listThreadsPage(
+    filters: ThreadFilters,
+    options: ListOptions = {}
+  ): Promise<Page<ThreadData>> {
+    const page = await this.findPage(
+      this.tables.threads,
+      {
+        user_id: filters.userId,
+        agent_id: filters.agentId,
+        organization_id: filters.organizationId,
+        end_user_id: filters.endUserId,
+      },
+      options
+    );
+    return { items: await this.withMessages(page.items), nextCursor: page.nextCursor };
+  }
+
+  // ============================================================================
+  // Message Operations
+  // ============================================================================
+
+  async addMessage(
+    threadId: string,
+    role: MessageRole,
+    content: string,
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
+  ): Promise<string> {
+    const [row] = await this.query(
+      `WITH thread AS (
+        UPDATE ${this.tables.threads} SET updated_at = $2::timestamptz, is_pending_thread = false
+        WHERE id = $1 RETURNING id
+      )
+      INSERT INTO ${this.tables.messages} (thread_id, role, content, parts, attachments, metadata, created_at)
+      SELECT id, $3::text, $4::text, $5::jsonb, $6::jsonb, $7::jsonb, $2::timestamptz FROM thread
+      RETURNING id`,
+      [
+        threadId,
+        new Date(),
+        role,
+        content,
+        toJson(options?.parts),
+        toJson(attachments),
+        toJson(options?.metadata),
+      ]
+    );
+
+    if (!row) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    return row.id;
+  }
+
+  async getMessages(threadId: string, limit?: number): Promise<MessageData[]> {
+    const rows = limit
+      ? await this.query(
+          `SELECT * FROM (
+            SELECT * FROM ${this.tables.messages} WHERE thread_id = $1 ORDER BY seq DESC LIMIT $2
+          ) recent ORDER BY seq`,
+          [threadId, limit]
+        )
+      : await this.query(
+          `SELECT * FROM ${this.tables.messages} WHERE thread_id = $1 ORDER BY seq`,
+          [threadId]
+        );
+    return rows.map((row) => this.rowToMessage(row));
+  }
+
+  async listMessagesPage(
+    threadId: string,
+    options: MessageListOptions = {}
+  ): Promise<Page<MessageData>> {
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const values: unknown[] = [threadId];
+    const conditions = ['thread_id = $1'];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (options.after) conditions.push(`created_at > ${param(options.after)}`);
+    if (options.before) conditions.push(`created_at < ${param(options.before)}`);
+    if (options.role) conditions.push(`role = ${param(options.role)}`);
+    // Page in insertion order, as getMessages replays them: messages written in the same
+    // millisecond (a tool call and its result) would otherwise sort by their random IDs
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      conditions.push(`seq ${order === 'asc' ? '>' : '<'} ${param(cursor.value)}`);
+    }
+
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const rows = await this.query(
+      `SELECT * FROM ${this.tables.messages} WHERE ${conditions.join(' AND ')}
+      ORDER BY seq ${direction} LIMIT ${param(limit + 1)}`,
+      values
+    );
+
+    const page = toPage(rows, limit, (row) => ({ value: Number(row.seq), id: row.id }));
+    return { ...page, items: page.items.map((row) => this.rowToMessage(row)) };
+  }
+
+  async getConversationContext(
+    threadId: string,
+    maxMessages: number = 20
+  ): Promise<Array<{ role: string; content: string }>> {
+    const messages = await this.getMessages(threadId, maxMessages);
+    return messages.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    }));
+  }
+
+  async updateMessage(threadId: string, messageId: string, updates: MessageUpdate): Promise<void> {
+    const values: unknown[] = [threadId, messageId];
+    const assignments: string[] = [];
+
+    for (const [key, value] of Object.entries(updates)) {
+      const field = MESSAGE_COLUMNS[key];
+      if (!field || value === undefined) continue;
+      values.push(field.json ? toJson(value) : value);
+      assignments.push(`${field.column} = $${values.length}`);
+    }
+    if (assignments.length === 0) return;
+
+    values.push(new Date());
+    await this.query(
+      `WITH updated AS (
+        UPDATE ${this.tables.messages} SET ${assignments.join(', ')}
+        WHERE thread_id = $1 AND id = $2 RETURNING thread_id
+      )
+      UPDATE ${this.tables.threads} SET updated_at = $${values.length}
+      WHERE id IN (SELECT thread_id FROM updated)`,
+      values
+    );
+  }
+
+  async deleteMessages(threadId: string, messageIds: string[]): Promise<void> {
+    await this.query(
+      `WITH deleted AS (
+        DELETE FROM ${this.tables.messages} WHERE thread_id = $1 AND id = ANY($2)
+      )
+      UPDATE ${this.tables.threads} SET updated_at = $3 WHERE id = $1`,
+      [threadId, messageIds, new Date()]
+    );
+  }
+
+  async forkThread(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string> {
+    const [source] = await this.query(`SELECT id FROM ${this.tables.threads} WHERE id = $1`, [
+      threadId,
+    ]);
+    if (!source) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const id = await this.createThread(config);
+    await this.query(
+      `INSERT INTO ${this.tables.messages} (thread_id, role, content, parts, attachments, metadata, created_at)
+      SELECT $1, role, content, parts, attachments, metadata, created_at
+      FROM ${this.tables.messages}
+      WHERE thread_id = $2
+        AND ($3::text IS NULL OR seq <= (
+          SELECT seq FROM ${this.tables.messages} WHERE thread_id = $2 AND id = $3
+        ))
+      ORDER BY seq`,
+      [id, threadId, upToMessageId ?? null]
+    );
+
+    return id;
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  async addUserMemory(entry: UserMemoryInput): Promise<string> {
+    const now = new Date();
+    const [row] = await this.query(
+      `INSERT INTO ${this.tables.userMemories} (
+        end_user_id, organization_id, content, category, agent_id, thread_id, metadata,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+      RETURNING id`,
+      [
+        entry.endUserId,
+        entry.organizationId ?? null,
+        entry.content,
+        entry.category ?? null,
+        entry.agentId ?? null,
+        entry.threadId ?? null,
+        toJson(entry.metadata),
+        now,
+      ]
+    );
+    return row.id;
+  }
+
+  async getUserMemory(memoryId: string): Promise<UserMemoryEntry | null> {
+    const [row] = await this.query(`SELECT * FROM ${this.tables.userMemories} WHERE id = $1`, [
+      memoryId,
+    ]);
+    return row ? this.rowToUserMemory(row) : null;
+  }
+
+  async listUserMemories(
+    endUserId: string,
+    filters: { organizationId?: string; category?: string } = {}
+  ): Promise<UserMemoryEntry[]> {
+    const values: unknown[] = [endUserId];
+    const conditions = ['end_user_id = $1'];
+    if (filters.organizationId) {
+      values.push(filters.organizationId);
+      conditions.push(`organization_id = $${values.length}`);
+    }
+    if (filters.category) {
+      values.push(filters.category);
+      conditions.push(`category = $${values.length}`);
+    }
+
+    const rows = await this.query(
+      `SELECT * FROM ${this.tables.userMemories} WHERE ${conditions.join(' AND ')}
+      ORDER BY updated_at DESC`,
+      values
+    );
+    return rows.map((row) => this.rowToUserMemory(row));
+  }
+
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void> {
+    const values: unknown[] = [memoryId, new Date()];
+    const assignments = ['updated_at = $2'];
+    if (updates.content !== undefined) {
+      values.push(updates.content);
+      assignments.push(`content = $${values.length}`);
+    }
+    if (updates.category !== undefined) {
+      values.push(updates.category);
+      assignments.push(`category = $${values.length}`);
+    }
+    if (updates.metadata !== undefined) {
+      values.push(toJson(updates.metadata));
+      assignments.push(`metadata = $${values.length}`);
+    }
+
+    await this.query(
+      `UPDATE ${this.tables.userMemories} SET ${assignments.join(', ')} WHERE id = $1`,
+      values
+    );
+  }
+
+  async deleteUserMemory(memoryId: string): Promise<void> {
+    await this.query(`DELETE FROM ${this.tables.userMemories} WHERE id = $1`, [memoryId]);
+  }
+
+  async deleteUserMemories(endUserId: string): Promise<number> {
+    const rows = await this.query(
+      `DELETE FROM ${this.tables.userMemories} WHERE end_user_id = $1 RETURNING id`,
+      [endUserId]
+    );
+    return rows.length;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Run a keyset-paginated query ordered by (sortBy, id)
+   */
+  private async findPage(
+    table: string,
+    equals: Record<string, string | undefined>,
+    options: ListOptions
+  ): Promise<Page<any>> {
+    const sortBy = options.sortBy === 'createdAt' ? 'created_at' : 'updated_at';
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const values: unknown[] = [];
+    const conditions: string[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    for (const [column, value] of Object.entries(equals)) {
+      if (value) conditions.push(`${column} = ${param(value)}`);
+    }
+    if (options.createdAfter) conditions.push(`created_at > ${param(options.createdAfter)}`);
+    if (options.createdBefore) conditions.push(`created_at < ${param(options.createdBefore)}`);
+    if (options.updatedAfter) conditions.push(`updated_at > ${param(options.updatedAfter)}`);
+    if (options.updatedBefore) conditions.push(`updated_at < ${param(options.updatedBefore)}`);
+    if (options.metadata && Object.keys(options.metadata).length > 0) {
+      conditions.push(`metadata @> ${param(JSON.stringify(options.metadata))}::jsonb`);
+    }
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      conditions.push(
+        `(${sortBy}, id) ${order === 'asc' ? '>' : '<'} (${param(new Date(cursor.value))}::timestamptz, ${param(cursor.id)}::text)`
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const rows = await this.query(
+      `SELECT * FROM ${table} ${where}
+      ORDER BY ${sortBy} ${direction}, id ${direction} LIMIT ${param(limit + 1)}`,
+      values
+    );
+
+    return toPage(rows, limit, (row) => ({ value: new Date(row[sortBy]).getTime(), id: row.id }));
+  }
+
+  /**
+   * Load the messages of several threads in one query
+   */
+  private async withMessages(rows: any[]): Promise<ThreadData[]> {
+    if (rows.length === 0) return [];
+
+    const messageRows = await this.query(
+      `SELECT * FROM ${this.tables.messages} WHERE thread_id = ANY($1) ORDER BY seq`,
+      [rows.map((row) => row.id)]
+    );
+
+    const messages = new Map<string, MessageData[]>();
+    for (const row of messageRows) {
+      const list = messages.get(row.thread_id) || [];
+      list.push(this.rowToMessage(row));
+      messages.set(row.thread_id, list);
+    }
+
+    return rows.map((row) => this.rowToThread(row, messages.get(row.id) || []));
+  }
+
+  private rowToAgent(row: any): AgentData {
+    return {
+      id: row.id,
+      organizationId: row.organization_id ?? undefined,
+      userId: row.user_id,
+      phone: row.phone ?? undefined,
+      name: row.name,
+      description: row.description ?? undefined,
+      instructions: row.instructions,
+      provider: row.provider,
+      model: row.model,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      files: (row.files || []).map((file: AgentFile) => ({ ...file, addedAt: new Date(file.addedAt) })),
+      metadata: row.metadata ?? undefined,
+      pluginConfigs: row.plugin_configs ?? undefined,
+      maxToolSteps: row.max_tool_steps ?? undefined,
+      fallbacks: row.fallbacks ?? undefined,
+      retryPolicy: row.retry_policy ?? undefined,
+      memory: row.memory ?? undefined,
+      handoffs: row.handoffs ?? undefined,
+    };
+  }
+
+  private rowToThread(row: any, messages: MessageData[]): ThreadData {
+    return {
+      id: row.id,
+      organizationId: row.organization_id ?? undefined,
+      agentId: row.agent_id,
+      userId: row.user_id,
+      endUserId: row.end_user_id ?? undefined,
+      name: row.name ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      messages,
+      isPendingThread: row.is_pending_thread,
+      metadata: row.metadata ?? undefined,
+      summary: row.summary ? this.parseSummary(row.summary) : undefined,
+    };
+  }
+
+  private rowToMessage(row: any): MessageData {
+    return {
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(row.created_at),
+      ...(row.parts && { parts: row.parts }),
+      ...(row.attachments && { attachments: row.attachments }),
+      ...(row.metadata && { metadata: row.metadata }),
+    };
+  }
+
+  private rowToUserMemory(row: any): UserMemoryEntry {
+    return {
+      id: row.id,
+      endUserId: row.end_user_id,
+      organizationId: row.organization_id ?? undefined,
+      content: row.content,
+      category: row.category ?? undefined,
+      agentId: row.agent_id ?? undefined,
+      threadId: row.thread_id ?? undefined,
+      metadata: row.metadata ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private parseSummary(summary: ThreadSummary): ThreadSummary {
+    return { ...summary, updatedAt: new Date(summary.updatedAt) };
+  }
+
+  // ============================================================================
+  // Utility Methods
+  // ============================================================================
+
+  /**
+   * Delete all rows from the adapter's tables (use with caution!)
+   */
+  async clear(): Promise<void> {
+    const t = this.tables;
+    await this.query(`TRUNCATE ${t.messages}, ${t.threads}, ${t.agents}, ${t.userMemories}`);
+  }
+
+  /**
+   * Get storage statistics
+   */
+  async getStats(): Promise<{ agents: number; threads: number; messages: number }> {
+    const t = this.tables;
+    const [row] = await this.query(
+      `SELECT
+        (SELECT count(*) FROM ${t.agents}) AS agents,
+        (SELECT count(*) FROM ${t.threads}) AS threads,
+        (SELECT count(*) FROM ${t.messages}) AS messages`
+    );
+    return { agents: Number(row.agents), threads: Number(row.threads), messages: Number(row.messages) };
+  }
+}
+
+/**
+ * Serialize a value for a JSONB parameter. `pg` would send arrays as Postgres arrays.
+ */
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
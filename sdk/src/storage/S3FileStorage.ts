@@ -0,0 +1,284 @@
+import type { FileInfo, FileStorageAdapter, PutFileOptions, StoredFile } from '../types';
+
+/**
+ * S3-compatible storage configuration
+ */
+export interface S3FileStorageConfig {
+  /**
+   * Service endpoint
+   * @example "https://s3.us-east-1.amazonaws.com", "https://<account>.r2.cloudflarestorage.com", "http://localhost:9000"
+   */
+  endpoint: string;
+
+  bucket: string;
+
+  /**
+   * Signing region ("auto" for Cloudflare R2)
+   * @default "us-east-1"
+   */
+  region?: string;
+
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+
+  /**
+   * Optional key prefix, e.g. "snap-agent/files/"
+   */
+  prefix?: string;
+}
+
+// Metadata header carrying a file's info
+const META_HEADER = 'x-amz-meta-snap-agent';
+
+/**
+ * S3-Compatible File Storage
+ *
+ * Works with AWS S3, Cloudflare R2, MinIO and other S3-compatible services.
+ * Requests are signed with AWS Signature V4 using Web Crypto and sent with fetch,
+ * so it runs on edge runtimes without the AWS SDK. Uses path-style URLs.
+ *
+ * @example
+ * ```typescript
+ * const files = new S3FileStorage({
+ *   endpoint: 'https://s3.us-east-1.amazonaws.com',
+ *   bucket: 'my-agent-files',
+ *   accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+ *   secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+ * });
+ * ```
+ */
+export class S3FileStorage implements FileStorageAdapter {
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private sessionToken?: string;
+  private prefix: string;
+
+  constructor(config: S3FileStorageConfig) {
+    this.endpoint = config.endpoint.replace(/\/$/, ''); // Remove trailing slash
+    this.bucket = config.bucket;
+    this.region = config.region || 'us-east-1';
+    this.accessKeyId = config.accessKeyId;
+    this.secretAccessKey = config.secretAccessKey;
+    this.sessionToken = config.sessionToken;
+    this.prefix = config.prefix || '';
+  }
+
+  // ============================================================================
+  // File Operations
+  // ============================================================================
+
+  async put(
+    fileId: string,
+    data: Uint8Array | string,
+    options: PutFileOptions = {}
+  ): Promise<FileInfo> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const info: FileInfo = {
+      fileId,
+      ...options,
+      size: bytes.byteLength,
+      createdAt: new Date(),
+    };
+
+    const response = await this.request('PUT', this.prefix + fileId, {
+      body: bytes,
+      headers: {
+        'content-type': options.contentType || 'application/octet-stream',
+        // Header values must be ASCII
+        [META_HEADER]: encodeURIComponent(
+          JSON.stringify({ filename: options.filename, metadata: options.metadata })
+        ),
+      },
+    });
+    await this.check(response);
+
+    return info;
+  }
+
+  async get(fileId: string): Promise<StoredFile | null> {
+    const response = await this.request('GET', this.prefix + fileId);
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    await this.check(response);
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const meta = response.headers.get(META_HEADER);
+    const { filename, metadata } = meta ? JSON.parse(decodeURIComponent(meta)) : ({} as any);
+    const lastModified = response.headers.get('last-modified');
+
+    return {
+      fileId,
+      ...(filename && { filename }),
+      contentType: response.headers.get('content-type') || undefined,
+      size: data.byteLength,
+      ...(metadata && { metadata }),
+      createdAt: lastModified ? new Date(lastModified) : new Date(),
+      data,
+    };
+  }
+
+  async delete(fileId: string): Promise<void> {
+    const response = await this.request('DELETE', this.prefix + fileId);
+    if (response.status !== 404) {
+      await this.check(response);
+    }
+  }
+
+  /**
+   * List files (ListObjectsV2)
+   * Only the ID, size and last-modified date are returned; use get() for the rest
+   */
+  async list(options: { prefix?: string } = {}): Promise<FileInfo[]> {
+    const files: FileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.request('GET', '', {
+        query: {
+          'list-type': '2',
+          prefix: this.prefix + (options.prefix || ''),
+          ...(continuationToken && { 'continuation-token': continuationToken }),
+        },
+      });
+      await this.check(response);
+      const xml = await response.text();
+
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlValue(contents, 'Key') || '';
+        files.push({
+          fileId: key.slice(this.prefix.length),
+          size: Number(xmlValue(contents, 'Size') || 0),
+          createdAt: new Date(xmlValue(contents, 'LastModified') || Date.now()),
+        });
+      }
+
+      continuationToken =
+        xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  // ============================================================================
+  // Signed Requests
+  // ============================================================================
+
+  private async request(
+    method: string,
+    key: string,
+    options: { query?: Record<string, string>; body?: Uint8Array; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const url = new URL(this.endpoint);
+    const path = `${url.pathname.replace(/\/$/, '')}/${this.bucket}${key ? `/${encodeKey(key)}` : ''}`;
+    const query = Object.entries(options.query || {})
+      .map(([name, value]) => `${encodeRFC3986(name)}=${encodeRFC3986(value)}`)
+      .sort()
+      .join('&');
+
+    const headers = await this.sign(method, url.host, path, query, options.headers || {}, options.body);
+
+    return fetch(`${url.origin}${path}${query ? `?${query}` : ''}`, {
+      method,
+      headers,
+      body: options.body,
+    });
+  }
+
+  /**
+   * Sign a request with AWS Signature Version 4
+   */
+  private async sign(
+    method: string,
+    host: string,
+    path: string,
+    query: string,
+    extraHeaders: Record<string, string>,
+    body?: Uint8Array
+  ): Promise<Record<string, string>> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = toHex(await sha256(body || new Uint8Array()));
+
+    const headers: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([name, value]) => [name.toLowerCase(), value])),
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(this.sessionToken && { 'x-amz-security-token': this.sessionToken }),
+    };
+
+    const names = Object.keys(headers).sort();
+    const canonicalHeaders = names.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [method, path, query, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      toHex(await sha256(new TextEncoder().encode(canonicalRequest))),
+    ].join('\n');
+
+    let signingKey = await hmac(new TextEncoder().encode(`AWS4${this.secretAccessKey}`), date);
+    for (const part of [this.region, 's3', 'aws4_request']) {
+      signingKey = await hmac(signingKey, part);
+    }
+    const signature = toHex(await hmac(signingKey, stringToSign));
+
+    // fetch sets the host header itself
+    const { host: _host, ...requestHeaders } = headers;
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  private async check(response: Response): Promise<void> {
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`S3 error: ${response.status} - ${text}`);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function encodeRFC3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRFC3986).join('/');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function hmac(key: Uint8Array, message: string): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,960 @@
+import {
+  StorageAdapter,
+  AgentConfig,
+  AgentData,
+  AgentFile,
+  ThreadConfig,
+  ThreadData,
+  ThreadSummary,
+  MessageData,
+  MessageRole,
+  MessageAttachment,
+  AddMessageOptions,
+  MessageUpdate,
+  UserMemoryStorage,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
+  InvalidConfigError,
+} from '../types';
+import { decodeCursor, pageSize, toPage } from './pagination';
+
+/**
+ * Prepared statement of a synchronous SQLite driver
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal interface of a synchronous SQLite database
+ * Satisfied by `better-sqlite3`, `node:sqlite` (DatabaseSync) and `bun:sqlite`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStorageConfig {
+  /**
+   * Open database, e.g. `new Database('agents.db')` from `better-sqlite3`
+   */
+  database: SqliteDatabase;
+
+  /**
+   * Prefix for table and index names
+   * @default "snap_"
+   */
+  tablePrefix?: string;
+}
+
+interface Tables {
+  prefix: string;
+  agents: string;
+  threads: string;
+  messages: string;
+  userMemories: string;
+  migrations: string;
+}
+
+/**
+ * Schema migrations; migration N is recorded as version N in the migrations table.
+ * Never edit a released migration; add a new one instead.
+ */
+const MIGRATIONS: Array<(t: Tables) => string> = [
+  (t) => `
+    CREATE TABLE IF NOT EXISTS ${t.agents} (
+      id TEXT PRIMARY KEY,
+      organization_id TEXT,
+      user_id TEXT NOT NULL,
+      phone TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      instructions TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      files TEXT NOT NULL DEFAULT '[]',
+      metadata TEXT,
+      plugin_configs TEXT,
+      max_tool_steps INTEGER,
+      fallbacks TEXT,
+      retry_policy TEXT,
+      memory TEXT,
+      handoffs TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${t.prefix}agents_user_updated_idx ON ${t.agents} (user_id, updated_at, id);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}agents_user_created_idx ON ${t.agents} (user_id, created_at, id);
+
+    CREATE TABLE IF NOT EXISTS ${t.threads} (
+      id TEXT PRIMARY KEY,
+      organization_id TEXT,
+      agent_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      end_user_id TEXT,
+      name TEXT,
+      metadata TEXT,
+      summary TEXT,
+      is_pending_thread INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${t.prefix}threads_user_updated_idx ON ${t.threads} (user_id, updated_at, id);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}threads_user_created_idx ON ${t.threads} (user_id, created_at, id);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}threads_agent_updated_idx ON ${t.threads} (agent_id, updated_at, id);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}threads_org_updated_idx ON ${t.threads} (organization_id, updated_at, id);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}threads_end_user_idx ON ${t.threads} (end_user_id);
+
+    CREATE TABLE IF NOT EXISTS ${t.messages} (
+      seq INTEGER PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      thread_id TEXT NOT NULL REFERENCES ${t.threads} (id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      parts TEXT,
+      attachments TEXT,
+      metadata TEXT,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${t.prefix}messages_thread_seq_idx ON ${t.messages} (thread_id, seq);
+    CREATE INDEX IF NOT EXISTS ${t.prefix}messages_thread_created_idx ON ${t.messages} (thread_id, created_at, id);
+
+    CREATE TABLE IF NOT EXISTS ${t.userMemories} (
+      id TEXT PRIMARY KEY,
+      end_user_id TEXT NOT NULL,
+      organization_id TEXT,
+      content TEXT NOT NULL,
+      category TEXT,
+      agent_id TEXT,
+      thread_id TEXT,
+      metadata TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${t.prefix}user_memories_end_user_idx ON ${t.userMemories} (end_user_id, updated_at);
+  `,
+];
+
+/**
+ * Agent fields and the columns they are stored in; JSON fields are stored as TEXT
+ */
+const AGENT_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  organizationId: { column: 'organization_id' },
+  userId: { column: 'user_id' },
+  phone: { column: 'phone' },
+  name: { column: 'name' },
+  description: { column: 'description' },
+  instructions: { column: 'instructions' },
+  provider: { column: 'provider' },
+  model: { column: 'model' },
+  files: { column: 'files', json: true },
+  metadata: { column: 'metadata', json: true },
+  pluginConfigs: { column: 'plugin_configs', json: true },
+  maxToolSteps: { column: 'max_tool_steps' },
+  fallbacks: { column: 'fallbacks', json: true },
+  retryPolicy: { column: 'retry_policy', json: true },
+  memory: { column: 'memory', json: true },
+  handoffs: { column: 'handoffs', json: true },
+};
+
+const THREAD_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  organizationId: { column: 'organization_id' },
+  agentId: { column: 'agent_id' },
+  userId: { column: 'user_id' },
+  endUserId: { column: 'end_user_id' },
+  name: { column: 'name' },
+  metadata: { column: 'metadata', json: true },
+  summary: { column: 'summary', json: true },
+};
+
+const MESSAGE_COLUMNS: Record<string, { column: string; json?: boolean }> = {
+  content: { column: 'content' },
+  parts: { column: 'parts', json: true },
+  attachments: { column: 'attachments', json: true },
+  metadata: { column: 'metadata', json: true },
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * SQLite Storage Adapter
+ *
+ * Embedded, file-backed storage for local development, desktop (Electron) apps and
+ * single-node installs. Messages have their own table, and migrations are applied
+ * when the adapter is created.
+ *
+ * The adapter takes an open database from any synchronous driver, and enables
+ * foreign keys on it so deletes cascade to messages.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import { SqliteStorage } from '@snap-agent/core/storage';
+ *
+ * const storage = new SqliteStorage({ database: new Database('agents.db') });
+ * ```
+ */
+export class SqliteStorage implements StorageAdapter, UserMemoryStorage {
+  private db: SqliteDatabase;
+  private tables: Tables;
+  private statements = new Map<string, SqliteStatement>();
+
+  constructor(config: SqliteStorageConfig) {
+    const prefix = config.tablePrefix ?? 'snap_';
+    if (prefix && !IDENTIFIER.test(prefix)) {
+      throw new InvalidConfigError(
+        'SqliteStorage tablePrefix may only contain letters, digits and underscores'
+      );
+    }
+
+    this.db = config.database;
+    this.tables = {
+      prefix,
+      agents: `"${prefix}agents"`,
+      threads: `"${prefix}threads"`,
+      messages: `"${prefix}messages"`,
+      userMemories: `"${prefix}user_memories"`,
+      migrations: `"${prefix}migrations"`,
+    };
+
+    this.db.exec('PRAGMA foreign_keys = ON');
+    this.migrate();
+  }
+
+  // ============================================================================
+  // Migrations
+  // ============================================================================
+
+  /**
+   * Apply pending migrations, each in its own transaction
+   * Returns the number of migrations applied
+   */
+  migrate(): number {
+    const t = this.tables;
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${t.migrations} (
+        version INTEGER PRIMARY KEY,
+        applied_at INTEGER NOT NULL
+      )`
+    );
+    const row = this.db.prepare(`SELECT max(version) AS version FROM ${t.migrations}`).get() as {
+      version: number | null;
+    };
+
+    let applied = 0;
+    for (let version = (row?.version ?? 0) + 1; version <= MIGRATIONS.length; version++) {
+      this.transaction(() => {
+        this.db.exec(MIGRATIONS[version - 1](t));
+        this.db.exec(`INSERT INTO ${t.migrations} (version, applied_at) VALUES (${version}, ${Date.now()})`);
+      });
+      applied++;
+    }
+    return applied;
+  }
+
+  // ============================================================================
+  // Agent Operations
+  // ============================================================================
+
+  async createAgent(config: AgentConfig): Promise<string> {
+    const id = this.generateId();
+    const now = Date.now();
+
+    this.run(
+      `INSERT INTO ${this.tables.agents} (
+        id, organization_id, user_id, phone, name, description, instructions, provider, model,
+        files, metadata, plugin_configs, max_tool_steps, fallbacks, retry_policy, memory, handoffs,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, '[]', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      config.organizationId,
+      config.userId,
+      config.phone,
+      config.name,
+      config.description,
+      config.instructions,
+      config.provider,
+      config.model,
+      toJson(config.metadata || {}),
+      toJson(config.pluginConfigs || []),
+      config.maxToolSteps,
+      toJson(config.fallbacks),
+      toJson(config.retryPolicy),
+      toJson(config.memory),
+      toJson(config.handoffs),
+      now,
+      now
+    );
+
+    return id;
+  }
+
+  async getAgent(agentId: string): Promise<AgentData | null> {
+    const row = this.get(`SELECT * FROM ${this.tables.agents} WHERE id = ?`, agentId);
+    return row ? this.rowToAgent(row) : null;
+  }
+
+  async updateAgent(
+    agentId: string,
+    updates: Partial<AgentConfig & Pick<AgentData, 'files'>>
+  ): Promise<void> {
+    const { assignments, values } = toAssignments(updates, AGENT_COLUMNS, true);
+    this.run(
+      `UPDATE ${this.tables.agents} SET ${['updated_at = ?', ...assignments].join(', ')} WHERE id = ?`,
+      Date.now(),
+      ...values,
+      agentId
+    );
+  }
+
+  /**
+   * Deletes the agent and its threads (messages go with their threads)
+   */
+  async deleteAgent(agentId: string): Promise<void> {
+    this.transaction(() => {
+      this.run(`DELETE FROM ${this.tables.threads} WHERE agent_id = ?`, agentId);
+      this.run(`DELETE FROM ${this.tables.agents} WHERE id = ?`, agentId);
+    });
+  }
+
+  async listAgents(userId: string, organizationId?: string): Promise<AgentData[]> {
+    const rows = organizationId
+      ? this.all(
+          `SELECT * FROM ${this.tables.agents} WHERE user_id = ? AND organization_id = ?
+          ORDER BY updated_at DESC`,
+          userId,
+          organizationId
+        )
+      : this.all(
+          `SELECT * FROM ${this.tables.agents} WHERE user_id = ? ORDER BY updated_at DESC`,
+          userId
+        );
+    return rows.map((row) => this.rowToAgent(row));
+  }
+
+  async listAgentsPage(filters: AgentFilters, options: ListOptions = {}): Promise<Page<AgentData>> {
+    const page = this.findPage(
+      this.tables.agents,
+      { user_id: filters.userId, organization_id: filters.organizationId },
+      options
+    );
+    return { items: page.items.map((row) => this.rowToAgent(row)), nextCursor: page.nextCursor };
+  }
+
+  // ============================================================================
+  // Thread Operations
+  // ============================================================================
+
+  async createThread(config: ThreadConfig): Promise<string> {
+    const id = this.generateId();
+    const now = Date.now();
+
+    this.run(
+      `INSERT INTO ${this.tables.threads} (
+        id, organization_id, agent_id, user_id, end_user_id, name, metadata, summary,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      config.organizationId,
+      config.agentId,
+      config.userId,
+      config.endUserId,
+      config.name,
+      toJson(config.metadata),
+      toJson(config.summary),
+      now,
+      now
+    );
+
+    return id;
+  }
+
+  async getThread(threadId: string): Promise<ThreadData | null> {
+    const row = this.get(`SELECT * FROM ${this.tables.threads} WHERE id = ?`, threadId);
+    return row ? this.withMessages([row])[0] : null;
+  }
+
+  /**
+   * Fields explicitly set to undefined are cleared, as in the other adapters
+   */
+  async updateThread(threadId: string, updates: Partial<ThreadConfig>): Promise<void> {
+    const { assignments, values } = toAssignments(updates, THREAD_COLUMNS, false);
+    this.run(
+      `UPDATE ${this.tables.threads} SET ${['updated_at = ?', ...assignments].join(', ')} WHERE id = ?`,
+      Date.now(),
+      ...values,
+      threadId
+    );
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.run(`DELETE FROM ${this.tables.threads} WHERE id = ?`, threadId);
+  }
+
+  async listThreads(filters: {
+    userId?: string;
+    agentId?: string;
+    organizationId?: string;
+  }): Promise<ThreadData[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    for (const [column, value] of Object.entries({
+      user_id: filters.userId,
+      agent_id: filters.agentId,
+      organization_id: filters.organizationId,
+    })) {
+      if (!value) continue;
+      conditions.push(`${column} = ?`);
+      values.push(value);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.all(
+      `SELECT * FROM ${this.tables.threads} ${where} ORDER BY updated_at DESC`,
+      ...values
+    );
+    return this.withMessages(rows);
+  }
+
+  async listThreadsPage(
+    filters: ThreadFilters,
+    options: ListOptions = {}
+  ): Promise<Page<ThreadData>> {
+    const page = this.findPage(
+      this.tables.threads,
+      {
+        user_id: filters.userId,
+        agent_id: filters.agentId,
+        organization_id: filters.organizationId,
+        end_user_id: filters.endUserId,
+      },
+      options
+    );
+    return { items: this.withMessages(page.items), nextCursor: page.nextCursor };
+  }
+
+  // ============================================================================
+  // Message Operations
+  // ============================================================================
+
+  async addMessage(
+    threadId: string,
+    role: MessageRole,
+    content: string,
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
+  ): Promise<string> {
+    const id = this.generateId();
+    const now = Date.now();
+
+    this.transaction(() => {
+      const thread = this.get(`SELECT id FROM ${this.tables.threads} WHERE id = ?`, threadId);
+      if (!thread) {
+        throw new Error(`Thread not found: ${threadId}`);
+      }
+
+      this.run(
+        `INSERT INTO ${this.tables.messages} (id, thread_id, role, content, parts, attachments, metadata, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        id,
+        threadId,
+        role,
+        content,
+        toJson(options?.parts),
+        toJson(attachments),
+        toJson(options?.metadata),
+        now
+      );
+      this.run(
+        `UPDATE ${this.tables.threads} SET updated_at = ?, is_pending_thread = 0 WHERE id = ?`,
+        now,
+        threadId
+      );
+    });
+
+    return id;
+  }
+
+  async getMessages(threadId: string, limit?: number): Promise<MessageData[]> {
+    const rows = limit
+      ? this.all(
+          `SELECT * FROM (
+            SELECT * FROM ${this.tables.messages} WHERE thread_id = ? ORDER BY seq DESC LIMIT ?
+          ) ORDER BY seq`,
+          threadId,
+          limit
+        )
+      : this.all(`SELECT * FROM ${this.tables.messages} WHERE thread_id = ? ORDER BY seq`, threadId);
+    return rows.map((row) => this.rowToMessage(row));
+  }
+
+  async listMessagesPage(
+    threadId: string,
+    options: MessageListOptions = {}
+  ): Promise<Page<MessageData>> {
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const conditions = ['thread_id = ?'];
+    const values: unknown[] = [threadId];
+
+    if (options.after) {
+      conditions.push('created_at > ?');
+      values.push(options.after.getTime());
+    }
+    if (options.before) {
+      conditions.push('created_at < ?');
+      values.push(options.before.getTime());
+    }
+    if (options.role) {
+      conditions.push('role = ?');
+      values.push(options.role);
+    }
+    // Page in insertion order, as getMessages replays them: the random part of IDs would
+    // otherwise order messages written in the same millisecond (a tool call and its result)
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      conditions.push(`seq ${order === 'asc' ? '>' : '<'} ?`);
+      values.push(cursor.value);
+    }
+
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.all(
+      `SELECT * FROM ${this.tables.messages} WHERE ${conditions.join(' AND ')}
+      ORDER BY seq ${direction} LIMIT ?`,
+      ...values,
+      limit + 1
+    );
+
+    const page = toPage(rows, limit, (row) => ({ value: Number(row.seq), id: row.id }));
+    return { ...page, items: page.items.map((row) => this.rowToMessage(row)) };
+  }
+
+  async getConversationContext(
+    threadId: string,
+    maxMessages: number = 20
+  ): Promise<Array<{ role: string; content: string }>> {
+    const messages = await this.getMessages(threadId, maxMessages);
+    return messages.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    }));
+  }
+
+  async updateMessage(threadId: string, messageId: string, updates: MessageUpdate): Promise<void> {
+    const { assignments, values } = toAssignments(updates, MESSAGE_COLUMNS, true);
+    if (assignments.length === 0) return;
+
+    this.transaction(() => {
+      const changes = this.run(
+        `UPDATE ${this.tables.messages} SET ${assignments.join(', ')} WHERE thread_id = ? AND id = ?`,
+        ...values,
+        threadId,
+        messageId
+      );
+      if (changes > 0) {
+        this.run(`UPDATE ${this.tables.threads} SET updated_at = ? WHERE id = ?`, Date.now(), threadId);
+      }
+    });
+  }
+
+  async deleteMessages(threadId: string, messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    this.transaction(() => {
+      this.run(
+        `DELETE FROM ${this.tables.messages}
+        WHERE thread_id = ? AND id IN (${messageIds.map(() => '?').join(', ')})`,
+        threadId,
+        ...messageIds
+      );
+      this.run(`UPDATE ${this.tables.threads} SET updated_at = ? WHERE id = ?`, Date.now(), threadId);
+    });
+  }
+
+  async forkThread(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string> {
+    if (!this.get(`SELECT id FROM ${this.tables.threads} WHERE id = ?`, threadId)) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const messages = this.all(
+      `SELECT * FROM ${this.tables.messages}
+      WHERE thread_id = ?
+        AND (? IS NULL OR seq <= (SELECT seq FROM ${this.tables.messages} WHERE thread_id = ? AND id = ?))
+      ORDER BY seq`,
+      threadId,
+      upToMessageId,
+      threadId,
+      upToMessageId
+    );
+
+    const id = await this.createThread(config);
+    this.transaction(() => {
+      for (const message of messages) {
+        this.run(
+          `INSERT INTO ${this.tables.messages} (id, thread_id, role, content, parts, attachments, metadata, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          this.generateId(),
+          id,
+          message.role,
+          message.content,
+          message.parts,
+          message.attachments,
+          message.metadata,
+          message.created_at
+        );
+      }
+    });
+
+    return id;
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  async addUserMemory(entry: UserMemoryInput): Promise<string> {
+    const id = this.generateId();
+    const now = Date.now();
+
+    this.run(
+      `INSERT INTO ${this.tables.userMemories} (
+        id, end_user_id, organization_id, content, category, agent_id, thread_id, metadata,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      entry.endUserId,
+      entry.organizationId,
+      entry.content,
+      entry.category,
+      entry.agentId,
+      entry.threadId,
+      toJson(entry.metadata),
+      now,
+      now
+    );
+
+    return id;
+  }
+
+  async getUserMemory(memoryId: string): Promise<UserMemoryEntry | null> {
+    const row = this.get(`SELECT * FROM ${this.tables.userMemories} WHERE id = ?`, memoryId);
+    return row ? this.rowToUserMemory(row) : null;
+  }
+
+  async listUserMemories(
+    endUserId: string,
+    filters: { organizationId?: string; category?: string } = {}
+  ): Promise<UserMemoryEntry[]> {
+    const conditions = ['end_user_id = ?'];
+    const values: unknown[] = [endUserId];
+    if (filters.organizationId) {
+      conditions.push('organization_id = ?');
+      values.push(filters.organizationId);
+    }
+    if (filters.category) {
+      conditions.push('category = ?');
+      values.push(filters.category);
+    }
+
+    const rows = this.all(
+      `SELECT * FROM ${this.tables.userMemories} WHERE ${conditions.join(' AND ')}
+      ORDER BY updated_at DESC`,
+      ...values
+    );
+    return rows.map((row) => this.rowToUserMemory(row));
+  }
+
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void> {
+    const { assignments, values } = toAssignments(
+      updates,
+      {
+        content: { column: 'content' },
+        category: { column: 'category' },
+        metadata: { column: 'metadata', json: true },
+      },
+      true
+    );
+    this.run(
+      `UPDATE ${this.tables.userMemories} SET ${['updated_at = ?', ...assignments].join(', ')} WHERE id = ?`,
+      Date.now(),
+      ...values,
+      memoryId
+    );
+  }
+
+  async deleteUserMemory(memoryId: string): Promise<void> {
+    this.run(`DELETE FROM ${this.tables.userMemories} WHERE id = ?`, memoryId);
+  }
+
+  async deleteUserMemories(endUserId: string): Promise<number> {
+    return this.run(`DELETE FROM ${this.tables.userMemories} WHERE end_user_id = ?`, endUserId);
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private generateId(): string {
+    // Timestamp first, so IDs sort roughly by creation time
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 10);
+    return `${timestamp}${random}`;
+  }
+
+  private statement(sql: string): SqliteStatement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  /**
+   * Run a write and return the number of changed rows
+   */
+  private run(sql: string, ...params: unknown[]): number {
+    const result = this.statement(sql).run(...params.map(toParam)) as { changes?: number | bigint };
+    return Number(result?.changes ?? 0);
+  }
+
+  private get(sql: string, ...params: unknown[]): any {
+    return this.statement(sql).get(...params.map(toParam));
+  }
+
+  private all(sql: string, ...params: unknown[]): any[] {
+    return this.statement(sql).all(...params.map(toParam));
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Run a keyset-paginated query ordered by (sortBy, id)
+   */
+  private findPage(
+    table: string,
+    equals: Record<string, string | undefined>,
+    options: ListOptions
+  ): Page<any> {
+    const sortBy = options.sortBy === 'createdAt' ? 'created_at' : 'updated_at';
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const where = (condition: string, ...params: unknown[]) => {
+      conditions.push(condition);
+      values.push(...params);
+    };
+
+    for (const [column, value] of Object.entries(equals)) {
+      if (value) where(`${column} = ?`, value);
+    }
+    if (options.createdAfter) where('created_at > ?', options.createdAfter.getTime());
+    if (options.createdBefore) where('created_at < ?', options.createdBefore.getTime());
+    if (options.updatedAfter) where('updated_at > ?', options.updatedAfter.getTime());
+    if (options.updatedBefore) where('updated_at < ?', options.updatedBefore.getTime());
+    for (const [field, value] of Object.entries(options.metadata || {})) {
+      where(
+        `json_extract(metadata, ?) = ?`,
+        `$.${JSON.stringify(field)}`,
+        typeof value === 'boolean' ? Number(value) : value
+      );
+    }
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      where(`(${sortBy}, id) ${order === 'asc' ? '>' : '<'} (?, ?)`, cursor.value, cursor.id);
+    }
+
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.all(
+      `SELECT * FROM ${table} ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${sortBy} ${direction}, id ${direction} LIMIT ?`,
+      ...values,
+      limit + 1
+    );
+
+    return toPage(rows, limit, (row) => ({ value: Number(row[sortBy]), id: row.id }));
+  }
+
+  /**
+   * Load the messages of several threads in one query
+   */
+  private withMessages(rows: any[]): ThreadData[] {
+    if (rows.length === 0) return [];
+
+    const messageRows = this.all(
+      `SELECT * FROM ${this.tables.messages}
+      WHERE thread_id IN (${rows.map(() => '?').join(', ')}) ORDER BY seq`,
+      ...rows.map((row) => row.id)
+    );
+
+    const messages = new Map<string, MessageData[]>();
+    for (const row of messageRows) {
+      const list = messages.get(row.thread_id) || [];
+      list.push(this.rowToMessage(row));
+      messages.set(row.thread_id, list);
+    }
+
+    return rows.map((row) => this.rowToThread(row, messages.get(row.id) || []));
+  }
+
+  private rowToAgent(row: any): AgentData {
+    return {
+      id: row.id,
+      organizationId: row.organization_id ?? undefined,
+      userId: row.user_id,
+      phone: row.phone ?? undefined,
+      name: row.name,
+      description: row.description ?? undefined,
+      instructions: row.instructions,
+      provider: row.provider,
+      model: row.model,
+      createdAt: new Date(Number(row.created_at)),
+      updatedAt: new Date(Number(row.updated_at)),
+      files: fromJson<AgentFile[]>(row.files, []).map((file) => ({
+        ...file,
+        addedAt: new Date(file.addedAt),
+      })),
+      metadata: fromJson(row.metadata),
+      pluginConfigs: fromJson(row.plugin_configs),
+      maxToolSteps: row.max_tool_steps ?? undefined,
+      fallbacks: fromJson(row.fallbacks),
+      retryPolicy: fromJson(row.retry_policy),
+      memory: fromJson(row.memory),
+      handoffs: fromJson(row.handoffs),
+    };
+  }
+
+  private rowToThread(row: any, messages: MessageData[]): ThreadData {
+    const summary = fromJson<ThreadSummary>(row.summary);
+    return {
+      id: row.id,
+      organizationId: row.organization_id ?? undefined,
+      agentId: row.agent_id,
+      userId: row.user_id,
+      endUserId: row.end_user_id ?? undefined,
+      name: row.name ?? undefined,
+      createdAt: new Date(Number(row.created_at)),
+      updatedAt: new Date(Number(row.updated_at)),
+      messages,
+      isPendingThread: Boolean(row.is_pending_thread),
+      metadata: fromJson(row.metadata),
+      summary: summary && { ...summary, updatedAt: new Date(summary.updatedAt) },
+    };
+  }
+
+  private rowToMessage(row: any): MessageData {
+    return {
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(Number(row.created_at)),
+      ...(row.parts && { parts: fromJson(row.parts) }),
+      ...(row.attachments && { attachments: fromJson(row.attachments) }),
+      ...(row.metadata && { metadata: fromJson(row.metadata) }),
+    };
+  }
+
+  private rowToUserMemory(row: any): UserMemoryEntry {
+    return {
+      id: row.id,
+      endUserId: row.end_user_id,
+      organizationId: row.organization_id ?? undefined,
+      content: row.content,
+      category: row.category ?? undefined,
+      agentId: row.agent_id ?? undefined,
+      threadId: row.thread_id ?? undefined,
+      metadata: fromJson(row.metadata),
+      createdAt: new Date(Number(row.created_at)),
+      updatedAt: new Date(Number(row.updated_at)),
+    };
+  }
+
+  // ============================================================================
+  // Utility Methods
+  // ============================================================================
+
+  /**
+   * Delete all rows from the adapter's tables (use with caution!)
+   */
+  clear(): void {
+    const t = this.tables;
+    this.transaction(() => {
+      for (const table of [t.messages, t.threads, t.agents, t.userMemories]) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+    });
+  }
+
+  /**
+   * Get statistics about stored data
+   */
+  getStats(): { agents: number; threads: number; messages: number } {
+    const t = this.tables;
+    const row = this.get(
+      `SELECT
+        (SELECT count(*) FROM ${t.agents}) AS agents,
+        (SELECT count(*) FROM ${t.threads}) AS threads,
+        (SELECT count(*) FROM ${t.messages}) AS messages`
+    );
+    return { agents: Number(row.agents), threads: Number(row.threads), messages: Number(row.messages) };
+  }
+}
+
+/**
+ * Build `column = ?` assignments for the fields of an update.
+ * Undefined fields are skipped, or cleared when `skipUndefined` is false.
+ */
+function toAssignments(
+  updates: object,
+  columns: Record<string, { column: string; json?: boolean }>,
+  skipUndefined: boolean
+): { assignments: string[]; values: unknown[] } {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [key, value] of Object.entries(updates)) {
+    const field = columns[key];
+    if (!field || (value === undefined && skipUndefined)) continue;
+    assignments.push(`${field.column} = ?`);
+    values.push(field.json ? toJson(value) : value);
+  }
+  return { assignments, values };
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function fromJson<T>(value: string | null | undefined): T | undefined;
+function fromJson<T>(value: string | null | undefined, fallback: T): T;
+function fromJson<T>(value: string | null | undefined, fallback?: T): T | undefined {
+  return value ? JSON.parse(value) : fallback;
+}
+
+/**
+ * SQLite drivers bind numbers, strings, bigints, buffers and null only
+ */
+function toParam(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
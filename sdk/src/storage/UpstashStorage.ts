@@ -2,12 +2,34 @@ import {
   StorageAdapter,
   AgentConfig,
   AgentData,
+  AgentFile,
   ThreadConfig,
   ThreadData,
   MessageData,
   MessageRole,
   MessageAttachment,
+  AddMessageOptions,
+  MessageUpdate,
+  ThreadSummary,
+  UserMemoryStorage,
+  UserMemoryEntry,
+  UserMemoryInput,
+  UserMemoryUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  AgentFilters,
+  ThreadFilters,
 } from '../types';
+import {
+  decodeCursor,
+  isAfterCursor,
+  matchesListOptions,
+  pageSize,
+  paginate,
+  paginateMessages,
+  toPage,
+} from './pagination';
 
 /**
  * Upstash Redis configuration
@@ -48,6 +70,11 @@ interface StoredAgent {
   updatedAt: string; // ISO string
   files: string; // JSON stringified AgentFile[]
   metadata?: string; // JSON stringified
+  maxToolSteps?: string;
+  fallbacks?: string; // JSON stringified ModelFallback[]
+  retryPolicy?: string; // JSON stringified RetryPolicy
+  memory?: string; // JSON stringified MemoryConfig
+  handoffs?: string; // JSON stringified HandoffTarget[]
 }
 
 interface StoredThread {
@@ -62,6 +89,30 @@ interface StoredThread {
   messages: string; // JSON stringified MessageData[]
   isPendingThread: string; // "true" or "false"
   metadata?: string;
+  summary?: string; // JSON stringified ThreadSummary
+}
+
+/**
+ * HGETALL reply: a flat field/value array over REST, or an already decoded object
+ */
+type HashReply = string[] | Record<string, string> | null;
+
+/**
+ * Fields that decide which thread indexes a thread belongs to
+ */
+type ThreadScope = Pick<ThreadConfig, 'agentId' | 'userId' | 'organizationId' | 'endUserId'>;
+
+interface StoredUserMemory {
+  id: string;
+  endUserId: string;
+  organizationId?: string;
+  content: string;
+  category?: string;
+  agentId?: string;
+  threadId?: string;
+  metadata?: string; // JSON stringified
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -85,10 +136,11 @@ interface StoredThread {
  * });
  * ```
  */
-export class UpstashStorage implements StorageAdapter {
+export class UpstashStorage implements StorageAdapter, UserMemoryStorage {
   private url: string;
   private token: string;
   private prefix: string;
+  private threadIndexesReady = false;
 
   constructor(config: UpstashStorageConfig) {
     this.url = config.url.replace(/\/$/, ''); // Remove trailing slash
@@ -165,6 +217,23 @@ export class UpstashStorage implements StorageAdapter {
     return `${this.prefix}:${parts.join(':')}`;
   }
 
+  /**
+   * Thread index keys (SETs of thread ids) for a thread's agent, user, org and end user.
+   * Each has two sorted companions, scored by createdAt and updatedAt, for paginated listing.
+   */
+  private threadIndexKeys(scope: ThreadScope): string[] {
+    return [
+      this.key('threads:agent', scope.agentId),
+      this.key('threads:user', scope.userId),
+      ...(scope.organizationId ? [this.key('threads:org', scope.organizationId)] : []),
+      ...(scope.endUserId ? [this.key('threads:enduser', scope.endUserId)] : []),
+    ];
+  }
+
+  private sortedIndexKey(indexKey: string, sortBy: 'createdAt' | 'updatedAt'): string {
+    return `${indexKey}:${sortBy === 'createdAt' ? 'by_created' : 'by_updated'}`;
+  }
+
   private generateId(): string {
     // Generate a unique ID using timestamp + random
     const timestamp = Date.now().toString(36);
@@ -194,6 +263,11 @@ export class UpstashStorage implements StorageAdapter {
       updatedAt: now,
       files: JSON.stringify([]),
       metadata: config.metadata ? JSON.stringify(config.metadata) : undefined,
+      maxToolSteps: config.maxToolSteps !== undefined ? String(config.maxToolSteps) : undefined,
+      fallbacks: config.fallbacks ? JSON.stringify(config.fallbacks) : undefined,
+      retryPolicy: config.retryPolicy ? JSON.stringify(config.retryPolicy) : undefined,
+      memory: config.memory ? JSON.stringify(config.memory) : undefined,
+      handoffs: config.handoffs ? JSON.stringify(config.handoffs) : undefined,
     };
 
     // Build hash fields array
@@ -217,12 +291,10 @@ export class UpstashStorage implements StorageAdapter {
   }
 
   async getAgent(agentId: string): Promise<AgentData | null> {
-    const data = await this.command<Record<string, string> | null>(
-      'HGETALL',
-      this.key('agent', agentId)
+    const data = this.toHash(
+      await this.command<HashReply>('HGETALL', this.key('agent', agentId))
     );
-
-    if (!data || Object.keys(data).length === 0) {
+    if (!data) {
       return null;
     }
 
@@ -231,13 +303,13 @@ export class UpstashStorage implements StorageAdapter {
 
   async updateAgent(
     agentId: string,
-    updates: Partial<AgentConfig>
+    updates: Partial<AgentConfig & Pick<AgentData, 'files'>>
   ): Promise<void> {
     const fields: (string | number)[] = ['updatedAt', new Date().toISOString()];
 
     for (const [key, value] of Object.entries(updates)) {
       if (value !== undefined) {
-        if (key === 'metadata') {
+        if (['metadata', 'files', 'fallbacks', 'retryPolicy', 'memory', 'handoffs'].includes(key)) {
           fields.push(key, JSON.stringify(value));
         } else {
           fields.push(key, String(value));
@@ -269,11 +341,23 @@ export class UpstashStorage implements StorageAdapter {
       commands.push(['SREM', this.key('agents:org', agent.organizationId), agentId]);
     }
 
-    // Delete all threads
-    for (const threadId of threadIds || []) {
-      commands.push(['DEL', this.key('thread', threadId)]);
+    // Delete all threads, and remove them from the user, org and end-user indexes too
+    for (const thread of await this.getThreads(threadIds || [])) {
+      commands.push(['DEL', this.key('thread', thread.id)]);
+      for (const indexKey of this.threadIndexKeys(thread)) {
+        commands.push(
+          ['SREM', indexKey, thread.id],
+          ['ZREM', this.sortedIndexKey(indexKey, 'createdAt'), thread.id],
+          ['ZREM', this.sortedIndexKey(indexKey, 'updatedAt'), thread.id]
+        );
+      }
     }
-    commands.push(['DEL', this.key('threads:agent', agentId)]);
+    const agentIndex = this.key('threads:agent', agentId);
+    commands.push(
+      ['DEL', agentIndex],
+      ['DEL', this.sortedIndexKey(agentIndex, 'createdAt')],
+      ['DEL', this.sortedIndexKey(agentIndex, 'updatedAt')]
+    );
 
     await this.pipeline(commands);
   }
@@ -311,6 +395,31 @@ export class UpstashStorage implements StorageAdapter {
     );
   }
 
+  /**
+   * A user's agents are few, so they are fetched in one pipeline and paged in memory
+   */
+  async listAgentsPage(filters: AgentFilters, options?: ListOptions): Promise<Page<AgentData>> {
+    const indexKey = filters.organizationId
+      ? this.key('agents:org', filters.organizationId)
+      : this.key('agents:user', filters.userId);
+
+    const agentIds = await this.command<string[]>('SMEMBERS', indexKey);
+    if (!agentIds || agentIds.length === 0) {
+      return { items: [] };
+    }
+
+    const results = await this.pipeline<HashReply>(
+      agentIds.map((id) => ['HGETALL', this.key('agent', id)])
+    );
+    const agents = results
+      .map((data) => this.toHash(data))
+      .filter((data): data is Record<string, string> => !!data)
+      .map((data) => this.parseStoredAgent(data as unknown as StoredAgent))
+      .filter((agent) => agent.userId === filters.userId);
+
+    return paginate(agents, options);
+  }
+
   // ============================================================================
   // Thread Operations
   // ============================================================================
@@ -342,25 +451,26 @@ export class UpstashStorage implements StorageAdapter {
     }
 
     // Store thread and add to indexes
+    const score = Date.parse(now);
     await this.pipeline([
       ['HSET', this.key('thread', id), ...fields],
-      ['SADD', this.key('threads:agent', config.agentId), id],
-      ['SADD', this.key('threads:user', config.userId), id],
-      ...(config.organizationId
-        ? [['SADD', this.key('threads:org', config.organizationId), id] as [string, ...string[]]]
-        : []),
+      ...this.threadIndexKeys(config).flatMap(
+        (indexKey): Array<[string, ...Array<string | number>]> => [
+          ['SADD', indexKey, id],
+          ['ZADD', this.sortedIndexKey(indexKey, 'createdAt'), score, id],
+          ['ZADD', this.sortedIndexKey(indexKey, 'updatedAt'), score, id],
+        ]
+      ),
     ]);
 
     return id;
   }
 
   async getThread(threadId: string): Promise<ThreadData | null> {
-    const data = await this.command<Record<string, string> | null>(
-      'HGETALL',
-      this.key('thread', threadId)
+    const data = this.toHash(
+      await this.command<HashReply>('HGETALL', this.key('thread', threadId))
     );
-
-    if (!data || Object.keys(data).length === 0) {
+    if (!data) {
       return null;
     }
 
@@ -371,36 +481,47 @@ export class UpstashStorage implements StorageAdapter {
     threadId: string,
     updates: Partial<ThreadConfig>
   ): Promise<void> {
-    const fields: (string | number)[] = ['updatedAt', new Date().toISOString()];
+    const scope = await this.getThreadScope(threadId);
+    if (!scope) return;
+
+    const now = new Date();
+    const fields: (string | number)[] = ['updatedAt', now.toISOString()];
+    const removed: string[] = [];
 
     for (const [key, value] of Object.entries(updates)) {
-      if (value !== undefined) {
-        if (key === 'metadata') {
-          fields.push(key, JSON.stringify(value));
-        } else {
-          fields.push(key, String(value));
-        }
+      if (value === undefined) {
+        // Fields explicitly set to undefined are cleared, as in the other adapters
+        removed.push(key);
+      } else if (key === 'metadata' || key === 'summary') {
+        fields.push(key, JSON.stringify(value));
+      } else {
+        fields.push(key, String(value));
       }
     }
 
-    await this.command('HSET', this.key('thread', threadId), ...fields);
+    await this.pipeline([
+      ['HSET', this.key('thread', threadId), ...fields],
+      ...(removed.length > 0
+        ? [['HDEL', this.key('thread', threadId), ...removed] as [string, ...string[]]]
+        : []),
+      ...this.touchThreadCommands(threadId, scope, now),
+    ]);
   }
 
   async deleteThread(threadId: string): Promise<void> {
     const thread = await this.getThread(threadId);
     if (!thread) return;
 
-    const commands: Array<[string, ...Array<string | number>]> = [
+    await this.pipeline([
       ['DEL', this.key('thread', threadId)],
-      ['SREM', this.key('threads:agent', thread.agentId), threadId],
-      ['SREM', this.key('threads:user', thread.userId), threadId],
-    ];
-
-    if (thread.organizationId) {
-      commands.push(['SREM', this.key('threads:org', thread.organizationId), threadId]);
-    }
-
-    await this.pipeline(commands);
+      ...this.threadIndexKeys(thread).flatMap(
+        (indexKey): Array<[string, ...Array<string | number>]> => [
+          ['SREM', indexKey, threadId],
+          ['ZREM', this.sortedIndexKey(indexKey, 'createdAt'), threadId],
+          ['ZREM', this.sortedIndexKey(indexKey, 'updatedAt'), threadId],
+        ]
+      ),
+    ]);
   }
 
   async listThreads(filters: {
@@ -445,6 +566,224 @@ export class UpstashStorage implements StorageAdapter {
     );
   }
 
+  /**
+   * Page through one thread index in sort order, fetching only the threads needed.
+   * The most selective filter picks the index (agent, org, user, then end user);
+   * the others, plus metadata and the other date range, are applied to fetched threads.
+   */
+  async listThreadsPage(
+    filters: ThreadFilters,
+    options: ListOptions = {}
+  ): Promise<Page<ThreadData>> {
+    let indexKey: string;
+    if (filters.agentId) {
+      indexKey = this.key('threads:agent', filters.agentId);
+    } else if (filters.organizationId) {
+      indexKey = this.key('threads:org', filters.organizationId);
+    } else if (filters.userId) {
+      indexKey = this.key('threads:user', filters.userId);
+    } else if (filters.endUserId) {
+      indexKey = this.key('threads:enduser', filters.endUserId);
+      await this.ensureThreadIndexes();
+    } else {
+      return { items: [] };
+    }
+
+    const sortBy = options.sortBy || 'updatedAt';
+    const order = options.order || 'desc';
+    const limit = pageSize(options);
+    const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const sortedKey = this.sortedIndexKey(indexKey, sortBy);
+
+    await this.backfillSortedIndexes(indexKey);
+
+    // Score bounds from the date range on the sort field and the cursor (ties are resolved below)
+    const after = sortBy === 'createdAt' ? options.createdAfter : options.updatedAfter;
+    const before = sortBy === 'createdAt' ? options.createdBefore : options.updatedBefore;
+    let min = after ? `(${after.getTime()}` : '-inf';
+    let max = before ? `(${before.getTime()}` : '+inf';
+    if (cursor && order === 'asc') min = String(cursor.value);
+    if (cursor && order === 'desc') max = String(cursor.value);
+
+    const threads: ThreadData[] = [];
+    const batchSize = limit + 1;
+
+    for (let offset = 0; threads.length <= limit; offset += batchSize) {
+      const range = await this.command<string[]>(
+        'ZRANGE',
+        sortedKey,
+        ...(order === 'desc' ? [max, min, 'BYSCORE', 'REV'] : [min, max, 'BYSCORE']),
+        'LIMIT',
+        offset,
+        batchSize,
+        'WITHSCORES'
+      );
+      if (!range || range.length === 0) break;
+
+      const ids: string[] = [];
+      for (let i = 0; i < range.length; i += 2) {
+        const position = { value: Number(range[i + 1]), id: range[i] };
+        if (!cursor || isAfterCursor(position, cursor, order)) {
+          ids.push(position.id);
+        }
+      }
+
+      for (const thread of await this.getThreads(ids)) {
+        if (filters.userId && thread.userId !== filters.userId) continue;
+        if (filters.agentId && thread.agentId !== filters.agentId) continue;
+        if (filters.organizationId && thread.organizationId !== filters.organizationId) continue;
+        if (filters.endUserId && thread.endUserId !== filters.endUserId) continue;
+        if (!matchesListOptions(thread, options)) continue;
+        threads.push(thread);
+      }
+
+      if (range.length / 2 < batchSize) break;
+    }
+
+    return toPage(threads.slice(0, limit + 1), limit, (thread) => ({
+      value: thread[sortBy].getTime(),
+      id: thread.id,
+    }));
+  }
+
+  /**
+   * Fetch several threads in one pipeline, skipping ids that no longer exist
+   */
+  private async getThreads(threadIds: string[]): Promise<ThreadData[]> {
+    if (threadIds.length === 0) return [];
+
+    const results = await this.pipeline<HashReply>(
+      threadIds.map((id) => ['HGETALL', this.key('thread', id)])
+    );
+    return results
+      .map((data) => this.toHash(data))
+      .filter((data): data is Record<string, string> => !!data)
+      .map((data) => this.parseStoredThread(data as unknown as StoredThread));
+  }
+
+  private async getThreadScope(threadId: string): Promise<ThreadScope | null> {
+    const [agentId, userId, organizationId, endUserId] = await this.command<Array<string | null>>(
+      'HMGET',
+      this.key('thread', threadId),
+      'agentId',
+      'userId',
+      'organizationId',
+      'endUserId'
+    );
+    if (!agentId || !userId) return null;
+
+    return {
+      agentId,
+      userId,
+      organizationId: organizationId || undefined,
+      endUserId: endUserId || undefined,
+    };
+  }
+
+  /**
+   * Commands that move a thread to its new updatedAt in the sorted indexes
+   */
+  private touchThreadCommands(
+    threadId: string,
+    scope: ThreadScope,
+    updatedAt: Date
+  ): Array<[string, ...Array<string | number>]> {
+    return this.threadIndexKeys(scope).map((indexKey) => [
+      'ZADD',
+      this.sortedIndexKey(indexKey, 'updatedAt'),
+      updatedAt.getTime(),
+      threadId,
+    ]);
+  }
+
+  /**
+   * Threads created before the sorted indexes existed are only in the SET index.
+   * Add them on first listing, so existing data pages correctly.
+   */
+  private async backfillSortedIndexes(indexKey: string): Promise<void> {
+    const [total, sorted] = await this.pipeline<number>([
+      ['SCARD', indexKey],
+      ['ZCARD', this.sortedIndexKey(indexKey, 'createdAt')],
+    ]);
+    if (sorted >= total) return;
+
+    const threadIds = await this.command<string[]>('SMEMBERS', indexKey);
+    const threads = await this.getThreads(threadIds || []);
+    if (threads.length === 0) return;
+
+    await this.pipeline([
+      [
+        'ZADD',
+        this.sortedIndexKey(indexKey, 'createdAt'),
+        ...threads.flatMap((thread) => [thread.createdAt.getTime(), thread.id]),
+      ],
+      [
+        'ZADD',
+        this.sortedIndexKey(indexKey, 'updatedAt'),
+        ...threads.flatMap((thread) => [thread.updatedAt.getTime(), thread.id]),
+      ],
+    ]);
+  }
+
+  /**
+   * Add every stored thread to all of its indexes, scanning `thread:*` keys.
+   * Threads created before the end-user index existed are only found this way.
+   * Safe to re-run; runs automatically before the first end-user listing.
+   * @returns The number of threads indexed
+   */
+  async rebuildThreadIndexes(): Promise<number> {
+    const threadKeyPrefix = this.key('thread', '');
+    let cursor = '0';
+    let indexed = 0;
+
+    do {
+      const [next, keys] = await this.command<[string, string[]]>(
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${threadKeyPrefix}*`,
+        'COUNT',
+        100
+      );
+      cursor = String(next);
+
+      const threads = await this.getThreads(keys.map((key) => key.slice(threadKeyPrefix.length)));
+      if (threads.length > 0) {
+        await this.pipeline(
+          threads.flatMap((thread) =>
+            this.threadIndexKeys(thread).flatMap(
+              (indexKey): Array<[string, ...Array<string | number>]> => [
+                ['SADD', indexKey, thread.id],
+                ['ZADD', this.sortedIndexKey(indexKey, 'createdAt'), thread.createdAt.getTime(), thread.id],
+                ['ZADD', this.sortedIndexKey(indexKey, 'updatedAt'), thread.updatedAt.getTime(), thread.id],
+              ]
+            )
+          )
+        );
+      }
+      indexed += threads.length;
+    } while (cursor !== '0');
+
+    await this.command('SET', this.key('migrations', 'thread_indexes'), new Date().toISOString());
+    this.threadIndexesReady = true;
+
+    return indexed;
+  }
+
+  /**
+   * Run the index rebuild once per database, before listing by end user
+   */
+  private async ensureThreadIndexes(): Promise<void> {
+    if (this.threadIndexesReady) return;
+
+    const rebuiltAt = await this.command<string | null>('GET', this.key('migrations', 'thread_indexes'));
+    if (rebuiltAt) {
+      this.threadIndexesReady = true;
+      return;
+    }
+    await this.rebuildThreadIndexes();
+  }
+
   // ============================================================================
   // Message Operations
   // ============================================================================
@@ -453,7 +792,8 @@ export class UpstashStorage implements StorageAdapter {
     threadId: string,
     role: MessageRole,
     content: string,
-    attachments?: MessageAttachment[]
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
   ): Promise<string> {
     const thread = await this.getThread(threadId);
     if (!thread) {
@@ -467,21 +807,12 @@ export class UpstashStorage implements StorageAdapter {
       content,
       timestamp: new Date(),
       attachments,
+      ...(options?.parts && { parts: options.parts }),
+      ...(options?.metadata && { metadata: options.metadata }),
     };
 
     thread.messages.push(message);
-
-    // Update thread with new messages
-    await this.command(
-      'HSET',
-      this.key('thread', threadId),
-      'messages',
-      JSON.stringify(thread.messages),
-      'updatedAt',
-      new Date().toISOString(),
-      'isPendingThread',
-      'false'
-    );
+    await this.saveMessages(thread, thread.messages);
 
     return messageId;
   }
@@ -499,6 +830,17 @@ export class UpstashStorage implements StorageAdapter {
     return messages;
   }
 
+  /**
+   * Messages are stored in one field of the thread hash, so they are paged after loading it
+   */
+  async listMessagesPage(
+    threadId: string,
+    options?: MessageListOptions
+  ): Promise<Page<MessageData>> {
+    const messages = await this.getMessages(threadId);
+    return paginateMessages(messages, options);
+  }
+
   async getConversationContext(
     threadId: string,
     maxMessages: number = 20
@@ -510,10 +852,210 @@ export class UpstashStorage implements StorageAdapter {
     }));
   }
 
+  async updateMessage(threadId: string, messageId: string, updates: MessageUpdate): Promise<void> {
+    const thread = await this.getThread(threadId);
+    const message = thread?.messages.find((m) => m.id === messageId);
+    if (!thread || !message) return;
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        (message as any)[key] = value;
+      }
+    }
+
+    await this.saveMessages(thread, thread.messages);
+  }
+
+  async deleteMessages(threadId: string, messageIds: string[]): Promise<void> {
+    const thread = await this.getThread(threadId);
+    if (!thread) return;
+
+    await this.saveMessages(
+      thread,
+      thread.messages.filter((m) => !messageIds.includes(m.id))
+    );
+  }
+
+  async forkThread(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string> {
+    const source = await this.getThread(threadId);
+    if (!source) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const end = upToMessageId
+      ? source.messages.findIndex((m) => m.id === upToMessageId) + 1
+      : source.messages.length;
+    const messages = source.messages
+      .slice(0, end)
+      .map((message) => ({ ...message, id: this.generateId() }));
+
+    const id = await this.createThread(config);
+    if (messages.length > 0) {
+      await this.saveMessages({ id, ...config }, messages);
+    }
+
+    return id;
+  }
+
+  /**
+   * Write a thread's full message list
+   * Messages are stored as a single JSON field, so edits rewrite the list
+   */
+  private async saveMessages(
+    thread: ThreadScope & { id: string },
+    messages: MessageData[]
+  ): Promise<void> {
+    const now = new Date();
+    await this.pipeline([
+      [
+        'HSET',
+        this.key('thread', thread.id),
+        'messages',
+        JSON.stringify(messages),
+        'updatedAt',
+        now.toISOString(),
+        'isPendingThread',
+        'false',
+      ],
+      ...this.touchThreadCommands(thread.id, thread, now),
+    ]);
+  }
+
+  // ============================================================================
+  // User Memory Operations
+  // ============================================================================
+
+  async addUserMemory(entry: UserMemoryInput): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    const stored: StoredUserMemory = {
+      id,
+      endUserId: entry.endUserId,
+      organizationId: entry.organizationId,
+      content: entry.content,
+      category: entry.category,
+      agentId: entry.agentId,
+      threadId: entry.threadId,
+      metadata: entry.metadata ? JSON.stringify(entry.metadata) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const fields: (string | number)[] = [];
+    for (const [key, value] of Object.entries(stored)) {
+      if (value !== undefined) {
+        fields.push(key, String(value));
+      }
+    }
+
+    // Store entry and add to the end user's index
+    await this.pipeline([
+      ['HSET', this.key('user_memory', id), ...fields],
+      ['SADD', this.key('user_memories', entry.endUserId), id],
+    ]);
+
+    return id;
+  }
+
+  async getUserMemory(memoryId: string): Promise<UserMemoryEntry | null> {
+    const data = this.toHash(
+      await this.command<HashReply>('HGETALL', this.key('user_memory', memoryId))
+    );
+    if (!data) {
+      return null;
+    }
+
+    return this.parseStoredUserMemory(data as unknown as StoredUserMemory);
+  }
+
+  async listUserMemories(
+    endUserId: string,
+    filters: { organizationId?: string; category?: string } = {}
+  ): Promise<UserMemoryEntry[]> {
+    const memoryIds = await this.command<string[]>(
+      'SMEMBERS',
+      this.key('user_memories', endUserId)
+    );
+
+    if (!memoryIds || memoryIds.length === 0) {
+      return [];
+    }
+
+    const entries: UserMemoryEntry[] = [];
+    for (const id of memoryIds) {
+      const entry = await this.getUserMemory(id);
+      if (!entry) continue;
+      if (filters.organizationId && entry.organizationId !== filters.organizationId) continue;
+      if (filters.category && entry.category !== filters.category) continue;
+      entries.push(entry);
+    }
+
+    // Sort by updatedAt descending
+    return entries.sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    );
+  }
+
+  async updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void> {
+    const fields: (string | number)[] = ['updatedAt', new Date().toISOString()];
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        fields.push(key, key === 'metadata' ? JSON.stringify(value) : String(value));
+      }
+    }
+
+    await this.command('HSET', this.key('user_memory', memoryId), ...fields);
+  }
+
+  async deleteUserMemory(memoryId: string): Promise<void> {
+    const entry = await this.getUserMemory(memoryId);
+    if (!entry) return;
+
+    await this.pipeline([
+      ['DEL', this.key('user_memory', memoryId)],
+      ['SREM', this.key('user_memories', entry.endUserId), memoryId],
+    ]);
+  }
+
+  async deleteUserMemories(endUserId: string): Promise<number> {
+    const indexKey = this.key('user_memories', endUserId);
+    const memoryIds = await this.command<string[]>('SMEMBERS', indexKey);
+
+    if (!memoryIds || memoryIds.length === 0) {
+      return 0;
+    }
+
+    await this.pipeline([
+      ...memoryIds.map((id) => ['DEL', this.key('user_memory', id)] as [string, string]),
+      ['DEL', indexKey],
+    ]);
+
+    return memoryIds.length;
+  }
+
   // ============================================================================
   // Helper Methods
   // ============================================================================
 
+  /**
+   * The REST API returns HGETALL as a flat field/value array, empty for missing keys
+   */
+  private toHash(reply: HashReply): Record<string, string> | null {
+    if (!reply) return null;
+    if (!Array.isArray(reply)) {
+      return Object.keys(reply).length > 0 ? reply : null;
+    }
+    if (reply.length === 0) return null;
+
+    const fields: Record<string, string> = {};
+    for (let i = 0; i < reply.length; i += 2) {
+      fields[reply[i]] = reply[i + 1];
+    }
+    return fields;
+  }
+
   private parseStoredAgent(stored: StoredAgent): AgentData {
     return {
       id: stored.id,
@@ -527,8 +1069,15 @@ export class UpstashStorage implements StorageAdapter {
       model: stored.model,
       createdAt: new Date(stored.createdAt),
       updatedAt: new Date(stored.updatedAt),
-      files: stored.files ? JSON.parse(stored.files) : [],
+      files: stored.files
+        ? JSON.parse(stored.files).map((file: AgentFile) => ({ ...file, addedAt: new Date(file.addedAt) }))
+        : [],
       metadata: stored.metadata ? JSON.parse(stored.metadata) : undefined,
+      maxToolSteps: stored.maxToolSteps ? Number(stored.maxToolSteps) : undefined,
+      fallbacks: stored.fallbacks ? JSON.parse(stored.fallbacks) : undefined,
+      retryPolicy: stored.retryPolicy ? JSON.parse(stored.retryPolicy) : undefined,
+      memory: stored.memory ? JSON.parse(stored.memory) : undefined,
+      handoffs: stored.handoffs ? JSON.parse(stored.handoffs) : undefined,
     };
   }
 
@@ -555,9 +1104,30 @@ export class UpstashStorage implements StorageAdapter {
       messages: parsedMessages,
       isPendingThread: stored.isPendingThread === 'true',
       metadata: stored.metadata ? JSON.parse(stored.metadata) : undefined,
+      summary: stored.summary ? this.parseSummary(stored.summary) : undefined,
     };
   }
 
+  private parseStoredUserMemory(stored: StoredUserMemory): UserMemoryEntry {
+    return {
+      id: stored.id,
+      endUserId: stored.endUserId,
+      organizationId: stored.organizationId,
+      content: stored.content,
+      category: stored.category,
+      agentId: stored.agentId,
+      threadId: stored.threadId,
+      metadata: stored.metadata ? JSON.parse(stored.metadata) : undefined,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+
+  private parseSummary(summary: string): ThreadSummary {
+    const parsed = JSON.parse(summary);
+    return { ...parsed, updatedAt: new Date(parsed.updatedAt) };
+  }
+
   // ============================================================================
   // Utility Methods
   // ============================================================================
@@ -0,0 +1,119 @@
+import {
+  StorageAdapter,
+  AgentData,
+  AgentFilters,
+  ThreadConfig,
+  ThreadData,
+  ThreadFilters,
+  MessageData,
+  MessageUpdate,
+  ListOptions,
+  MessageListOptions,
+  Page,
+  ThreadNotFoundError,
+  StorageMethodNotSupportedError,
+} from '../types';
+import { paginate, paginateMessages } from './pagination';
+
+/**
+ * Calls to the optional StorageAdapter methods, with fallbacks for adapters written
+ * before they were added
+ */
+
+export async function pageAgents(
+  storage: StorageAdapter,
+  filters: AgentFilters,
+  options?: ListOptions
+): Promise<Page<AgentData>> {
+  if (storage.listAgentsPage) {
+    return await storage.listAgentsPage(filters, options);
+  }
+  return paginate(await storage.listAgents(filters.userId, filters.organizationId), options);
+}
+
+/**
+ * listThreads has no end-user filter, so the fallback filters end users in memory. Without a
+ * user, agent or organization it lists every thread, as with a retention sweep of all threads
+ */
+export async function pageThreads(
+  storage: StorageAdapter,
+  filters: ThreadFilters,
+  options?: ListOptions
+): Promise<Page<ThreadData>> {
+  if (storage.listThreadsPage) {
+    return await storage.listThreadsPage(filters, options);
+  }
+
+  const { endUserId, ...scope } = filters;
+  const threads = await storage.listThreads(scope);
+  return paginate(
+    endUserId ? threads.filter((thread) => thread.endUserId === endUserId) : threads,
+    options
+  );
+}
+
+export async function pageMessages(
+  storage: StorageAdapter,
+  threadId: string,
+  options?: MessageListOptions
+): Promise<Page<MessageData>> {
+  if (storage.listMessagesPage) {
+    return await storage.listMessagesPage(threadId, options);
+  }
+  return paginateMessages(await storage.getMessages(threadId), options);
+}
+
+export async function updateStoredMessage(
+  storage: StorageAdapter,
+  threadId: string,
+  messageId: string,
+  updates: MessageUpdate
+): Promise<void> {
+  if (!storage.updateMessage) {
+    throw new StorageMethodNotSupportedError('updateMessage');
+  }
+  await storage.updateMessage(threadId, messageId, updates);
+}
+
+export async function deleteStoredMessages(
+  storage: StorageAdapter,
+  threadId: string,
+  messageIds: string[]
+): Promise<void> {
+  if (!storage.deleteMessages) {
+    throw new StorageMethodNotSupportedError('deleteMessages');
+  }
+  await storage.deleteMessages(threadId, messageIds);
+}
+
+/**
+ * The fallback adds copies one by one, so they are timestamped at the time of the fork
+ */
+export async function forkStoredThread(
+  storage: StorageAdapter,
+  threadId: string,
+  config: ThreadConfig,
+  upToMessageId?: string
+): Promise<string> {
+  if (storage.forkThread) {
+    return await storage.forkThread(threadId, config, upToMessageId);
+  }
+
+  const source = await storage.getThread(threadId);
+  if (!source) {
+    throw new ThreadNotFoundError(threadId);
+  }
+
+  const end = upToMessageId
+    ? source.messages.findIndex((m) => m.id === upToMessageId) + 1
+    : source.messages.length;
+  const id = await storage.createThread(config);
+  for (const message of source.messages.slice(0, end)) {
+    await storage.addMessage(id, message.role, message.content, message.attachments, {
+      ...(message.parts && { parts: message.parts }),
+      ...(message.metadata && { metadata: message.metadata }),
+    });
+  }
+
+  return id;
+}
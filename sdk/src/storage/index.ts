@@ -3,4 +3,13 @@ export type { MongoDBStorageConfig } from './MongoDBStorage';
 export { MemoryStorage } from './MemoryStorage';
 export { UpstashStorage } from './UpstashStorage';
 export type { UpstashStorageConfig } from './UpstashStorage';
+export { PostgresStorage } from './PostgresStorage';
+export type { PostgresStorageConfig, PostgresQueryable } from './PostgresStorage';
+export { SqliteStorage } from './SqliteStorage';
+export type { SqliteStorageConfig, SqliteDatabase, SqliteStatement } from './SqliteStorage';
 
+export { MemoryFileStorage } from './MemoryFileStorage';
+export { LocalFileStorage } from './LocalFileStorage';
+export type { LocalFileStorageConfig } from './LocalFileStorage';
+export { S3FileStorage } from './S3FileStorage';
+export type { S3FileStorageConfig } from './S3FileStorage';
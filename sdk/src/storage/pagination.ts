@@ -0,0 +1,158 @@
+import {
+  ListOptions,
+  MessageListOptions,
+  MessageData,
+  Page,
+  InvalidCursorError,
+} from '../types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Position of the last item of a page: its sort value (ms) and id, which breaks ties
+ */
+export interface CursorPosition {
+  value: number;
+  id: string;
+}
+
+/**
+ * Cursors are opaque, URL-safe strings. btoa/atob keep this edge-compatible.
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return btoa(JSON.stringify([position.value, position.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [value, id] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof value === 'number' && typeof id === 'string') {
+      return { value, id };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new InvalidCursorError(cursor);
+}
+
+export function pageSize(options: { limit?: number }): number {
+  return Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE));
+}
+
+/**
+ * Ascending (value, id) order, the keyset every adapter pages by
+ */
+export function comparePositions(a: CursorPosition, b: CursorPosition): number {
+  if (a.value !== b.value) return a.value - b.value;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Whether an item at `position` comes after the cursor in the given order
+ */
+export function isAfterCursor(
+  position: CursorPosition,
+  cursor: CursorPosition,
+  order: 'asc' | 'desc'
+): boolean {
+  const comparison = comparePositions(position, cursor);
+  return order === 'asc' ? comparison > 0 : comparison < 0;
+}
+
+interface Listable {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Whether an agent or thread passes the date range and metadata filters
+ */
+export function matchesListOptions(item: Listable, options: ListOptions): boolean {
+  const created = item.createdAt.getTime();
+  const updated = item.updatedAt.getTime();
+
+  if (options.createdAfter && created <= options.createdAfter.getTime()) return false;
+  if (options.createdBefore && created >= options.createdBefore.getTime()) return false;
+  if (options.updatedAfter && updated <= options.updatedAfter.getTime()) return false;
+  if (options.updatedBefore && updated >= options.updatedBefore.getTime()) return false;
+
+  for (const [field, value] of Object.entries(options.metadata || {})) {
+    if (item.metadata?.[field] !== value) return false;
+  }
+  return true;
+}
+
+/**
+ * Filter, sort and page agents or threads held in memory
+ */
+export function paginate<T extends Listable>(items: T[], options: ListOptions = {}): Page<T> {
+  const sortBy = options.sortBy || 'updatedAt';
+  const order = options.order || 'desc';
+  const position = (item: T): CursorPosition => ({ value: item[sortBy].getTime(), id: item.id });
+
+  const candidates = items.filter((item) => matchesListOptions(item, options));
+  return slicePage(candidates, position, order, options);
+}
+
+/**
+ * Filter, sort and page a thread's messages by timestamp
+ */
+export function paginateMessages(
+  messages: MessageData[],
+  options: MessageListOptions = {}
+): Page<MessageData> {
+  const order = options.order || 'desc';
+  const position = (message: MessageData): CursorPosition => ({
+    value: message.timestamp.getTime(),
+    id: message.id,
+  });
+
+  const candidates = messages.filter((message) => {
+    const time = message.timestamp.getTime();
+    if (options.after && time <= options.after.getTime()) return false;
+    if (options.before && time >= options.before.getTime()) return false;
+    if (options.role && message.role !== options.role) return false;
+    return true;
+  });
+  return slicePage(candidates, position, order, options);
+}
+
+/**
+ * Build a page from the `limit + 1` items that follow the cursor (already sorted)
+ */
+export function toPage<T>(
+  items: T[],
+  limit: number,
+  position: (item: T) => CursorPosition
+): Page<T> {
+  if (items.length <= limit) {
+    return { items };
+  }
+
+  const pageItems = items.slice(0, limit);
+  return { items: pageItems, nextCursor: encodeCursor(position(pageItems[limit - 1])) };
+}
+
+function slicePage<T>(
+  items: T[],
+  position: (item: T) => CursorPosition,
+  order: 'asc' | 'desc',
+  options: { limit?: number; cursor?: string }
+): Page<T> {
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const limit = pageSize(options);
+  const sign = order === 'asc' ? 1 : -1;
+
+  const sorted = items
+    .map((item) => ({ item, position: position(item) }))
+    .filter((entry) => !cursor || isAfterCursor(entry.position, cursor, order))
+    .sort((a, b) => sign * comparePositions(a.position, b.position))
+    .map((entry) => entry.item);
+
+  return toPage(sorted.slice(0, limit + 1), limit, position);
+}
@@ -0,0 +1,10 @@
+export {
+  createStorageConformanceTests,
+  describeStorageConformance,
+  StorageConformanceError,
+} from './storageConformance';
+export type {
+  StorageConformanceOptions,
+  StorageConformanceTest,
+  ConformanceRunner,
+} from './storageConformance';
@@ -0,0 +1,612 @@
+import {
+  AgentSDKError,
+  StorageAdapter,
+  UserMemoryStorage,
+  AgentConfig,
+  MessageData,
+} from '../types';
+
+/**
+ * Thrown when an adapter does not behave as the StorageAdapter contract requires
+ */
+export class StorageConformanceError extends AgentSDKError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageConformanceError';
+  }
+}
+
+export interface StorageConformanceOptions<T extends StorageAdapter = StorageAdapter> {
+  /**
+   * Create an empty adapter; called once per test
+   */
+  create: () => T | Promise<T>;
+
+  /**
+   * Release the adapter after each test (close connections, drop tables, ...)
+   */
+  destroy?: (storage: T) => void | Promise<void>;
+
+  /**
+   * Names of tests to leave out, e.g. for a known, documented difference
+   */
+  skip?: string[];
+}
+
+export interface StorageConformanceTest {
+  group: string;
+  name: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Test functions of the runner (Vitest, Jest, node:test, ...)
+ */
+export interface ConformanceRunner {
+  describe: (name: string, fn: () => void) => void;
+  it: (name: string, fn: () => Promise<void>) => void;
+}
+
+// ============================================================================
+// Assertions
+// ============================================================================
+
+function fail(message: string): never {
+  throw new StorageConformanceError(message);
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) fail(message);
+}
+
+/**
+ * Deep equality where Dates compare by time and undefined properties count as absent
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (actual instanceof Date || expected instanceof Date) {
+    return (
+      actual instanceof Date && expected instanceof Date && actual.getTime() === expected.getTime()
+    );
+  }
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((item, index) => isEqual(item, expected[index]))
+    );
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const keys = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+    return [...keys].every((key) =>
+      isEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key])
+    );
+  }
+  return actual === expected;
+}
+
+function assertEqual(actual: unknown, expected: unknown, label: string): void {
+  if (!isEqual(actual, expected)) {
+    fail(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function assertDate(value: unknown, label: string): asserts value is Date {
+  assert(
+    value instanceof Date && !isNaN(value.getTime()),
+    `${label} should be a valid Date, got ${JSON.stringify(value)}`
+  );
+}
+
+async function assertRejects(fn: () => Promise<unknown>, label: string): Promise<void> {
+  try {
+    await fn();
+  } catch {
+    return;
+  }
+  fail(`${label} should reject`);
+}
+
+/**
+ * Wait long enough for the next write to get a later timestamp
+ */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+// ============================================================================
+// Suite
+// ============================================================================
+
+const agentConfig = (overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+  name: 'Support',
+  description: 'Answers customer questions',
+  instructions: 'You are a helpful support agent.',
+  provider: 'openai',
+  model: 'gpt-4o',
+  userId: 'conformance-user',
+  ...overrides,
+});
+
+const contents = (messages: MessageData[]) => messages.map((m) => m.content);
+
+type TestBody<T extends StorageAdapter> = (storage: T) => Promise<void>;
+
+/**
+ * Build the StorageAdapter conformance tests for an adapter.
+ * Run them with any test runner, or use `describeStorageConformance`.
+ *
+ * @example
+ * ```typescript
+ * for (const test of createStorageConformanceTests({ create: () => new MyStorage() })) {
+ *   it(`${test.group} > ${test.name}`, test.run);
+ * }
+ * ```
+ */
+export function createStorageConformanceTests<T extends StorageAdapter>(
+  options: StorageConformanceOptions<T>
+): StorageConformanceTest[] {
+  const tests: StorageConformanceTest[] = [];
+
+  const test = (group: string, name: string, body: TestBody<T>) => {
+    if (options.skip?.includes(name)) return;
+    tests.push({
+      group,
+      name,
+      run: async () => {
+        const storage = await options.create();
+        try {
+          await body(storage);
+        } finally {
+          await options.destroy?.(storage);
+        }
+      },
+    });
+  };
+
+  // Tests of optional methods pass for adapters that leave them out, as the client falls back
+  const optionalTest = <K extends OptionalMethod>(
+    group: string,
+    name: string,
+    methods: K[],
+    body: (storage: T & Required<Pick<StorageAdapter, K>>) => Promise<void>
+  ) =>
+    test(group, name, async (storage) => {
+      if (!methods.every((method) => typeof storage[method] === 'function')) return;
+      await body(storage as T & Required<Pick<StorageAdapter, K>>);
+    });
+
+  // Agents ------------------------------------------------------------------
+
+  test('agents', 'creates and reads back an agent', async (storage) => {
+    const before = Date.now();
+    const id = await storage.createAgent(
+      agentConfig({ organizationId: 'org-1', metadata: { tier: 'gold', seats: 3 } })
+    );
+    const agent = await storage.getAgent(id);
+
+    assert(typeof id === 'string' && id.length > 0, 'createAgent should return a string ID');
+    assert(agent, 'getAgent should find the created agent');
+    assertEqual(agent.id, id, 'agent.id');
+    assertEqual(
+      {
+        name: agent.name,
+        description: agent.description,
+        instructions: agent.instructions,
+        provider: agent.provider,
+        model: agent.model,
+        userId: agent.userId,
+        organizationId: agent.organizationId,
+        metadata: agent.metadata,
+        files: agent.files,
+      },
+      {
+        name: 'Support',
+        description: 'Answers customer questions',
+        instructions: 'You are a helpful support agent.',
+        provider: 'openai',
+        model: 'gpt-4o',
+        userId: 'conformance-user',
+        organizationId: 'org-1',
+        metadata: { tier: 'gold', seats: 3 },
+        files: [],
+      },
+      'agent fields'
+    );
+    assertDate(agent.createdAt, 'agent.createdAt');
+    assertDate(agent.updatedAt, 'agent.updatedAt');
+    assert(agent.createdAt.getTime() >= before - 1000, 'agent.createdAt should be the creation time');
+  });
+
+  test('agents', 'updates an agent and bumps updatedAt', async (storage) => {
+    const id = await storage.createAgent(agentConfig());
+    const createdUpdatedAt = (await storage.getAgent(id))!.updatedAt.getTime();
+    await tick();
+
+    const addedAt = new Date();
+    await storage.updateAgent(id, {
+      instructions: 'Be brief.',
+      files: [{ fileId: 'file-1', filename: 'faq.md', contentType: 'text/markdown', addedAt }],
+    });
+    const updated = await storage.getAgent(id);
+
+    assertEqual(updated?.instructions, 'Be brief.', 'updated instructions');
+    assertEqual(updated?.name, 'Support', 'fields left out of the update');
+    assertDate(updated?.files[0]?.addedAt, 'agent.files[].addedAt');
+    assertEqual(updated?.files[0].addedAt, addedAt, 'agent.files[].addedAt');
+    assert(
+      updated!.updatedAt.getTime() > createdUpdatedAt,
+      'updateAgent should bump updatedAt'
+    );
+  });
+
+  test('agents', 'returns null for deleted agents', async (storage) => {
+    const id = await storage.createAgent(agentConfig());
+    await storage.deleteAgent(id);
+
+    assertEqual(await storage.getAgent(id), null, 'getAgent after deleteAgent');
+  });
+
+  test('agents', 'lists agents by user and organization, most recently updated first', async (storage) => {
+    const first = await storage.createAgent(agentConfig({ organizationId: 'org-1' }));
+    await tick();
+    const second = await storage.createAgent(agentConfig({ organizationId: 'org-2' }));
+    await tick();
+    await storage.createAgent(agentConfig({ userId: 'someone-else' }));
+    await tick();
+    await storage.updateAgent(first, { name: 'Renamed' });
+
+    const all = await storage.listAgents('conformance-user');
+    const inOrg = await storage.listAgents('conformance-user', 'org-2');
+
+    assertEqual(all.map((a) => a.id), [first, second], 'listAgents(userId)');
+    assertEqual(inOrg.map((a) => a.id), [second], 'listAgents(userId, organizationId)');
+  });
+
+  // Threads -----------------------------------------------------------------
+
+  test('threads', 'creates and reads back a thread', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const id = await storage.createThread({
+      agentId,
+      userId: 'conformance-user',
+      organizationId: 'org-1',
+      endUserId: 'end-user-1',
+      name: 'Billing question',
+      metadata: { channel: 'web' },
+    });
+    const thread = await storage.getThread(id);
+
+    assert(thread, 'getThread should find the created thread');
+    assertEqual(
+      {
+        id: thread.id,
+        agentId: thread.agentId,
+        userId: thread.userId,
+        organizationId: thread.organizationId,
+        endUserId: thread.endUserId,
+        name: thread.name,
+        metadata: thread.metadata,
+        messages: thread.messages,
+      },
+      {
+        id,
+        agentId,
+        userId: 'conformance-user',
+        organizationId: 'org-1',
+        endUserId: 'end-user-1',
+        name: 'Billing question',
+        metadata: { channel: 'web' },
+        messages: [],
+      },
+      'thread fields'
+    );
+    assertDate(thread.createdAt, 'thread.createdAt');
+    assertDate(thread.updatedAt, 'thread.updatedAt');
+  });
+
+  test('threads', 'updates a thread and clears fields set to undefined', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const id = await storage.createThread({ agentId, userId: 'conformance-user', name: 'Draft' });
+    const summaryDate = new Date();
+
+    await storage.updateThread(id, {
+      metadata: { resolved: true },
+      summary: { content: 'Asked about billing', lastMessageId: 'm1', messageCount: 2, updatedAt: summaryDate },
+    });
+    await storage.updateThread(id, { name: undefined });
+    const thread = await storage.getThread(id);
+
+    assertEqual(thread?.metadata, { resolved: true }, 'thread.metadata');
+    assert(thread?.name == null, 'updateThread({ name: undefined }) should clear the name');
+    assertDate(thread?.summary?.updatedAt, 'thread.summary.updatedAt');
+    assertEqual(thread?.summary?.updatedAt, summaryDate, 'thread.summary.updatedAt');
+    assertEqual(thread?.summary?.content, 'Asked about billing', 'thread.summary.content');
+  });
+
+  test('threads', 'filters threads by user, agent and organization', async (storage) => {
+    const agentA = await storage.createAgent(agentConfig());
+    const agentB = await storage.createAgent(agentConfig());
+    const first = await storage.createThread({ agentId: agentA, userId: 'conformance-user', organizationId: 'org-1' });
+    const second = await storage.createThread({ agentId: agentB, userId: 'conformance-user' });
+    const other = await storage.createThread({ agentId: agentA, userId: 'someone-else' });
+
+    const ids = async (filters: Parameters<StorageAdapter['listThreads']>[0]) =>
+      (await storage.listThreads(filters)).map((t) => t.id).sort();
+
+    assertEqual(await ids({ userId: 'conformance-user' }), [first, second].sort(), 'by userId');
+    assertEqual(await ids({ agentId: agentA }), [first, other].sort(), 'by agentId');
+    assertEqual(await ids({ organizationId: 'org-1' }), [first], 'by organizationId');
+    assertEqual(await ids({ userId: 'someone-else', agentId: agentB }), [], 'by userId and agentId');
+  });
+
+  test('threads', 'lists threads most recently updated first', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const first = await storage.createThread({ agentId, userId: 'conformance-user' });
+    await tick();
+    const second = await storage.createThread({ agentId, userId: 'conformance-user' });
+    await tick();
+    await storage.addMessage(first, 'user', 'Hello again');
+
+    const threads = await storage.listThreads({ agentId });
+
+    assertEqual(threads.map((t) => t.id), [first, second], 'listThreads order');
+  });
+
+  // Messages ----------------------------------------------------------------
+
+  test('messages', 'adds messages and returns them in order', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    const before = Date.now();
+
+    const ids = [
+      await storage.addMessage(threadId, 'user', 'One'),
+      await storage.addMessage(threadId, 'assistant', 'Two'),
+      await storage.addMessage(threadId, 'user', 'Three'),
+    ];
+    const messages = await storage.getMessages(threadId);
+
+    assertEqual(new Set(ids).size, 3, 'addMessage should return unique IDs');
+    assertEqual(messages.map((m) => m.id), ids, 'message IDs in insertion order');
+    assertEqual(messages.map((m) => m.role), ['user', 'assistant', 'user'], 'message roles');
+    assertEqual(contents(messages), ['One', 'Two', 'Three'], 'message contents');
+    for (const message of messages) {
+      assertDate(message.timestamp, 'message.timestamp');
+      assert(message.timestamp.getTime() >= before - 1000, 'message.timestamp should be the time it was added');
+    }
+    assertEqual(contents((await storage.getThread(threadId))!.messages), ['One', 'Two', 'Three'], 'thread.messages');
+  });
+
+  test('messages', 'returns the last N messages, oldest first', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    for (const content of ['One', 'Two', 'Three', 'Four']) {
+      await storage.addMessage(threadId, 'user', content);
+    }
+
+    assertEqual(contents(await storage.getMessages(threadId, 2)), ['Three', 'Four'], 'getMessages(threadId, 2)');
+    assertEqual(
+      await storage.getConversationContext(threadId, 1),
+      [{ role: 'user', content: 'Four' }],
+      'getConversationContext(threadId, 1)'
+    );
+  });
+
+  test('messages', 'round-trips parts, attachments and metadata', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    const attachments = [{ fileId: 'file-1', filename: 'invoice.pdf', contentType: 'application/pdf', size: 1024 }];
+    const parts = [
+      { type: 'tool-call' as const, toolCallId: 'call-1', toolName: 'lookup', args: { id: 7 } },
+    ];
+
+    await storage.addMessage(threadId, 'user', 'See attached', attachments);
+    await storage.addMessage(threadId, 'assistant', '', undefined, { parts, metadata: { model: 'gpt-4o' } });
+    const [user, assistant] = await storage.getMessages(threadId);
+
+    assertEqual(user.attachments, attachments, 'message.attachments');
+    assertEqual(assistant.parts, parts, 'message.parts');
+    assertEqual(assistant.metadata, { model: 'gpt-4o' }, 'message.metadata');
+  });
+
+  optionalTest('messages', 'updates and deletes messages', ['updateMessage', 'deleteMessages'], async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    const first = await storage.addMessage(threadId, 'user', 'Helo');
+    const second = await storage.addMessage(threadId, 'assistant', 'Hi!');
+    const third = await storage.addMessage(threadId, 'user', 'Bye');
+
+    await storage.updateMessage(threadId, first, { content: 'Hello', metadata: { edited: true } });
+    await storage.deleteMessages(threadId, [second, third]);
+    const messages = await storage.getMessages(threadId);
+
+    assertEqual(messages.map((m) => [m.id, m.content]), [[first, 'Hello']], 'messages after update and delete');
+    assertEqual(messages[0].metadata, { edited: true }, 'updated message.metadata');
+  });
+
+  test('messages', 'rejects messages for deleted threads', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    await storage.deleteThread(threadId);
+
+    await assertRejects(() => storage.addMessage(threadId, 'user', 'Hello?'), 'addMessage to a deleted thread');
+  });
+
+  optionalTest('messages', 'forks a thread up to a message with new message IDs', ['forkThread'], async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    const first = await storage.addMessage(threadId, 'user', 'One');
+    const second = await storage.addMessage(threadId, 'assistant', 'Two');
+    await storage.addMessage(threadId, 'user', 'Three');
+
+    const forkId = await storage.forkThread(threadId, { agentId, userId: 'conformance-user', name: 'Fork' }, second);
+    const fork = await storage.getThread(forkId);
+
+    assert(forkId !== threadId, 'forkThread should create a new thread');
+    assertEqual(fork?.name, 'Fork', 'fork.name');
+    assertEqual(contents(fork!.messages), ['One', 'Two'], 'forked messages');
+    assert(
+      fork!.messages.every((m) => m.id !== first && m.id !== second),
+      'forked messages should get new IDs'
+    );
+    assertEqual((await storage.getMessages(threadId)).length, 3, 'source thread messages');
+  });
+
+  // Pagination --------------------------------------------------------------
+
+  optionalTest('pagination', 'pages through threads without gaps or repeats', ['listThreadsPage'], async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const created: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      created.push(await storage.createThread({ agentId, userId: 'conformance-user' }));
+      await tick();
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await storage.listThreadsPage({ agentId }, { limit: 2, sortBy: 'createdAt', order: 'asc', cursor });
+      seen.push(...page.items.map((t) => t.id));
+      cursor = page.nextCursor;
+      assert(++pages <= 5, 'listThreadsPage should stop returning cursors');
+    } while (cursor);
+
+    assertEqual(seen, created, 'threads across pages');
+  });
+
+  optionalTest('pagination', 'filters pages by date range and metadata', ['listThreadsPage'], async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    await storage.createThread({ agentId, userId: 'conformance-user', metadata: { channel: 'web' } });
+    await tick();
+    const start = new Date();
+    await tick();
+    const match = await storage.createThread({ agentId, userId: 'conformance-user', metadata: { channel: 'web' } });
+    await storage.createThread({ agentId, userId: 'conformance-user', metadata: { channel: 'sms' } });
+
+    const page = await storage.listThreadsPage(
+      { userId: 'conformance-user' },
+      { createdAfter: start, metadata: { channel: 'web' } }
+    );
+
+    assertEqual(page.items.map((t) => t.id), [match], 'filtered threads');
+    assertEqual(page.nextCursor, undefined, 'nextCursor on the last page');
+  });
+
+  optionalTest('pagination', 'pages through messages newest first', ['listMessagesPage'], async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    for (const content of ['One', 'Two', 'Three']) {
+      await storage.addMessage(threadId, 'user', content);
+      await tick();
+    }
+
+    const first = await storage.listMessagesPage(threadId, { limit: 2 });
+    const second = await storage.listMessagesPage(threadId, { limit: 2, cursor: first.nextCursor });
+
+    assertEqual(contents(first.items), ['Three', 'Two'], 'first page');
+    assertEqual(contents(second.items), ['One'], 'second page');
+    assertEqual(second.nextCursor, undefined, 'nextCursor on the last page');
+  });
+
+  // Deletes -----------------------------------------------------------------
+
+  test('deletes', 'deletes a thread with its messages', async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    await storage.addMessage(threadId, 'user', 'Hello');
+
+    await storage.deleteThread(threadId);
+
+    assertEqual(await storage.getThread(threadId), null, 'getThread after deleteThread');
+    assertEqual(await storage.getMessages(threadId), [], 'getMessages after deleteThread');
+    assertEqual(await storage.listThreads({ agentId }), [], 'listThreads after deleteThread');
+  });
+
+  test('deletes', "cascades agent deletion to the agent's threads", async (storage) => {
+    const agentId = await storage.createAgent(agentConfig());
+    const otherAgentId = await storage.createAgent(agentConfig());
+    const threadId = await storage.createThread({ agentId, userId: 'conformance-user' });
+    const otherThreadId = await storage.createThread({ agentId: otherAgentId, userId: 'conformance-user' });
+    await storage.addMessage(threadId, 'user', 'Hello');
+
+    await storage.deleteAgent(agentId);
+
+    assertEqual(await storage.getThread(threadId), null, "agent's thread after deleteAgent");
+    assertEqual(await storage.getMessages(threadId), [], "agent's messages after deleteAgent");
+    assertEqual(
+      (await storage.listThreads({ userId: 'conformance-user' })).map((t) => t.id),
+      [otherThreadId],
+      'remaining threads'
+    );
+  });
+
+  // User memory (adapters that also implement UserMemoryStorage) -------------
+
+  const userMemoryTest = (name: string, body: (storage: T & UserMemoryStorage) => Promise<void>) =>
+    test('user memory', name, async (storage) => {
+      if (!isUserMemoryStorage(storage)) return;
+      await body(storage);
+    });
+
+  userMemoryTest('stores, updates and deletes user memories', async (storage) => {
+    const id = await storage.addUserMemory({ endUserId: 'end-user-1', content: 'Prefers email', category: 'preference' });
+    await storage.addUserMemory({ endUserId: 'end-user-1', content: 'Lives in Lisbon', category: 'identity' });
+    await storage.addUserMemory({ endUserId: 'end-user-2', content: 'Prefers SMS' });
+    await storage.updateUserMemory(id, { content: 'Prefers email, never calls' });
+
+    const entry = await storage.getUserMemory(id);
+    const preferences = await storage.listUserMemories('end-user-1', { category: 'preference' });
+
+    assertEqual(entry?.content, 'Prefers email, never calls', 'updated memory content');
+    assertDate(entry?.createdAt, 'memory.createdAt');
+    assertDate(entry?.updatedAt, 'memory.updatedAt');
+    assertEqual(preferences.map((m) => m.id), [id], 'listUserMemories by category');
+    assertEqual(await storage.deleteUserMemories('end-user-1'), 2, 'deleteUserMemories count');
+    assertEqual(await storage.getUserMemory(id), null, 'getUserMemory after delete');
+    assertEqual((await storage.listUserMemories('end-user-2')).length, 1, "other end users' memories");
+  });
+
+  return tests;
+}
+
+/**
+ * Register the conformance tests with a test runner, grouped with `describe`
+ *
+ * @example
+ * ```typescript
+ * import { describe, it } from 'vitest';
+ * import { describeStorageConformance } from '@snap-agent/core/testing';
+ *
+ * describeStorageConformance('MyStorage', { create: () => new MyStorage() }, { describe, it });
+ * ```
+ */
+export function describeStorageConformance<T extends StorageAdapter>(
+  name: string,
+  options: StorageConformanceOptions<T>,
+  runner: ConformanceRunner
+): void {
+  const tests = createStorageConformanceTests(options);
+  const groups = [...new Set(tests.map((test) => test.group))];
+
+  runner.describe(`${name} (StorageAdapter conformance)`, () => {
+    for (const group of groups) {
+      runner.describe(group, () => {
+        for (const test of tests.filter((t) => t.group === group)) {
+          runner.it(test.name, test.run);
+        }
+      });
+    }
+  });
+}
+
+type OptionalMethod =
+  | 'listAgentsPage'
+  | 'listThreadsPage'
+  | 'listMessagesPage'
+  | 'updateMessage'
+  | 'deleteMessages'
+  | 'forkThread';
+
+function isUserMemoryStorage(storage: StorageAdapter): storage is StorageAdapter & UserMemoryStorage {
+  return typeof (storage as Partial<UserMemoryStorage>).addUserMemory === 'function';
+}
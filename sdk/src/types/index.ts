@@ -1,23 +1,47 @@
-import type { Plugin, StoredPluginConfig } from './plugins';
+import type { Schema, DeepPartial, LanguageModel } from 'ai';
+import type { Plugin, RAGContext, StoredPluginConfig } from './plugins';
+import type { MockProvider } from '../providers/MockProvider';
 
 // ============================================================================
 // Provider Types
 // ============================================================================
 
-export type ProviderType = 'openai' | 'anthropic' | 'google';
+/**
+ * Provider name used by agents
+ * Besides the built-in providers, this can be the name of an OpenAI-compatible
+ * endpoint from `ProviderConfig.compatible` or a provider registered at runtime
+ */
+export type ProviderType = 'openai' | 'anthropic' | 'google' | 'mock' | (string & {});
+
+export interface ProviderSettings {
+  apiKey: string;
+  baseURL?: string; // Override the API endpoint (e.g. a proxy or gateway)
+  headers?: Record<string, string>; // Extra headers sent with every request
+}
+
+/**
+ * Endpoint implementing the OpenAI chat completions API
+ * (vLLM, Ollama, LM Studio, Azure OpenAI v1, ...)
+ */
+export interface CompatibleProviderSettings {
+  baseURL: string; // e.g. 'http://localhost:11434/v1' for Ollama
+  apiKey?: string; // Local servers usually don't need one
+  headers?: Record<string, string>;
+}
 
 export interface ProviderConfig {
-  openai?: {
-    apiKey: string;
-  };
-  anthropic?: {
-    apiKey: string;
-  };
-  google?: {
-    apiKey: string;
-  };
+  openai?: ProviderSettings;
+  anthropic?: ProviderSettings;
+  google?: ProviderSettings;
+  compatible?: Record<string, CompatibleProviderSettings>; // Keyed by provider name
+  mock?: MockProvider; // Scripted offline provider for tests
 }
 
+/**
+ * Creates models for a provider registered at runtime
+ */
+export type CustomProviderFactory = (modelName: string) => LanguageModel | Promise<LanguageModel>;
+
 // ============================================================================
 // Agent Types
 // ============================================================================
@@ -69,6 +93,54 @@ export interface AgentConfig {
   plugins?: Plugin[]; // Runtime plugin instances (not persisted)
   pluginConfigs?: StoredPluginConfig[]; // Serializable plugin configs (persisted to storage)
   rag?: RAGConfig; // Zero-config RAG support
+  maxToolSteps?: number; // Max model steps when tool plugins are attached (default: 5)
+  fallbacks?: ModelFallback[]; // Provider/model pairs tried in order when the primary model fails
+  retryPolicy?: RetryPolicy; // Retries per provider/model pair before falling back
+  memory?: MemoryConfig; // How conversation history is windowed (default: last `contextLength` messages)
+  handoffs?: HandoffTarget[]; // Agents the model can transfer the conversation to
+}
+
+/**
+ * Agent that a conversation can be handed off to
+ */
+export interface HandoffTarget {
+  agentId: string;
+  description: string; // When to hand off, shown to the model
+}
+
+/**
+ * Handoff between agents, recorded in the thread's metadata
+ */
+export interface HandoffRecord {
+  fromAgentId: string;
+  toAgentId: string;
+  reason?: string; // Reason given by the model
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Provider/model pair used when the agent's primary model fails
+ */
+export interface ModelFallback {
+  provider: ProviderType;
+  model: string;
+}
+
+/**
+ * Classes of provider errors that can be retried
+ * - rate_limit: HTTP 429
+ * - server: HTTP 5xx
+ * - timeout: HTTP 408 or request timeouts
+ * - network: connection failures without an HTTP response
+ */
+export type RetryableErrorClass = 'rate_limit' | 'server' | 'timeout' | 'network';
+
+export interface RetryPolicy {
+  maxRetries?: number; // Retries per provider/model pair (default: 2)
+  initialDelayMs?: number; // Delay before the first retry (default: 2000)
+  backoffMultiplier?: number; // Delay growth per retry (default: 2)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 30000)
+  retryOn?: RetryableErrorClass[]; // Error classes to retry (default: all)
 }
 
 export interface AgentData extends AgentConfig {
@@ -81,9 +153,26 @@ export interface AgentData extends AgentConfig {
 export interface AgentFile {
   fileId: string;
   filename: string;
+  contentType?: string;
   addedAt: Date;
 }
 
+// ============================================================================
+// Memory Types
+// ============================================================================
+
+/**
+ * Conversation memory strategy
+ * - sliding-window: send the last `maxMessages` messages (default: 20)
+ * - summary-buffer: send recent messages plus a running summary of older ones
+ * - token-budget: send as many recent messages as fit in `maxTokens`,
+ *   optionally summarizing the ones that no longer fit
+ */
+export type MemoryConfig =
+  | { strategy: 'sliding-window'; maxMessages?: number }
+  | { strategy: 'summary-buffer'; maxMessages?: number }
+  | { strategy: 'token-budget'; maxTokens: number; summarize?: boolean };
+
 // ============================================================================
 // Thread Types
 // ============================================================================
@@ -95,6 +184,17 @@ export interface ThreadConfig {
   metadata?: Record<string, any>;
   organizationId?: string;
   endUserId?: string;
+  summary?: ThreadSummary; // Maintained by the agent's memory strategy
+}
+
+/**
+ * Running summary of messages that fell out of the conversation window
+ */
+export interface ThreadSummary {
+  content: string;
+  lastMessageId: string; // Last message folded into the summary
+  messageCount: number; // Number of messages folded into the summary
+  updatedAt: Date;
 }
 
 export interface ThreadData extends ThreadConfig {
@@ -109,17 +209,65 @@ export interface ThreadData extends ThreadConfig {
 // Message Types
 // ============================================================================
 
-export type MessageRole = 'user' | 'assistant' | 'system';
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolCallContentPart {
+  type: 'tool-call';
+  toolCallId: string;
+  toolName: string;
+  args: any;
+}
+
+export interface ToolResultContentPart {
+  type: 'tool-result';
+  toolCallId: string;
+  toolName: string;
+  result?: any;
+  isError?: boolean; // When true, result holds the error message
+}
+
+/**
+ * Structured message content, used to persist tool calls and their results
+ * so they can be replayed to the provider on later turns
+ */
+export type MessageContentPart =
+  | TextContentPart
+  | ToolCallContentPart
+  | ToolResultContentPart;
 
 export interface MessageData {
   id: string;
   role: MessageRole;
-  content: string;
+  content: string; // Plain-text content (always present, may be empty for tool messages)
+  parts?: MessageContentPart[];
   timestamp: Date;
   metadata?: Record<string, any>;
   attachments?: MessageAttachment[];
 }
 
+/**
+ * Optional extras when adding a message to a thread
+ */
+export interface AddMessageOptions {
+  parts?: MessageContentPart[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Changes to an existing message
+ */
+export interface MessageUpdate {
+  content?: string;
+  parts?: MessageContentPart[];
+  attachments?: MessageAttachment[];
+  metadata?: Record<string, any>; // Replaces the message's metadata
+}
+
 export interface MessageAttachment {
   fileId: string;
   filename: string;
@@ -131,32 +279,250 @@ export interface MessageAttachment {
 // Chat Types
 // ============================================================================
 
-export interface ChatRequest {
+/**
+ * Token-budgeted context for a chat turn
+ * History (and RAG context, if needed) is trimmed so the prompt fits the
+ * model's context window with room left for the completion
+ */
+export interface TokenBudgetOptions {
+  maxContextTokens?: number; // Override the model's context window
+  reserveTokens?: number; // Tokens kept free for the completion (default: 4096, at most a quarter of the window)
+}
+
+/**
+ * Structured output configuration
+ * - 'json': flexible JSON, parsed without validation
+ * - 'object': validated against a schema (use jsonSchema<T>() from 'ai')
+ */
+export type OutputConfig<T = unknown> =
+  | { mode: 'json' }
+  | { mode: 'object'; schema: Schema<T> };
+
+export interface ChatRequest<T = unknown> {
   threadId: string;
   message: string;
   attachments?: MessageAttachment[];
   useRAG?: boolean; // Enable RAG plugins
   ragFilters?: Record<string, any>; // Filters for RAG plugins
   contextLength?: number; // Number of messages to include in context (default: 20)
+  tokenBudget?: boolean | TokenBudgetOptions; // Fit history and RAG context to the model's context window
+  output?: OutputConfig<T>; // Structured output mode
+  signal?: AbortSignal; // Cancels the turn; the partial reply is saved as a cancelled message
+}
+
+/**
+ * Request to replace a reply with a newly generated one
+ */
+export type RegenerateRequest<T = unknown> = Omit<ChatRequest<T>, 'message' | 'attachments'> & {
+  /**
+   * Message to regenerate from (default: the last user message)
+   * A user message keeps that message; an assistant or tool message regenerates the
+   * reply to the user message before it. Every later message is deleted.
+   */
+  messageId?: string;
+};
+
+/**
+ * Options for forking a thread
+ */
+export interface ForkThreadOptions {
+  messageId?: string; // Last message copied into the fork (default: all messages)
+  name?: string; // Default: the source thread's name
+  metadata?: Record<string, any>; // Merged over the source thread's metadata
 }
 
-export interface ChatResponse {
+export interface ChatResponse<T = unknown> {
   reply: string;
+  parsed?: T; // Parsed structured output (when request.output is set)
   messageId: string;
   threadId: string;
   timestamp: Date;
   metadata?: Record<string, any>; // Plugin metadata
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: TokenUsage;
+  pendingToolCalls?: PendingToolCall[]; // Set when the turn stopped for human approval
+  agentId?: string; // Agent that produced the reply
+  handoffs?: HandoffRecord[]; // Handoffs made during the turn, in order
+}
+
+/**
+ * Token counts reported by the provider for a turn
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost?: number; // Set when ClientConfig.modelCosts has the agent's model
 }
 
-export interface StreamCallbacks {
+/**
+ * Record of a single tool invocation made by the model during a turn
+ */
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  args: any;
+  result?: any;
+  error?: string;
+  usage?: TokenUsage; // Tokens spent inside the tool, e.g. by a sub-agent
+}
+
+/**
+ * Tool call awaiting human approval before it can be executed
+ */
+export interface PendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  args: any;
+}
+
+/**
+ * Options for the turn resumed by approving or rejecting a tool call
+ * Structured output and cancellation are not stored with the pending call, so pass them again
+ */
+export interface ResolveToolCallOptions<T = unknown> {
+  output?: OutputConfig<T>; // Structured output mode for the resumed reply
+  signal?: AbortSignal; // Cancels the tool execution and the resumed turn
+}
+
+export interface StreamCallbacks<T = unknown> {
   onChunk: (chunk: string) => void;
   onComplete: (fullResponse: string, metadata?: Record<string, any>) => void;
   onError: (error: Error) => void;
+  onPartialObject?: (partialObject: DeepPartial<T>) => void; // Structured output only
+  onSources?: (sources: RAGSource[]) => void; // Sources retrieved by RAG plugins
+  onToolCall?: (toolCall: ToolCallRecord, pendingApproval: boolean) => void; // Executed or held tool call
+  onUsage?: (usage: TokenUsage) => void; // Token usage once the stream finishes
+  onHandoff?: (handoff: HandoffRecord) => void; // The conversation moved to another agent
+}
+
+/**
+ * Source document retrieved by a RAG plugin
+ */
+export type RAGSource = NonNullable<RAGContext['sources']>[number] & {
+  pluginName: string;
+};
+
+/**
+ * Event yielded by the async-iterator streaming API
+ */
+export type StreamEvent<T = unknown> =
+  | { type: 'text-delta'; text: string }
+  | { type: 'partial-object'; object: DeepPartial<T> }
+  | { type: 'sources'; sources: RAGSource[] }
+  | { type: 'tool-call'; toolCall: ToolCallRecord; pendingApproval: boolean }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'handoff'; handoff: HandoffRecord }
+  | { type: 'done'; response: string; parsed?: T; metadata?: Record<string, any> };
+
+// ============================================================================
+// Pagination Types
+// ============================================================================
+
+/**
+ * Cursor pagination, sorting and filters for agent and thread listings
+ */
+export interface ListOptions {
+  limit?: number; // Page size (default: 50)
+  cursor?: string; // `nextCursor` of the previous page
+  sortBy?: 'createdAt' | 'updatedAt'; // Default: 'updatedAt'
+  order?: 'asc' | 'desc'; // Default: 'desc'
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  metadata?: Record<string, string | number | boolean>; // Exact matches on metadata fields
+}
+
+/**
+ * Cursor pagination and filters for a thread's messages, ordered by timestamp
+ */
+export interface MessageListOptions {
+  limit?: number; // Page size (default: 50)
+  cursor?: string; // `nextCursor` of the previous page
+  order?: 'asc' | 'desc'; // Default: 'desc' (newest first)
+  after?: Date;
+  before?: Date;
+  role?: MessageRole;
+}
+
+/**
+ * A page of results
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string; // Set when more items follow
+}
+
+export interface AgentFilters {
+  userId: string;
+  organizationId?: string;
+}
+
+export interface ThreadFilters {
+  userId?: string;
+  agentId?: string;
+  organizationId?: string;
+  endUserId?: string;
+}
+
+// ============================================================================
+// File Storage Types
+// ============================================================================
+
+/**
+ * Contents of a stored file
+ */
+export interface FileContent {
+  data: Uint8Array;
+  contentType?: string;
+}
+
+/**
+ * Read access to stored files
+ * Used to send image and PDF attachments to the model as content parts
+ */
+export interface FileResolver {
+  get(fileId: string): Promise<FileContent | null>;
+}
+
+export interface FileInfo {
+  fileId: string;
+  filename?: string;
+  contentType?: string;
+  size: number; // Bytes
+  metadata?: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface StoredFile extends FileInfo {
+  data: Uint8Array;
+}
+
+export interface PutFileOptions {
+  filename?: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Storage for file contents (agent files and message attachments)
+ * Built in: MemoryFileStorage, LocalFileStorage and S3FileStorage
+ */
+export interface FileStorageAdapter extends FileResolver {
+  put(fileId: string, data: Uint8Array | string, options?: PutFileOptions): Promise<FileInfo>;
+  get(fileId: string): Promise<StoredFile | null>;
+  delete(fileId: string): Promise<void>;
+  list(options?: { prefix?: string }): Promise<FileInfo[]>;
+}
+
+/**
+ * A file uploaded to an agent with AgentClient.addAgentFiles
+ */
+export interface AgentFileUpload {
+  fileId?: string; // Generated when omitted
+  filename: string;
+  contentType: string;
+  data: Uint8Array | string;
 }
 
 // ============================================================================
@@ -167,15 +533,15 @@ export interface StorageAdapter {
   // Agent operations
   createAgent(config: AgentConfig): Promise<string>;
   getAgent(agentId: string): Promise<AgentData | null>;
-  updateAgent(agentId: string, updates: Partial<AgentConfig>): Promise<void>;
-  deleteAgent(agentId: string): Promise<void>;
+  updateAgent(agentId: string, updates: Partial<AgentConfig & Pick<AgentData, 'files'>>): Promise<void>;
+  deleteAgent(agentId: string): Promise<void>; // Also deletes the agent's threads and their messages
   listAgents(userId: string, organizationId?: string): Promise<AgentData[]>;
 
   // Thread operations
   createThread(config: ThreadConfig): Promise<string>;
   getThread(threadId: string): Promise<ThreadData | null>;
   updateThread(threadId: string, updates: Partial<ThreadConfig>): Promise<void>;
-  deleteThread(threadId: string): Promise<void>;
+  deleteThread(threadId: string): Promise<void>; // Also deletes the thread's messages
   listThreads(filters: {
     userId?: string;
     agentId?: string;
@@ -187,10 +553,148 @@ export interface StorageAdapter {
     threadId: string,
     role: MessageRole,
     content: string,
-    attachments?: MessageAttachment[]
+    attachments?: MessageAttachment[],
+    options?: AddMessageOptions
   ): Promise<string>;
   getMessages(threadId: string, limit?: number): Promise<MessageData[]>;
   getConversationContext(threadId: string, maxMessages?: number): Promise<Array<{ role: string; content: string }>>;
+
+  // Optional operations, added after the first release. Without them the client pages the
+  // results of the list methods in memory and forks by re-adding messages; editing and
+  // deleting messages throw StorageMethodNotSupportedError
+  listAgentsPage?(filters: AgentFilters, options?: ListOptions): Promise<Page<AgentData>>;
+  listThreadsPage?(filters: ThreadFilters, options?: ListOptions): Promise<Page<ThreadData>>;
+  listMessagesPage?(threadId: string, options?: MessageListOptions): Promise<Page<MessageData>>;
+  updateMessage?(threadId: string, messageId: string, updates: MessageUpdate): Promise<void>;
+  deleteMessages?(threadId: string, messageIds: string[]): Promise<void>;
+
+  /**
+   * Create a thread from `config` holding copies of another thread's messages,
+   * up to and including `upToMessageId` (default: all). Copies get new IDs.
+   */
+  forkThread?(threadId: string, config: ThreadConfig, upToMessageId?: string): Promise<string>;
+}
+
+// ============================================================================
+// User Memory Types
+// ============================================================================
+
+/**
+ * Long-term fact about an end user, shared across all of their threads
+ */
+export interface UserMemoryEntry {
+  id: string;
+  endUserId: string;
+  organizationId?: string;
+  content: string; // e.g. "Prefers to be contacted by email"
+  category?: string; // e.g. 'preference', 'identity'
+  agentId?: string; // Agent that learned the fact
+  threadId?: string; // Thread the fact was extracted from
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserMemoryInput = Omit<UserMemoryEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UserMemoryUpdate = Partial<Pick<UserMemoryEntry, 'content' | 'category' | 'metadata'>>;
+
+/**
+ * Storage for long-term user memory
+ * MemoryStorage, MongoDBStorage and UpstashStorage implement it next to StorageAdapter
+ */
+export interface UserMemoryStorage {
+  addUserMemory(entry: UserMemoryInput): Promise<string>;
+  getUserMemory(memoryId: string): Promise<UserMemoryEntry | null>;
+  listUserMemories(
+    endUserId: string,
+    filters?: { organizationId?: string; category?: string }
+  ): Promise<UserMemoryEntry[]>;
+  updateUserMemory(memoryId: string, updates: UserMemoryUpdate): Promise<void>;
+  deleteUserMemory(memoryId: string): Promise<void>;
+  deleteUserMemories(endUserId: string): Promise<number>; // Returns the number of entries removed
+}
+
+export interface UserMemoryConfig {
+  storage: UserMemoryStorage;
+  maxResults?: number; // Facts added to the prompt per turn (default: 5)
+  extract?: boolean; // Extract new facts after each turn (default: true)
+}
+
+// ============================================================================
+// Retention Types
+// ============================================================================
+
+export interface RetentionPolicy {
+  deleteThreadsAfterDays?: number; // Delete threads with no new messages for this many days
+  redactMessagesAfterDays?: number; // Redact the content of messages older than this many days
+  redactedContent?: string; // Content that replaces redacted messages (default: '[redacted]')
+}
+
+export interface RetentionSweepOptions extends RetentionPolicy {
+  filters?: ThreadFilters; // Only sweep these threads (UpstashStorage needs at least one)
+  now?: Date; // Reference time for the cutoffs (default: now)
+}
+
+export interface RetentionSweepResult {
+  threadsDeleted: number;
+  messagesRedacted: number;
+}
+
+export interface AgentDeletionResult {
+  threadsDeleted: number;
+  documentsDeleted: number; // Documents removed from the agent's RAG plugins
+  filesDeleted: number; // Agent files removed from the file storage
+}
+
+// ============================================================================
+// End User Data Types
+// ============================================================================
+
+export interface AnalyticsRecords {
+  requests: Record<string, any>[];
+  responses: Record<string, any>[];
+  errors: Record<string, any>[];
+}
+
+export interface AnalyticsRecordCounts {
+  requests: number;
+  responses: number;
+  errors: number;
+}
+
+/**
+ * Analytics records looked up by thread, for end user data requests
+ * SnapAgentAnalytics and every AnalyticsStorage from @snap-agent/analytics implement it
+ */
+export interface AnalyticsRecordStore {
+  getThreadRecords(threadIds: string[]): Promise<AnalyticsRecords>;
+  deleteThreadRecords(threadIds: string[]): Promise<AnalyticsRecordCounts>;
+}
+
+/**
+ * Everything held about an end user; JSON.stringify it for a portable file
+ */
+export interface EndUserDataExport {
+  version: 1;
+  endUserId: string;
+  exportedAt: Date;
+  threads: ThreadData[]; // With their messages
+  memories: UserMemoryEntry[];
+  analytics?: AnalyticsRecords; // Records of the threads above
+}
+
+export interface EndUserErasureReport {
+  endUserId: string;
+  startedAt: Date;
+  completedAt: Date;
+  threadIds: string[]; // Deleted threads
+  threadsDeleted: number;
+  messagesDeleted: number;
+  memoriesDeleted: number;
+  filesDeleted: number; // Message attachments removed from the file storage
+  analytics?: AnalyticsRecordCounts;
+  skipped: string[]; // Data that was not erased because no store for it is configured
 }
 
 // ============================================================================
@@ -215,6 +719,38 @@ export interface ClientConfig {
    * reinstantiate their plugins from stored configurations
    */
   pluginRegistry?: PluginRegistryInterface;
+  /**
+   * Optional per-model pricing (USD per 1K tokens) used to estimate
+   * the cost of each turn in ChatResponse.usage
+   */
+  modelCosts?: Record<string, { input: number; output: number }>;
+  /**
+   * Optional context window sizes (in tokens) for models not in MODEL_CONTEXT_LIMITS,
+   * or to override them; used by ChatRequest.tokenBudget
+   */
+  modelContextLimits?: Record<string, number>;
+  /**
+   * Optional long-term memory for end users: facts learned in one thread
+   * are recalled in the user's other threads
+   */
+  userMemory?: UserMemoryConfig;
+  /**
+   * Optional file store for agent files and message attachments
+   * Attached images and PDFs are resolved through it and sent to the model as content parts
+   */
+  fileStorage?: FileStorageAdapter;
+  /**
+   * Ingest text files added with addAgentFiles into the agent's RAG plugins (default: false)
+   */
+  autoIngestFiles?: boolean;
+  /**
+   * Optional data retention policy, applied when client.sweep() is called
+   */
+  retention?: RetentionPolicy;
+  /**
+   * Optional analytics records to include in exportEndUserData and eraseEndUserData
+   */
+  analyticsStorage?: AnalyticsRecordStore;
 }
 
 // ============================================================================
@@ -256,6 +792,48 @@ export class ProviderNotFoundError extends AgentSDKError {
   }
 }
 
+export class ToolCallNotFoundError extends AgentSDKError {
+  constructor(toolCallId: string) {
+    super(`Pending tool call not found: ${toolCallId}`);
+    this.name = 'ToolCallNotFoundError';
+  }
+}
+
+export class RequestCancelledError extends AgentSDKError {
+  constructor(public partialResponse: string = '') {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class MessageNotFoundError extends AgentSDKError {
+  constructor(messageId: string) {
+    super(`Message not found: ${messageId}`);
+    this.name = 'MessageNotFoundError';
+  }
+}
+
+export class InvalidCursorError extends AgentSDKError {
+  constructor(cursor: string) {
+    super(`Invalid pagination cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export class UserMemoryNotFoundError extends AgentSDKError {
+  constructor(memoryId: string) {
+    super(`User memory not found: ${memoryId}`);
+    this.name = 'UserMemoryNotFoundError';
+  }
+}
+
+export class StorageMethodNotSupportedError extends AgentSDKError {
+  constructor(method: string) {
+    super(`Storage adapter does not implement ${method}`);
+    this.name = 'StorageMethodNotSupportedError';
+  }
+}
+
 export class InvalidConfigError extends AgentSDKError {
   constructor(message: string) {
     super(`Invalid configuration: ${message}`);
@@ -284,6 +862,7 @@ export type {
   URLIngestResult,
   ToolPlugin,
   Tool,
+  ToolExecutionContext,
   MiddlewarePlugin,
   AnalyticsPlugin,
   // Analytics types
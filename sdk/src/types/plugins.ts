@@ -221,6 +221,7 @@ export interface RAGPlugin extends BasePlugin {
       threadId?: string;
       filters?: Record<string, any>;
       metadata?: Record<string, any>;
+      signal?: AbortSignal; // Aborted when the chat request is cancelled
     }
   ): Promise<RAGContext>;
 
@@ -275,6 +276,12 @@ export interface RAGPlugin extends BasePlugin {
     options?: IngestOptions
   ): Promise<number>;
 
+  /**
+   * Optional: Delete all of an agent's documents (options.agentId)
+   * Called when the agent is deleted; shared documents are kept. Returns the number of documents deleted
+   */
+  deleteAll?(options: IngestOptions): Promise<number>;
+
   /**
    * Optional: Bulk operations for efficient batch processing
    */
@@ -288,11 +295,32 @@ export interface RAGPlugin extends BasePlugin {
 // Tool Plugin
 // ============================================================================
 
+/**
+ * Context passed to a tool when it is executed
+ */
+export interface ToolExecutionContext {
+  toolCallId: string;
+  agentId: string; // Agent whose model called the tool
+  threadId?: string;
+  signal?: AbortSignal;
+
+  /**
+   * Count tokens spent inside the tool (e.g. by a sub-agent) toward the turn's usage
+   */
+  reportUsage(usage: TokenMetrics): void;
+}
+
 export interface Tool {
   name: string;
   description: string;
   parameters: Record<string, any>;
-  execute: (args: any) => Promise<any>;
+  execute: (args: any, context?: ToolExecutionContext) => Promise<any>;
+
+  /**
+   * Optional: Require human approval before this tool runs
+   * The turn stops with a pending tool call until it is approved or rejected
+   */
+  requiresApproval?: boolean;
 }
 
 export interface ToolPlugin extends BasePlugin {
@@ -309,12 +337,18 @@ export interface MiddlewarePlugin extends BasePlugin {
 
   beforeRequest?(
     messages: any[],
-    context: { agentId: string; threadId?: string }
+    context: { agentId: string; threadId?: string; signal?: AbortSignal }
   ): Promise<{ messages: any[]; metadata?: any }>;
 
   afterResponse?(
     response: string,
-    context: { agentId: string; threadId?: string; metadata?: any }
+    context: {
+      agentId: string;
+      threadId?: string;
+      metadata?: any;
+      usage?: TokenMetrics;
+      signal?: AbortSignal;
+    }
   ): Promise<{ response: string; metadata?: any }>;
 }
 
@@ -330,6 +364,7 @@ export interface PerformanceTimings {
   llmApiTime?: number;
   ragRetrievalTime?: number;
   pluginExecutionTime?: number;
+  toolExecutionTime?: number; // Time spent running tools, including sub-agents
   dbQueryTime?: number;
   timeToFirstToken?: number;
   timeToLastToken?: number;
@@ -421,7 +456,7 @@ export interface ErrorTrackingData {
   errorMessage: string;
   errorCode?: string;
   isRetryable?: boolean;
-  component?: 'llm' | 'rag' | 'plugin' | 'database' | 'network';
+  component?: 'llm' | 'rag' | 'plugin' | 'tool' | 'database' | 'network';
 }
 
 export interface AnalyticsPlugin extends BasePlugin {
@@ -446,6 +481,7 @@ export interface AnalyticsPlugin extends BasePlugin {
     response: string;
     latency: number;
     tokensUsed?: number;
+    tokens?: TokenMetrics; // Provider-reported usage, when available
     timestamp: Date;
   }): Promise<void>;
 
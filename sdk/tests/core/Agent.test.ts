@@ -0,0 +1,772 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { generateText, streamText } from 'ai';
+import { Agent } from '../../src/core/Agent';
+import { ProviderFactory } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { RequestCancelledError } from '../../src/types';
+import type { RAGPlugin, ToolPlugin } from '../../src/types';
+
+// Mock only the generation functions, keep tool helpers real
+vi.mock('ai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ai')>();
+  return {
+    ...actual,
+    generateText: vi.fn(),
+    streamText: vi.fn(),
+  };
+});
+
+describe('Agent', () => {
+  let storage: MemoryStorage;
+  let providerFactory: ProviderFactory;
+
+  const lookupOrder = vi.fn();
+
+  const orderTools: ToolPlugin = {
+    type: 'tool',
+    name: 'orders',
+    getTools: () => [
+      {
+        name: 'lookupOrder',
+        description: 'Look up an order by ID',
+        parameters: {
+          type: 'object',
+          properties: { orderId: { type: 'string' } },
+          required: ['orderId'],
+        },
+        execute: lookupOrder,
+      },
+    ],
+  };
+
+  const createAgent = (overrides: Record<string, any> = {}) =>
+    Agent.create(
+      {
+        name: 'Support Agent',
+        instructions: 'You are helpful.',
+        provider: 'openai',
+        model: 'gpt-4o',
+        userId: 'user-1',
+        ...overrides,
+      },
+      storage,
+      providerFactory
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new MemoryStorage();
+    providerFactory = new ProviderFactory({ openai: { apiKey: 'test-key' } });
+  });
+
+  // ============================================================================
+  // Tool Plugins
+  // ============================================================================
+
+  describe('tool plugins', () => {
+    it('should not pass tools when no tool plugins are attached', async () => {
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      const agent = await createAgent();
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Hello' }]);
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(params.tools).toBeUndefined();
+      expect(params.stopWhen).toBeUndefined();
+      expect(result.metadata?.toolCalls).toEqual([]);
+    });
+
+    it('should expose tools, execute them and report the calls', async () => {
+      lookupOrder.mockResolvedValue({ status: 'shipped' });
+      (generateText as Mock).mockImplementation(async (params) => {
+        const output = await params.tools.lookupOrder.execute(
+          { orderId: 'A-1' },
+          { toolCallId: 'call-1', messages: [] }
+        );
+        return { text: `Your order is ${output.status}` };
+      });
+      const agent = await createAgent({ plugins: [orderTools] });
+
+      const result = await agent.generateResponse([
+        { role: 'user', content: 'Where is order A-1?' },
+      ]);
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(Object.keys(params.tools)).toEqual(['lookupOrder']);
+      expect(params.stopWhen).toBeDefined();
+      expect(lookupOrder).toHaveBeenCalledWith(
+        { orderId: 'A-1' },
+        expect.objectContaining({ toolCallId: 'call-1' })
+      );
+      expect(result.text).toBe('Your order is shipped');
+      expect(result.metadata?.toolCalls).toEqual([
+        {
+          toolCallId: 'call-1',
+          toolName: 'lookupOrder',
+          args: { orderId: 'A-1' },
+          result: { status: 'shipped' },
+        },
+      ]);
+    });
+
+    it('should record tool errors and rethrow them to the model', async () => {
+      lookupOrder.mockRejectedValue(new Error('Order service down'));
+      (generateText as Mock).mockImplementation(async (params) => {
+        await expect(
+          params.tools.lookupOrder.execute({ orderId: 'A-1' }, { toolCallId: 'call-1', messages: [] })
+        ).rejects.toThrow('Order service down');
+        return { text: 'Sorry, try again later' };
+      });
+      const agent = await createAgent({ plugins: [orderTools] });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Where is A-1?' }]);
+
+      expect(result.metadata?.toolCalls[0]).toMatchObject({
+        toolName: 'lookupOrder',
+        error: 'Order service down',
+      });
+    });
+
+    it('should collect tool-call and tool-result messages for each tool step', async () => {
+      lookupOrder.mockResolvedValue({ status: 'shipped' });
+      (generateText as Mock).mockImplementation(async (params) => {
+        await params.tools.lookupOrder.execute(
+          { orderId: 'A-1' },
+          { toolCallId: 'call-1', messages: [] }
+        );
+        params.onStepFinish({
+          text: 'Checking...',
+          toolCalls: [{ toolCallId: 'call-1', toolName: 'lookupOrder', input: { orderId: 'A-1' } }],
+        });
+        params.onStepFinish({ text: 'Shipped', toolCalls: [] });
+        return { text: 'Shipped' };
+      });
+      const agent = await createAgent({ plugins: [orderTools] });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Where is A-1?' }]);
+
+      expect(result.metadata?.toolMessages).toEqual([
+        {
+          role: 'assistant',
+          content: 'Checking...',
+          parts: [
+            { type: 'text', text: 'Checking...' },
+            { type: 'tool-call', toolCallId: 'call-1', toolName: 'lookupOrder', args: { orderId: 'A-1' } },
+          ],
+        },
+        {
+          role: 'tool',
+          content: '',
+          parts: [
+            { type: 'tool-result', toolCallId: 'call-1', toolName: 'lookupOrder', result: { status: 'shipped' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should hold calls to tools that require approval', async () => {
+      const issueRefund = vi.fn();
+      const refundTools: ToolPlugin = {
+        type: 'tool',
+        name: 'refunds',
+        getTools: () => [
+          {
+            name: 'issueRefund',
+            description: 'Issue a refund',
+            parameters: { type: 'object', properties: { amount: { type: 'number' } } },
+            execute: issueRefund,
+            requiresApproval: true,
+          },
+        ],
+      };
+      (generateText as Mock).mockImplementation(async (params) => {
+        params.onStepFinish({
+          text: '',
+          toolCalls: [{ toolCallId: 'call-1', toolName: 'issueRefund', input: { amount: 20 } }],
+        });
+        return { text: '' };
+      });
+      const agent = await createAgent({ plugins: [refundTools] });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Refund me' }]);
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(params.tools.issueRefund.execute).toBeUndefined();
+      expect(issueRefund).not.toHaveBeenCalled();
+      expect(result.metadata?.pendingToolCalls).toEqual([
+        { toolCallId: 'call-1', toolName: 'issueRefund', args: { amount: 20 } },
+      ]);
+      // Only the tool-call message is persisted; the result comes after approval
+      expect(result.metadata?.toolMessages).toHaveLength(1);
+
+      issueRefund.mockResolvedValue({ ok: true });
+      const record = await agent.executeTool({ toolCallId: 'call-1', toolName: 'issueRefund', args: { amount: 20 } });
+      expect(record.result).toEqual({ ok: true });
+    });
+
+    it('should pass tools to streamText and report calls on completion', async () => {
+      lookupOrder.mockResolvedValue({ status: 'pending' });
+      (streamText as Mock).mockImplementation((params) => ({
+        textStream: (async function* () {
+          await params.tools.lookupOrder.execute(
+            { orderId: 'B-2' },
+            { toolCallId: 'call-2', messages: [] }
+          );
+          yield 'Pending';
+        })(),
+      }));
+      const agent = await createAgent({ plugins: [orderTools], maxToolSteps: 3 });
+      const onComplete = vi.fn();
+
+      await agent.streamResponse(
+        [{ role: 'user', content: 'Status of B-2?' }],
+        vi.fn(),
+        onComplete
+      );
+
+      expect((streamText as Mock).mock.calls[0][0].tools).toBeDefined();
+      expect(onComplete).toHaveBeenCalledWith(
+        'Pending',
+        expect.objectContaining({
+          toolCalls: [expect.objectContaining({ toolCallId: 'call-2', result: { status: 'pending' } })],
+        })
+      );
+    });
+  });
+
+  // ============================================================================
+  // Structured Output
+  // ============================================================================
+
+  describe('structured output', () => {
+    it('should instruct JSON mode and parse the reply', async () => {
+      (generateText as Mock).mockResolvedValue({ text: '{"sentiment":"positive"}' });
+      const agent = await createAgent();
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Classify' }], {
+        output: { mode: 'json' },
+      });
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(params.system).toContain('OUTPUT FORMAT');
+      expect(result.parsed).toEqual({ sentiment: 'positive' });
+    });
+
+    it('should stream partial objects and report the parsed result on completion', async () => {
+      (streamText as Mock).mockReturnValue({
+        textStream: (async function* () {
+          yield '{"items":["a"';
+          yield ',"b"]}';
+        })(),
+        finishReason: Promise.resolve('stop'),
+      });
+      const agent = await createAgent();
+      const onPartialObject = vi.fn();
+      const onComplete = vi.fn();
+
+      await agent.streamResponse(
+        [{ role: 'user', content: 'List items' }],
+        vi.fn(),
+        onComplete,
+        undefined,
+        { output: { mode: 'json' }, onPartialObject }
+      );
+
+      expect(onPartialObject).toHaveBeenNthCalledWith(1, { items: ['a'] });
+      expect(onPartialObject).toHaveBeenLastCalledWith({ items: ['a', 'b'] });
+      expect(onComplete).toHaveBeenCalledWith(
+        '{"items":["a","b"]}',
+        expect.objectContaining({ parsed: { items: ['a', 'b'] } })
+      );
+    });
+  });
+
+  // ============================================================================
+  // Stream Events
+  // ============================================================================
+
+  describe('streamEvents', () => {
+    const collect = async (events: AsyncIterable<any>) => {
+      const collected: any[] = [];
+      for await (const event of events) {
+        collected.push(event);
+      }
+      return collected;
+    };
+
+    it('should yield sources, tool calls, text, usage and done events in order', async () => {
+      lookupOrder.mockResolvedValue({ status: 'shipped' });
+      const catalog: RAGPlugin = {
+        type: 'rag',
+        name: 'catalog',
+        retrieveContext: vi.fn().mockResolvedValue({
+          content: 'Order A-1 ships in 2 days',
+          sources: [{ id: 'doc-1', score: 0.9 }],
+        }),
+      };
+      (streamText as Mock).mockImplementation((params) => ({
+        textStream: (async function* () {
+          await params.tools.lookupOrder.execute(
+            { orderId: 'A-1' },
+            { toolCallId: 'call-1', messages: [] }
+          );
+          yield 'Ship';
+          yield 'ped';
+        })(),
+        totalUsage: Promise.resolve({ inputTokens: 12, outputTokens: 3, totalTokens: 15 }),
+      }));
+      const agent = await createAgent({ plugins: [orderTools, catalog] });
+
+      const events = await collect(
+        agent.streamEvents([{ role: 'user', content: 'Where is A-1?' }], { useRAG: true })
+      );
+
+      expect(events.map((e) => e.type)).toEqual([
+        'sources',
+        'tool-call',
+        'text-delta',
+        'text-delta',
+        'usage',
+        'done',
+      ]);
+      expect(events[0].sources).toEqual([{ id: 'doc-1', score: 0.9, pluginName: 'catalog' }]);
+      expect(events[1]).toMatchObject({
+        toolCall: { toolCallId: 'call-1', result: { status: 'shipped' } },
+        pendingApproval: false,
+      });
+      expect(events[4].usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+      expect(events[5]).toMatchObject({ type: 'done', response: 'Shipped' });
+    });
+
+    it('should throw stream failures from the iterator', async () => {
+      (streamText as Mock).mockImplementation(() => {
+        throw new Error('Provider unavailable');
+      });
+      const agent = await createAgent();
+
+      await expect(
+        collect(agent.streamEvents([{ role: 'user', content: 'Hi' }]))
+      ).rejects.toThrow('Provider unavailable');
+    });
+  });
+
+  // ============================================================================
+  // Token Usage
+  // ============================================================================
+
+  describe('token usage', () => {
+    it('should report provider usage to the response, middleware and analytics', async () => {
+      const afterResponse = vi.fn(async (response: string) => ({ response }));
+      const trackResponse = vi.fn();
+      (generateText as Mock).mockResolvedValue({
+        text: 'Hi',
+        totalUsage: { inputTokens: 40, outputTokens: 10, totalTokens: 50 },
+      });
+      const agent = await createAgent({
+        plugins: [
+          { type: 'middleware', name: 'budget', afterResponse },
+          { type: 'analytics', name: 'metrics', trackRequest: vi.fn(), trackResponse },
+        ],
+      });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Hello' }]);
+
+      const usage = { promptTokens: 40, completionTokens: 10, totalTokens: 50 };
+      expect(result.usage).toEqual(usage);
+      expect(afterResponse).toHaveBeenCalledWith('Hi', expect.objectContaining({ usage }));
+      expect(trackResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ tokensUsed: 50, tokens: usage })
+      );
+    });
+
+    it('should include streamed usage in the completion metadata', async () => {
+      (streamText as Mock).mockReturnValue({
+        textStream: (async function* () {
+          yield 'Hi';
+        })(),
+        totalUsage: Promise.resolve({ inputTokens: 7, outputTokens: 2, totalTokens: 9 }),
+      });
+      const agent = await createAgent();
+      const onComplete = vi.fn();
+
+      await agent.streamResponse([{ role: 'user', content: 'Hello' }], vi.fn(), onComplete);
+
+      expect(onComplete).toHaveBeenCalledWith(
+        'Hi',
+        expect.objectContaining({ usage: { promptTokens: 7, completionTokens: 2, totalTokens: 9 } })
+      );
+    });
+  });
+
+  // ============================================================================
+  // Analytics
+  // ============================================================================
+
+  describe('analytics', () => {
+    const createAnalytics = () => ({
+      type: 'analytics' as const,
+      name: 'dashboard',
+      trackRequest: vi.fn(),
+      trackResponse: vi.fn(),
+      trackRequestExtended: vi.fn(),
+      trackResponseExtended: vi.fn(),
+      trackError: vi.fn(),
+    });
+
+    it('should prefer the extended hooks and report timings, tokens and RAG metrics', async () => {
+      const analytics = createAnalytics();
+      const catalog: RAGPlugin = {
+        type: 'rag',
+        name: 'catalog',
+        retrieveContext: vi.fn().mockResolvedValue({
+          content: 'Shoes are on sale',
+          sources: [{ id: 'doc-1', score: 0.8 }, { id: 'doc-2', score: 0.6 }],
+        }),
+      };
+      (generateText as Mock).mockResolvedValue({
+        text: 'Shoes are on sale',
+        totalUsage: { inputTokens: 30, outputTokens: 5, totalTokens: 35 },
+      });
+      const agent = await createAgent({ plugins: [analytics, catalog] });
+
+      await agent.generateResponse([{ role: 'user', content: 'Any deals?' }], {
+        useRAG: true,
+        threadId: 'thread-1',
+      });
+
+      expect(analytics.trackRequest).not.toHaveBeenCalled();
+      expect(analytics.trackResponse).not.toHaveBeenCalled();
+      expect(analytics.trackRequestExtended).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agentId: agent.id,
+          threadId: 'thread-1',
+          message: 'Any deals?',
+          messageLength: 10,
+          model: 'gpt-4o',
+          provider: 'openai',
+        })
+      );
+      const data = analytics.trackResponseExtended.mock.calls[0][0];
+      expect(data).toMatchObject({
+        response: 'Shoes are on sale',
+        success: true,
+        model: 'gpt-4o',
+        tokens: { promptTokens: 30, completionTokens: 5, totalTokens: 35 },
+        rag: { enabled: true, documentsRetrieved: 2, sourcesCount: 2 },
+      });
+      expect(data.rag.avgSimilarityScore).toBeCloseTo(0.7);
+      expect(data.timings).toEqual(
+        expect.objectContaining({
+          total: expect.any(Number),
+          llmApiTime: expect.any(Number),
+          ragRetrievalTime: expect.any(Number),
+          pluginExecutionTime: expect.any(Number),
+        })
+      );
+    });
+
+    it('should report model failures with the llm component', async () => {
+      const analytics = createAnalytics();
+      const failure = Object.assign(new Error('Rate limited'), { statusCode: 429, isRetryable: true });
+      (generateText as Mock).mockRejectedValue(failure);
+      const agent = await createAgent({ plugins: [analytics], retryPolicy: { maxRetries: 0 } });
+
+      await expect(
+        agent.generateResponse([{ role: 'user', content: 'Hi' }], { threadId: 'thread-1' })
+      ).rejects.toThrow('Rate limited');
+
+      expect(analytics.trackError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          threadId: 'thread-1',
+          errorType: 'Error',
+          errorMessage: 'Rate limited',
+          errorCode: '429',
+          isRetryable: true,
+          component: 'llm',
+        })
+      );
+      expect(analytics.trackResponseExtended).not.toHaveBeenCalled();
+    });
+
+    it('should report RAG plugin failures with the rag component', async () => {
+      const analytics = createAnalytics();
+      const failingRAG: RAGPlugin = {
+        type: 'rag',
+        name: 'broken',
+        retrieveContext: vi.fn().mockRejectedValue(new Error('Index missing')),
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      const agent = await createAgent({ plugins: [analytics, failingRAG] });
+
+      await agent.generateResponse([{ role: 'user', content: 'Hi' }], { useRAG: true });
+
+      expect(analytics.trackError).toHaveBeenCalledWith(
+        expect.objectContaining({ errorMessage: 'Index missing', component: 'rag' })
+      );
+    });
+
+    it('should report tool failures with the tool component', async () => {
+      const analytics = createAnalytics();
+      lookupOrder.mockRejectedValue(new Error('Order service down'));
+      (generateText as Mock).mockImplementation(async (params) => {
+        await params.tools.lookupOrder
+          .execute({ orderId: 'A-1' }, { toolCallId: 'call-1', messages: [] })
+          .catch(() => {});
+        return { text: 'Sorry, try again later' };
+      });
+      const agent = await createAgent({ plugins: [analytics, orderTools] });
+
+      await agent.generateResponse([{ role: 'user', content: 'Where is A-1?' }], { threadId: 'thread-1' });
+      await agent.executeTool(
+        { toolCallId: 'call-2', toolName: 'lookupOrder', args: { orderId: 'A-2' } },
+        { threadId: 'thread-1' }
+      );
+
+      expect(analytics.trackError).toHaveBeenCalledTimes(2);
+      expect(analytics.trackError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          threadId: 'thread-1',
+          errorMessage: 'Order service down',
+          component: 'tool',
+        })
+      );
+    });
+
+    it('should measure time to first and last token when streaming', async () => {
+      const analytics = createAnalytics();
+      (streamText as Mock).mockReturnValue({
+        textStream: (async function* () {
+          yield 'Hel';
+          yield 'lo';
+        })(),
+      });
+      const agent = await createAgent({ plugins: [analytics] });
+
+      await agent.streamResponse([{ role: 'user', content: 'Hi' }], vi.fn());
+
+      const { timings } = analytics.trackResponseExtended.mock.calls[0][0];
+      expect(timings.timeToFirstToken).toEqual(expect.any(Number));
+      expect(timings.timeToLastToken).toBeGreaterThanOrEqual(timings.timeToFirstToken);
+    });
+  });
+
+  // ============================================================================
+  // Token Budget
+  // ============================================================================
+
+  describe('token budget', () => {
+    // Each message is 40 characters, estimated at 10 tokens
+    const history = Array.from({ length: 6 }, (_, i) => ({
+      role: (i % 2 ? 'assistant' : 'user') as 'user' | 'assistant',
+      content: `${i}`.padEnd(40, '.'),
+    }));
+
+    it('should drop the oldest messages to fit the input budget', async () => {
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      // "You are helpful." is estimated at 4 tokens
+      const agent = await createAgent();
+
+      const result = await agent.generateResponse(history, { maxInputTokens: 35 });
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(params.messages).toEqual(history.slice(3));
+      expect(result.metadata?.contextWindow).toEqual({
+        maxInputTokens: 35,
+        estimatedTokens: 34,
+        droppedMessages: 3,
+        ragTruncated: false,
+      });
+    });
+
+    it('should truncate RAG context once only the latest message is left', async () => {
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      const catalog: RAGPlugin = {
+        type: 'rag',
+        name: 'catalog',
+        retrieveContext: vi.fn().mockResolvedValue({ content: 'x'.repeat(400) }),
+      };
+      const agent = await createAgent({ plugins: [catalog] });
+
+      const result = await agent.generateResponse(history, { useRAG: true, maxInputTokens: 30 });
+
+      const params = (generateText as Mock).mock.calls[0][0];
+      expect(params.messages).toEqual(history.slice(-1));
+      expect(params.system.length).toBeLessThanOrEqual(30 * 4);
+      expect(result.metadata?.contextWindow).toMatchObject({ droppedMessages: 5, ragTruncated: true });
+    });
+
+    it('should send the full context without a budget', async () => {
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      const agent = await createAgent();
+
+      const result = await agent.generateResponse(history);
+
+      expect((generateText as Mock).mock.calls[0][0].messages).toEqual(history);
+      expect(result.metadata?.contextWindow).toBeUndefined();
+    });
+  });
+
+  // ============================================================================
+  // Model Fallbacks
+  // ============================================================================
+
+  describe('model fallbacks', () => {
+    const serverError = () =>
+      Object.assign(new Error('Service unavailable'), { statusCode: 503, isRetryable: true });
+
+    const modelIds = (fn: Mock) => fn.mock.calls.map(([options]) => options.model.modelId);
+
+    it('should fall back to the next model and record which one answered', async () => {
+      (generateText as Mock)
+        .mockRejectedValueOnce(serverError())
+        .mockResolvedValueOnce({ text: 'From the fallback' });
+      const agent = await createAgent({
+        fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+        retryPolicy: { maxRetries: 0 },
+      });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Hi' }]);
+
+      expect(result.text).toBe('From the fallback');
+      expect(result.metadata?.answeredBy).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+      expect(modelIds(generateText as Mock)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    });
+
+    it('should retry retryable errors on the same model before falling back', async () => {
+      const rateLimited = Object.assign(new Error('Rate limited'), { statusCode: 429 });
+      (generateText as Mock)
+        .mockRejectedValueOnce(rateLimited)
+        .mockResolvedValueOnce({ text: 'Second try' });
+      const agent = await createAgent({
+        fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+        retryPolicy: { maxRetries: 1, initialDelayMs: 0 },
+      });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Hi' }]);
+
+      expect(result.metadata?.answeredBy).toEqual({ provider: 'openai', model: 'gpt-4o' });
+      expect(modelIds(generateText as Mock)).toEqual(['gpt-4o', 'gpt-4o']);
+    });
+
+    it('should not retry errors outside the retry policy', async () => {
+      const badRequest = Object.assign(new Error('Invalid request'), { statusCode: 400 });
+      (generateText as Mock).mockRejectedValue(badRequest);
+      const agent = await createAgent({ retryPolicy: { maxRetries: 3, initialDelayMs: 0 } });
+
+      await expect(
+        agent.generateResponse([{ role: 'user', content: 'Hi' }])
+      ).rejects.toThrow('Invalid request');
+      expect(generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fall back once streamed text has been sent', async () => {
+      (streamText as Mock).mockImplementation(({ onError }) => ({
+        textStream: (async function* () {
+          yield 'Partial';
+          onError({ error: serverError() });
+        })(),
+        totalUsage: Promise.resolve(undefined),
+      }));
+      const agent = await createAgent({
+        fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+        retryPolicy: { maxRetries: 0 },
+      });
+      const onError = vi.fn();
+
+      await agent.streamResponse([{ role: 'user', content: 'Hi' }], vi.fn(), vi.fn(), onError);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Service unavailable' }));
+      expect(streamText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry or fall back once a tool has run', async () => {
+      lookupOrder.mockResolvedValue({ status: 'refunded' });
+      (generateText as Mock).mockImplementation(async (params) => {
+        await params.tools.lookupOrder.execute({ orderId: 'A-1' }, { toolCallId: 'call-1', messages: [] });
+        throw serverError();
+      });
+      const agent = await createAgent({
+        plugins: [orderTools],
+        fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+        retryPolicy: { maxRetries: 2, initialDelayMs: 0 },
+      });
+
+      await expect(
+        agent.generateResponse([{ role: 'user', content: 'Refund order A-1' }])
+      ).rejects.toThrow('Service unavailable');
+      expect(lookupOrder).toHaveBeenCalledTimes(1);
+      expect(modelIds(generateText as Mock)).toEqual(['gpt-4o']);
+    });
+  });
+
+  // ============================================================================
+  // Cancellation
+  // ============================================================================
+
+  describe('cancellation', () => {
+    it('should pass the signal to RAG plugins, middleware and the model call', async () => {
+      const controller = new AbortController();
+      const retrieveContext = vi.fn().mockResolvedValue({ content: 'ctx' });
+      const beforeRequest = vi.fn(async (messages: any[]) => ({ messages }));
+      (generateText as Mock).mockResolvedValue({ text: 'Hi' });
+      const agent = await createAgent({
+        plugins: [
+          { type: 'rag', name: 'catalog', retrieveContext },
+          { type: 'middleware', name: 'guard', beforeRequest },
+        ],
+      });
+
+      await agent.generateResponse([{ role: 'user', content: 'Hi' }], {
+        useRAG: true,
+        signal: controller.signal,
+      });
+
+      expect(retrieveContext).toHaveBeenCalledWith(
+        'Hi',
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect(beforeRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect((generateText as Mock).mock.calls[0][0].abortSignal).toBe(controller.signal);
+    });
+
+    it('should not call the model when the request is already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const agent = await createAgent();
+
+      await expect(
+        agent.generateResponse([{ role: 'user', content: 'Hi' }], { signal: controller.signal })
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(generateText).not.toHaveBeenCalled();
+    });
+
+    it('should report a stream cancelled mid-way with the partial text and no error tracking', async () => {
+      const controller = new AbortController();
+      const trackError = vi.fn();
+      (streamText as Mock).mockReturnValue({
+        textStream: (async function* () {
+          yield 'Once upon';
+          controller.abort();
+          throw new DOMException('This operation was aborted', 'AbortError');
+        })(),
+      });
+      const agent = await createAgent({
+        plugins: [{ type: 'analytics', name: 'metrics', trackRequest: vi.fn(), trackResponse: vi.fn(), trackError }],
+      });
+      const onError = vi.fn();
+
+      await agent.streamResponse([{ role: 'user', content: 'Tell a story' }], vi.fn(), vi.fn(), onError, {
+        signal: controller.signal,
+      });
+
+      const error = onError.mock.calls[0][0];
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect(error.partialResponse).toBe('Once upon');
+      expect(trackError).not.toHaveBeenCalled();
+    });
+  });
+});
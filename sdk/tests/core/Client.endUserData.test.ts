@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { MemoryFileStorage } from '../../src/storage/MemoryFileStorage';
+import { UpstashStorage } from '../../src/storage/UpstashStorage';
+import { startUpstashStandIn, type UpstashStandIn } from '../storage/upstashStandIn';
+import type { AnalyticsRecordStore, AnalyticsRecords } from '../../src/types';
+
+/**
+ * Analytics records kept in memory, like MemoryAnalyticsStorage from @snap-agent/analytics
+ */
+class RecordStore implements AnalyticsRecordStore {
+  records: AnalyticsRecords = { requests: [], responses: [], errors: [] };
+
+  async getThreadRecords(threadIds: string[]): Promise<AnalyticsRecords> {
+    const inThreads = (r: Record<string, any>) => threadIds.includes(r.threadId);
+    return {
+      requests: this.records.requests.filter(inThreads),
+      responses: this.records.responses.filter(inThreads),
+      errors: this.records.errors.filter(inThreads),
+    };
+  }
+
+  async deleteThreadRecords(threadIds: string[]) {
+    const found = await this.getThreadRecords(threadIds);
+    const keep = (r: Record<string, any>) => !threadIds.includes(r.threadId);
+    this.records = {
+      requests: this.records.requests.filter(keep),
+      responses: this.records.responses.filter(keep),
+      errors: this.records.errors.filter(keep),
+    };
+    return { requests: found.requests.length, responses: found.responses.length, errors: found.errors.length };
+  }
+}
+
+describe('End user data', () => {
+  let storage: MemoryStorage;
+  let files: MemoryFileStorage;
+  let analytics: RecordStore;
+  let client: AgentClient;
+  let threadId: string;
+  let otherThreadId: string;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    files = new MemoryFileStorage();
+    analytics = new RecordStore();
+    client = new AgentClient({
+      storage,
+      providers: { mock: new MockProvider() },
+      userMemory: { storage, extract: false },
+      fileStorage: files,
+      analyticsStorage: analytics,
+    });
+
+    const agent = await client.createAgent({
+      name: 'Support Agent',
+      instructions: 'You are helpful.',
+      provider: 'mock',
+      model: 'test-model',
+      userId: 'user-1',
+    });
+    const thread = await client.createThread({ agentId: agent.id, userId: 'user-1', endUserId: 'end-1' });
+    const other = await client.createThread({ agentId: agent.id, userId: 'user-1', endUserId: 'end-2' });
+    threadId = thread.id;
+    otherThreadId = other.id;
+
+    await files.put('photo-1', 'bytes', { filename: 'photo.png', contentType: 'image/png' });
+    await thread.addMessage('user', 'Here is my photo', [
+      { fileId: 'photo-1', filename: 'photo.png', contentType: 'image/png', size: 5 },
+    ]);
+    await thread.addMessage('assistant', 'Thanks!');
+    await other.addMessage('user', 'Hello');
+    await client.addUserMemory({ endUserId: 'end-1', content: 'Prefers email' });
+    await client.addUserMemory({ endUserId: 'end-2', content: 'Prefers SMS' });
+    analytics.records.requests.push({ id: 'req-1', threadId }, { id: 'req-2', threadId: otherThreadId });
+  });
+
+  it('should export threads, messages, memories and analytics as portable JSON', async () => {
+    const bundle = await client.exportEndUserData('end-1');
+
+    expect(bundle).toMatchObject({ version: 1, endUserId: 'end-1' });
+    expect(bundle.threads.map((t) => t.id)).toEqual([threadId]);
+    expect(bundle.threads[0].messages.map((m) => m.content)).toEqual(['Here is my photo', 'Thanks!']);
+    expect(bundle.memories.map((m) => m.content)).toEqual(['Prefers email']);
+    expect(bundle.analytics?.requests).toEqual([{ id: 'req-1', threadId }]);
+
+    const parsed = JSON.parse(JSON.stringify(bundle));
+    expect(parsed.threads[0].messages[0].timestamp).toBe(bundle.threads[0].messages[0].timestamp.toISOString());
+  });
+
+  it('should erase the end user and report what was deleted', async () => {
+    const report = await client.eraseEndUserData('end-1');
+
+    expect(report).toMatchObject({
+      endUserId: 'end-1',
+      threadIds: [threadId],
+      threadsDeleted: 1,
+      messagesDeleted: 2,
+      memoriesDeleted: 1,
+      filesDeleted: 1,
+      analytics: { requests: 1, responses: 0, errors: 0 },
+      skipped: [],
+    });
+    expect(report.completedAt.getTime()).toBeGreaterThanOrEqual(report.startedAt.getTime());
+    expect(await storage.getThread(threadId)).toBeNull();
+    expect(await files.get('photo-1')).toBeNull();
+
+    const remaining = await client.exportEndUserData('end-1');
+    expect(remaining.threads).toEqual([]);
+    expect(remaining.memories).toEqual([]);
+    expect(await storage.getThread(otherThreadId)).not.toBeNull();
+    expect(analytics.records.requests).toEqual([{ id: 'req-2', threadId: otherThreadId }]);
+  });
+
+  it('should report data that is not erased because no store is configured', async () => {
+    client = new AgentClient({ storage, providers: { mock: new MockProvider() } });
+
+    const report = await client.eraseEndUserData('end-1');
+
+    expect(report.threadsDeleted).toBe(1);
+    expect(report.analytics).toBeUndefined();
+    expect(report.skipped).toEqual([
+      'analytics: analyticsStorage is not configured',
+      'attachments: fileStorage is not configured',
+      'user memories: userMemory is not configured',
+    ]);
+  });
+
+  describe('with threads stored before the end-user index existed', () => {
+    let redis: UpstashStandIn;
+
+    beforeAll(async () => {
+      redis = await startUpstashStandIn();
+    });
+
+    afterAll(async () => {
+      await redis.close();
+    });
+
+    it('should export and erase them too', async () => {
+      // Written the way UpstashStorage did before it indexed threads by end user
+      const messages = [{ id: 'm-1', role: 'user', content: 'Old message', timestamp: '2024-01-01T00:00:00.000Z' }];
+      redis.run([
+        'HSET', 'app:thread:legacy-1',
+        'id', 'legacy-1', 'agentId', 'agent-1', 'userId', 'user-1', 'endUserId', 'end-1',
+        'createdAt', '2024-01-01T00:00:00.000Z', 'updatedAt', '2024-01-01T00:00:00.000Z',
+        'messages', JSON.stringify(messages), 'isPendingThread', 'false',
+      ]);
+      redis.run(['SADD', 'app:threads:agent:agent-1', 'legacy-1']);
+      redis.run(['SADD', 'app:threads:user:user-1', 'legacy-1']);
+
+      const upstash = new UpstashStorage({ url: redis.url, token: redis.token, prefix: 'app' });
+      client = new AgentClient({ storage: upstash, providers: { mock: new MockProvider() } });
+
+      const bundle = await client.exportEndUserData('end-1');
+      expect(bundle.threads.map((t) => t.id)).toEqual(['legacy-1']);
+
+      const report = await client.eraseEndUserData('end-1');
+      expect(report).toMatchObject({ threadIds: ['legacy-1'], threadsDeleted: 1, messagesDeleted: 1 });
+      expect(await upstash.getThread('legacy-1')).toBeNull();
+      expect(await upstash.listThreadsPage({ userId: 'user-1' })).toEqual({ items: [] });
+    });
+  });
+});
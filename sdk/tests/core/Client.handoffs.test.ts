@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import type { StreamEvent } from '../../src/types';
+
+describe('Agent handoffs', () => {
+  let storage: MemoryStorage;
+  let mock: MockProvider;
+  let client: AgentClient;
+  let triageId: string;
+  let billingId: string;
+  let threadId: string;
+
+  const transfer = (agentId: string, reason?: string) => ({
+    toolCalls: [{ toolName: 'transfer_to_agent', args: { agentId, ...(reason && { reason }) } }],
+  });
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    mock = new MockProvider();
+    client = new AgentClient({ storage, providers: { mock } });
+
+    const billing = await client.createAgent({
+      name: 'Billing',
+      instructions: 'You handle invoices and refunds.',
+      provider: 'mock',
+      model: 'billing-model',
+      userId: 'user-1',
+      handoffs: [],
+    });
+    const triage = await client.createAgent({
+      name: 'Triage',
+      instructions: 'You route users to the right team.',
+      provider: 'mock',
+      model: 'triage-model',
+      userId: 'user-1',
+      handoffs: [{ agentId: billing.id, description: 'Invoices, payments and refunds' }],
+    });
+    billingId = billing.id;
+    triageId = triage.id;
+
+    const thread = await client.createThread({ agentId: triageId, userId: 'user-1' });
+    threadId = thread.id;
+  });
+
+  it('should offer declared targets through the transfer tool', async () => {
+    mock.enqueue('How can I help?');
+
+    await client.chat({ threadId, message: 'Hi' });
+
+    expect(mock.calls[0].tools).toEqual(['transfer_to_agent']);
+  });
+
+  it('should continue the turn under the target agent and record the handoff', async () => {
+    mock.enqueue(transfer(billingId, 'Refund request'), 'Your refund is on its way.');
+
+    const response = await client.chat({ threadId, message: 'I want a refund' });
+
+    expect(response.reply).toBe('Your refund is on its way.');
+    expect(response.agentId).toBe(billingId);
+    expect(response.handoffs).toEqual([
+      { fromAgentId: triageId, toAgentId: billingId, reason: 'Refund request', timestamp: expect.any(String) },
+    ]);
+    expect(mock.calls[1].modelId).toBe('billing-model');
+    expect(mock.calls[1].system).toContain('You handle invoices and refunds.');
+
+    // The transfer call itself is not persisted
+    const thread = await storage.getThread(threadId);
+    expect(thread?.messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'I want a refund'],
+      ['assistant', 'Your refund is on its way.'],
+    ]);
+    expect(thread?.metadata?.currentAgentId).toBe(billingId);
+    expect(await client.getThreadHandoffs(threadId)).toEqual(response.handoffs);
+  });
+
+  it('should send later turns straight to the current owner', async () => {
+    mock.enqueue(transfer(billingId), 'Refund issued.', 'It takes 3 days.');
+    await client.chat({ threadId, message: 'I want a refund' });
+
+    const response = await client.chat({ threadId, message: 'How long will it take?' });
+
+    expect(response.agentId).toBe(billingId);
+    expect(response.handoffs).toBeUndefined();
+    expect(mock.calls[2].modelId).toBe('billing-model');
+  });
+
+  it('should sum token usage across the agents of a turn', async () => {
+    mock.enqueue(
+      { ...transfer(billingId), usage: { promptTokens: 10, completionTokens: 2 } },
+      { text: 'Done.', usage: { promptTokens: 20, completionTokens: 3 } }
+    );
+
+    const response = await client.chat({ threadId, message: 'Refund please' });
+
+    expect(response.usage).toMatchObject({ promptTokens: 30, completionTokens: 5, totalTokens: 35 });
+  });
+
+  it('should not hand back to an agent the turn already passed through', async () => {
+    await storage.updateAgent(billingId, {
+      handoffs: [{ agentId: triageId, description: 'Anything that is not billing' }],
+    });
+    mock.enqueue(transfer(billingId), 'Refund issued.');
+
+    await client.chat({ threadId, message: 'Refund please' });
+
+    expect(mock.calls[1].tools).toEqual([]);
+  });
+
+  it('should ignore transfers to undeclared agents', async () => {
+    mock.enqueue({ text: 'Let me check.', ...transfer('unknown-agent') });
+
+    const response = await client.chat({ threadId, message: 'Hi' });
+
+    expect(response.reply).toBe('Let me check.');
+    expect(response.agentId).toBe(triageId);
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it('should hand off turns that use structured output', async () => {
+    mock.enqueue(transfer(billingId), { object: { refunded: true } });
+
+    const response = await client.chat({
+      threadId,
+      message: 'I want a refund',
+      output: { mode: 'object', schema: z.object({ refunded: z.boolean() }) },
+    });
+
+    expect(response.agentId).toBe(billingId);
+    expect(response.parsed).toEqual({ refunded: true });
+    expect(response.handoffs).toEqual([expect.objectContaining({ toAgentId: billingId })]);
+  });
+
+  it('should hand off streamed turns that use structured output', async () => {
+    mock.enqueue(transfer(billingId), { object: { refunded: true } });
+
+    const events: StreamEvent<{ refunded: boolean }>[] = [];
+    for await (const event of client.chatEvents({
+      threadId,
+      message: 'I want a refund',
+      output: { mode: 'object', schema: z.object({ refunded: z.boolean() }) },
+    })) {
+      events.push(event);
+    }
+
+    const done = events.at(-1) as Extract<StreamEvent<{ refunded: boolean }>, { type: 'done' }>;
+    expect(done.parsed).toEqual({ refunded: true });
+    expect(done.metadata).toMatchObject({ agentId: billingId, handoffs: [{ toAgentId: billingId }] });
+  });
+
+  it('should stream the target agent reply and emit a handoff event', async () => {
+    mock.enqueue(transfer(billingId), 'Refunded.');
+
+    const events: StreamEvent[] = [];
+    for await (const event of client.chatEvents({ threadId, message: 'Refund please' })) {
+      events.push(event);
+    }
+
+    expect(events.map((e) => e.type)).toEqual(['usage', 'handoff', 'text-delta', 'usage', 'done']);
+    const done = events.at(-1) as Extract<StreamEvent, { type: 'done' }>;
+    expect(done.response).toBe('Refunded.');
+    expect(done.metadata).toMatchObject({ agentId: billingId, handoffs: [{ toAgentId: billingId }] });
+    expect((await storage.getThread(threadId))?.metadata?.currentAgentId).toBe(billingId);
+  });
+});
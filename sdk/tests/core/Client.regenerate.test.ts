@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { AgentSDKError, MessageNotFoundError } from '../../src/types';
+
+describe('Message editing, regeneration and forks', () => {
+  let storage: MemoryStorage;
+  let mock: MockProvider;
+  let client: AgentClient;
+  let threadId: string;
+
+  const contents = async (id: string = threadId) =>
+    (await storage.getMessages(id)).map((m) => [m.role, m.content]);
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    mock = new MockProvider();
+    client = new AgentClient({ storage, providers: { mock } });
+
+    const agent = await client.createAgent({
+      name: 'Math Tutor',
+      instructions: 'You answer math questions.',
+      provider: 'mock',
+      model: 'test-model',
+      userId: 'user-1',
+    });
+    const thread = await client.createThread({ agentId: agent.id, userId: 'user-1' });
+    threadId = thread.id;
+
+    mock.enqueue('Hello!', '5');
+    await client.chat({ threadId, message: 'Hi' });
+    await client.chat({ threadId, message: 'What is 2 + 2?' });
+  });
+
+  it('should replace the last reply', async () => {
+    mock.enqueue('4');
+
+    const response = await client.regenerate({ threadId });
+
+    expect(response.reply).toBe('4');
+    expect(await contents()).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hello!'],
+      ['user', 'What is 2 + 2?'],
+      ['assistant', '4'],
+    ]);
+    expect(mock.lastCall?.messages.at(-1)).toEqual({ role: 'user', content: 'What is 2 + 2?' });
+  });
+
+  it('should answer an edited message again, dropping later messages', async () => {
+    const [greeting] = await storage.getMessages(threadId);
+    mock.enqueue('Hey there!');
+
+    await client.updateMessage(threadId, greeting.id, { content: 'Hey' });
+    await client.regenerate({ threadId, messageId: greeting.id });
+
+    expect(await contents()).toEqual([
+      ['user', 'Hey'],
+      ['assistant', 'Hey there!'],
+    ]);
+  });
+
+  it('should regenerate from an assistant message by answering the message before it', async () => {
+    const messages = await storage.getMessages(threadId);
+    mock.enqueue('Hi!');
+
+    await client.regenerate({ threadId, messageId: messages[1].id });
+
+    expect(await contents()).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hi!'],
+    ]);
+  });
+
+  it('should stream a regenerated reply', async () => {
+    mock.enqueue('Four');
+
+    const reply = await new Promise<string>((resolve, reject) =>
+      client.regenerateStream({ threadId }, { onChunk: () => {}, onComplete: resolve, onError: reject })
+    );
+
+    expect(reply).toBe('Four');
+    expect((await contents()).at(-1)).toEqual(['assistant', 'Four']);
+  });
+
+  it('should throw for unknown messages and threads without user messages', async () => {
+    await expect(client.regenerate({ threadId, messageId: 'missing' })).rejects.toThrow(
+      MessageNotFoundError
+    );
+    await expect(client.deleteMessage(threadId, 'missing')).rejects.toThrow(MessageNotFoundError);
+
+    const agentId = (await storage.getThread(threadId))!.agentId;
+    const empty = await client.createThread({ agentId, userId: 'user-1' });
+    await expect(client.regenerate({ threadId: empty.id })).rejects.toThrow(AgentSDKError);
+  });
+
+  it('should fork a thread at a message and continue it independently', async () => {
+    const messages = await storage.getMessages(threadId);
+
+    const fork = await client.forkThread(threadId, { messageId: messages[1].id, name: 'Branch' });
+    mock.enqueue('Sure, 3 + 3 = 6.');
+    await client.chat({ threadId: fork.id, message: 'What is 3 + 3?' });
+
+    expect(fork.metadata?.forkedFrom).toEqual({ threadId, messageId: messages[1].id });
+    expect(await contents(fork.id)).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hello!'],
+      ['user', 'What is 3 + 3?'],
+      ['assistant', 'Sure, 3 + 3 = 6.'],
+    ]);
+    expect(await contents()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { MemoryFileStorage } from '../../src/storage/MemoryFileStorage';
+import { InvalidConfigError } from '../../src/types';
+import type { RAGPlugin } from '../../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Data retention', () => {
+  let storage: MemoryStorage;
+  let client: AgentClient;
+
+  const createAgent = (plugins: RAGPlugin[] = []) =>
+    client.createAgent({
+      name: 'Support Agent',
+      instructions: 'You are helpful.',
+      provider: 'mock',
+      model: 'test-model',
+      userId: 'user-1',
+      plugins,
+    });
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    client = new AgentClient({ storage, providers: { mock: new MockProvider() } });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ============================================================================
+  // Agent Deletion
+  // ============================================================================
+
+  describe('deleteAgent', () => {
+    it("should delete the agent's threads, files and RAG documents", async () => {
+      const files = new MemoryFileStorage();
+      client = new AgentClient({ storage, providers: { mock: new MockProvider() }, fileStorage: files });
+      const rag: RAGPlugin = {
+        type: 'rag',
+        name: 'docs',
+        retrieveContext: async () => ({ content: '' }),
+        deleteAll: vi.fn().mockResolvedValue(3),
+      };
+      const agent = await createAgent([rag]);
+      const other = await createAgent();
+      await client.addAgentFiles(agent.id, [
+        { filename: 'faq.md', contentType: 'text/markdown', data: '# FAQ' },
+      ]);
+      const thread = await client.createThread({ agentId: agent.id, userId: 'user-1' });
+      await thread.addMessage('user', 'Hello');
+      await client.createThread({ agentId: agent.id, userId: 'user-1' });
+      const otherThread = await client.createThread({ agentId: other.id, userId: 'user-1' });
+      const [file] = agent.toJSON().files;
+
+      const result = await client.deleteAgent(agent.id, { plugins: [rag] });
+
+      expect(result).toEqual({ threadsDeleted: 2, documentsDeleted: 3, filesDeleted: 1 });
+      expect(rag.deleteAll).toHaveBeenCalledWith({ agentId: agent.id });
+      expect(await files.get(file.fileId)).toBeNull();
+      expect(await storage.getAgent(agent.id)).toBeNull();
+      expect((await storage.listThreads({ userId: 'user-1' })).map((t) => t.id)).toEqual([otherThread.id]);
+    });
+  });
+
+  // ============================================================================
+  // Sweep
+  // ============================================================================
+
+  describe('sweep', () => {
+    it('should delete idle threads and redact old messages', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const start = Date.now();
+      const agent = await createAgent();
+      const idle = await client.createThread({ agentId: agent.id, userId: 'user-1' });
+      const active = await client.createThread({ agentId: agent.id, userId: 'user-1' });
+      await idle.addMessage('user', 'Old question');
+      await active.addMessage('user', 'My card number is 4242');
+      vi.setSystemTime(start + 20 * DAY);
+      await active.addMessage('assistant', 'Thanks', undefined, { metadata: { model: 'test-model' } });
+      vi.setSystemTime(start + 30 * DAY);
+      await active.addMessage('user', 'Still there?');
+
+      const policy = { deleteThreadsAfterDays: 30, redactMessagesAfterDays: 10 };
+      const result = await client.sweep({ ...policy, now: new Date(start + 35 * DAY) });
+
+      expect(result).toEqual({ threadsDeleted: 1, messagesRedacted: 2 });
+      expect(await storage.getThread(idle.id)).toBeNull();
+      const messages = await storage.getMessages(active.id);
+      expect(messages.map((m) => m.content)).toEqual(['[redacted]', '[redacted]', 'Still there?']);
+      expect(messages[1].metadata).toEqual({ model: 'test-model', redacted: true });
+
+      // Redacted messages are skipped, and redaction does not count as activity
+      expect(await client.sweep({ ...policy, now: new Date(start + 35 * DAY) })).toEqual({
+        threadsDeleted: 0,
+        messagesRedacted: 0,
+      });
+      expect(await client.sweep({ ...policy, now: new Date(start + 61 * DAY) })).toEqual({
+        threadsDeleted: 1,
+        messagesRedacted: 0,
+      });
+    });
+
+    it('should use the configured policy and only sweep matching threads', async () => {
+      client = new AgentClient({
+        storage,
+        providers: { mock: new MockProvider() },
+        retention: { redactMessagesAfterDays: 1, redactedContent: '' },
+      });
+      const agent = await createAgent();
+      const mine = await client.createThread({ agentId: agent.id, userId: 'user-1', endUserId: 'end-1' });
+      const theirs = await client.createThread({ agentId: agent.id, userId: 'user-1', endUserId: 'end-2' });
+      await mine.addMessage('user', 'Hello');
+      await theirs.addMessage('user', 'Hello');
+
+      const result = await client.sweep({ filters: { endUserId: 'end-1' }, now: new Date(Date.now() + 2 * DAY) });
+
+      expect(result.messagesRedacted).toBe(1);
+      expect((await storage.getMessages(mine.id))[0].content).toBe('');
+      expect((await storage.getMessages(theirs.id))[0].content).toBe('Hello');
+    });
+
+    it('should require a retention policy with positive periods', async () => {
+      await expect(client.sweep()).rejects.toThrow(InvalidConfigError);
+      expect(
+        () =>
+          new AgentClient({
+            storage,
+            providers: { mock: new MockProvider() },
+            retention: { deleteThreadsAfterDays: 0 },
+          })
+      ).toThrow(InvalidConfigError);
+    });
+  });
+});
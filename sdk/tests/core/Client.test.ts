@@ -7,6 +7,8 @@ import {
   InvalidConfigError,
   AgentNotFoundError,
   ThreadNotFoundError,
+  ToolCallNotFoundError,
+  RequestCancelledError,
 } from '../../src/types';
 
 // Mock the Agent and Thread classes
@@ -340,12 +342,20 @@ describe('AgentClient', () => {
 
   describe('deleteAgent', () => {
     it('should delete an existing agent', async () => {
-      const mockAgent = { id: 'agent-1', delete: vi.fn() };
+      const mockAgent = {
+        id: 'agent-1',
+        delete: vi.fn(),
+        deleteAllDocuments: vi.fn().mockResolvedValue(2),
+        toJSON: () => ({ files: [] }),
+      };
       (Agent.load as Mock).mockResolvedValue(mockAgent);
+      await storage.createThread({ agentId: 'agent-1', userId: 'user-1' });
 
-      await client.deleteAgent('agent-1');
+      const result = await client.deleteAgent('agent-1');
 
       expect(mockAgent.delete).toHaveBeenCalled();
+      expect(result).toEqual({ threadsDeleted: 1, documentsDeleted: 2, filesDeleted: 0 });
+      expect(await storage.listThreads({ agentId: 'agent-1' })).toEqual([]);
     });
 
     it('should throw AgentNotFoundError when agent does not exist', async () => {
@@ -586,7 +596,7 @@ describe('AgentClient', () => {
         message: 'Hi!',
       });
 
-      expect(mockThread.getConversationContext).toHaveBeenCalledWith(20);
+      expect(mockThread.getConversationContext).toHaveBeenCalledWith(20, undefined);
     });
 
     it('should respect custom contextLength', async () => {
@@ -596,7 +606,7 @@ describe('AgentClient', () => {
         contextLength: 50,
       });
 
-      expect(mockThread.getConversationContext).toHaveBeenCalledWith(50);
+      expect(mockThread.getConversationContext).toHaveBeenCalledWith(50, undefined);
     });
 
     it('should pass useRAG option to agent', async () => {
@@ -666,6 +676,178 @@ describe('AgentClient', () => {
       expect(response.metadata).toEqual({ latency: 100 });
     });
 
+    it('should persist tool messages before the reply and strip them from metadata', async () => {
+      const toolParts = [
+        { type: 'tool-call', toolCallId: 'call-1', toolName: 'lookupOrder', args: { orderId: 'A-1' } },
+      ];
+      const resultParts = [
+        { type: 'tool-result', toolCallId: 'call-1', toolName: 'lookupOrder', result: { status: 'shipped' } },
+      ];
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: 'Shipped!',
+        metadata: {
+          toolCalls: [{ toolCallId: 'call-1' }],
+          toolMessages: [
+            { role: 'assistant', content: '', parts: toolParts },
+            { role: 'tool', content: '', parts: resultParts },
+          ],
+        },
+      });
+
+      const response = await client.chat({ threadId: 'thread-1', message: 'Where is A-1?' });
+
+      expect(mockThread.addMessage).toHaveBeenNthCalledWith(2, 'assistant', '', undefined, { parts: toolParts });
+      expect(mockThread.addMessage).toHaveBeenNthCalledWith(3, 'tool', '', undefined, { parts: resultParts });
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith('assistant', 'Shipped!');
+      expect(response.metadata).toEqual({ toolCalls: [{ toolCallId: 'call-1' }] });
+    });
+
+    it('should pass output config to agent and return the parsed object', async () => {
+      const output = { mode: 'json' as const };
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: '{"sentiment":"positive"}',
+        parsed: { sentiment: 'positive' },
+        metadata: {},
+      });
+
+      const response = await client.chat({ threadId: 'thread-1', message: 'Classify', output });
+
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ output })
+      );
+      expect(response.parsed).toEqual({ sentiment: 'positive' });
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith(
+        'assistant',
+        '{"sentiment":"positive"}',
+        undefined,
+        { metadata: { parsed: { sentiment: 'positive' } } }
+      );
+    });
+
+    it('should return token usage with estimated cost when model pricing is configured', async () => {
+      const pricedClient = new AgentClient({
+        storage,
+        providers: validProviders,
+        modelCosts: { 'gpt-4o': { input: 0.005, output: 0.015 } },
+      });
+      (Agent.load as Mock).mockResolvedValue({ ...mockAgent, model: 'gpt-4o' });
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: 'Hi',
+        usage: { promptTokens: 1000, completionTokens: 2000, totalTokens: 3000 },
+        metadata: {},
+      });
+
+      const response = await pricedClient.chat({ threadId: 'thread-1', message: 'Hi!' });
+
+      expect(response.usage).toMatchObject({
+        promptTokens: 1000,
+        completionTokens: 2000,
+        totalTokens: 3000,
+      });
+      expect(response.usage?.estimatedCost).toBeCloseTo(0.035);
+    });
+
+    it('should price usage with the fallback model that answered', async () => {
+      const pricedClient = new AgentClient({
+        storage,
+        providers: validProviders,
+        modelCosts: {
+          'gpt-4o': { input: 0.005, output: 0.015 },
+          'gpt-4o-mini': { input: 0.001, output: 0.002 },
+        },
+      });
+      (Agent.load as Mock).mockResolvedValue({ ...mockAgent, model: 'gpt-4o' });
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: 'Hi',
+        usage: { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 },
+        metadata: { answeredBy: { provider: 'openai', model: 'gpt-4o-mini' } },
+      });
+
+      const response = await pricedClient.chat({ threadId: 'thread-1', message: 'Hi!' });
+
+      expect(response.usage?.estimatedCost).toBeCloseTo(0.003);
+    });
+
+    it("should use the agent's memory strategy and pass the summary along", async () => {
+      const memoryStrategy = { buildContext: vi.fn() };
+      const memoryThread = {
+        ...mockThread,
+        getMemoryContext: vi.fn().mockResolvedValue({
+          messages: [{ role: 'user', content: 'Hi!' }],
+          summary: 'User is Ada.',
+        }),
+      };
+      (Agent.load as Mock).mockResolvedValue({ ...mockAgent, memoryStrategy });
+      (Thread.load as Mock).mockResolvedValue(memoryThread);
+
+      await client.chat({ threadId: 'thread-1', message: 'Hi!' });
+
+      expect(memoryThread.getMemoryContext).toHaveBeenCalledWith(memoryStrategy, expect.any(Function), undefined);
+      expect(mockThread.getConversationContext).not.toHaveBeenCalled();
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        [{ role: 'user', content: 'Hi!' }],
+        expect.objectContaining({ conversationSummary: 'User is Ada.' })
+      );
+    });
+
+    it('should load the whole history and pass an input token budget in token-budgeted mode', async () => {
+      (Agent.load as Mock).mockResolvedValue({ ...mockAgent, model: 'gpt-4o' });
+
+      await client.chat({ threadId: 'thread-1', message: 'Hi!', tokenBudget: true });
+
+      expect(mockThread.getConversationContext).toHaveBeenCalledWith(Infinity, undefined);
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ maxInputTokens: 128000 - 4096 })
+      );
+    });
+
+    it('should apply context limit overrides and the completion reserve', async () => {
+      const limitedClient = new AgentClient({
+        storage,
+        providers: validProviders,
+        modelContextLimits: { 'local-llama': 8000 },
+      });
+      (Agent.load as Mock).mockResolvedValue({ ...mockAgent, model: 'local-llama' });
+
+      await limitedClient.chat({
+        threadId: 'thread-1',
+        message: 'Hi!',
+        contextLength: 50,
+        tokenBudget: { reserveTokens: 1000 },
+      });
+
+      expect(mockThread.getConversationContext).toHaveBeenCalledWith(50, undefined);
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ maxInputTokens: 7000 })
+      );
+    });
+
+    it('should pass the abort signal to the agent', async () => {
+      const controller = new AbortController();
+
+      await client.chat({ threadId: 'thread-1', message: 'Hi!', signal: controller.signal });
+
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should save a cancelled turn as a flagged assistant message and rethrow', async () => {
+      mockAgent.generateResponse.mockRejectedValueOnce(new RequestCancelledError());
+
+      await expect(
+        client.chat({ threadId: 'thread-1', message: 'Hi!' })
+      ).rejects.toThrow(RequestCancelledError);
+
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith('assistant', '', undefined, {
+        metadata: { cancelled: true },
+      });
+    });
+
     it('should pass attachments to thread', async () => {
       const attachments = [
         { fileId: 'file-1', filename: 'doc.pdf', contentType: 'application/pdf', size: 1024 },
@@ -685,6 +867,162 @@ describe('AgentClient', () => {
     });
   });
 
+  // ============================================================================
+  // Tool Approval
+  // ============================================================================
+
+  describe('tool approval', () => {
+    const pendingCall = { toolCallId: 'call-1', toolName: 'issueRefund', args: { amount: 20 } };
+
+    let mockAgent: any;
+    let mockThread: any;
+
+    beforeEach(() => {
+      mockAgent = {
+        id: 'agent-1',
+        generateResponse: vi.fn().mockResolvedValue({ text: 'Refund issued.', metadata: {} }),
+        executeTool: vi.fn().mockResolvedValue({ ...pendingCall, result: { ok: true } }),
+      };
+      mockThread = {
+        id: 'thread-1',
+        agentId: 'agent-1',
+        metadata: { source: 'web' },
+        addMessage: vi.fn().mockResolvedValue('msg-1'),
+        getConversationContext: vi.fn().mockResolvedValue([]),
+        update: vi.fn(async (updates) => {
+          mockThread.metadata = updates.metadata;
+        }),
+      };
+      (Agent.load as Mock).mockResolvedValue(mockAgent);
+      (Thread.load as Mock).mockResolvedValue(mockThread);
+    });
+
+    it('should stop the turn and store pending tool calls in thread metadata', async () => {
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: '',
+        metadata: {
+          toolMessages: [{ role: 'assistant', content: '', parts: [{ type: 'tool-call', ...pendingCall }] }],
+          pendingToolCalls: [pendingCall],
+        },
+      });
+
+      const response = await client.chat({ threadId: 'thread-1', message: 'Refund me', useRAG: true });
+
+      expect(response.pendingToolCalls).toEqual([pendingCall]);
+      expect(mockThread.addMessage).not.toHaveBeenCalledWith('assistant', '');
+      expect(mockThread.metadata).toEqual({
+        source: 'web',
+        pendingToolCalls: [pendingCall],
+        pendingToolRequest: { useRAG: true, ragFilters: undefined, contextLength: undefined },
+      });
+    });
+
+    it('should execute an approved call and resume the turn', async () => {
+      mockThread.metadata = {
+        source: 'web',
+        pendingToolCalls: [pendingCall],
+        pendingToolRequest: { useRAG: true },
+      };
+
+      const response = await client.approveToolCall('thread-1', 'call-1');
+
+      expect(mockAgent.executeTool).toHaveBeenCalledWith(pendingCall, { threadId: 'thread-1', signal: undefined });
+      expect(mockThread.addMessage).toHaveBeenCalledWith('tool', '', undefined, {
+        parts: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'issueRefund', result: { ok: true } }],
+      });
+      expect(mockThread.metadata).toEqual({ source: 'web' });
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ useRAG: true })
+      );
+      expect(response.reply).toBe('Refund issued.');
+    });
+
+    it('should resume with structured output and the signal passed on approval', async () => {
+      mockThread.metadata = { pendingToolCalls: [pendingCall], pendingToolRequest: { useRAG: true } };
+      mockAgent.generateResponse.mockResolvedValueOnce({
+        text: '{"refunded":true}',
+        parsed: { refunded: true },
+        metadata: {},
+      });
+      const controller = new AbortController();
+
+      const response = await client.approveToolCall<{ refunded: boolean }>('thread-1', 'call-1', {
+        output: { mode: 'json' },
+        signal: controller.signal,
+      });
+
+      expect(mockAgent.executeTool).toHaveBeenCalledWith(pendingCall, {
+        threadId: 'thread-1',
+        signal: controller.signal,
+      });
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ useRAG: true, output: { mode: 'json' }, signal: controller.signal })
+      );
+      expect(response.parsed).toEqual({ refunded: true });
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith('assistant', '{"refunded":true}', undefined, {
+        metadata: { parsed: { refunded: true } },
+      });
+    });
+
+    it('should pass structured output to the turn resumed after a rejection', async () => {
+      mockThread.metadata = { pendingToolCalls: [pendingCall], pendingToolRequest: {} };
+
+      await client.rejectToolCall('thread-1', 'call-1', 'amount too high', { output: { mode: 'json' } });
+
+      expect(mockAgent.generateResponse).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ output: { mode: 'json' } })
+      );
+    });
+
+    it('should record a rejected call as a tool error without executing it', async () => {
+      mockThread.metadata = { pendingToolCalls: [pendingCall], pendingToolRequest: {} };
+
+      await client.rejectToolCall('thread-1', 'call-1', 'amount too high');
+
+      expect(mockAgent.executeTool).not.toHaveBeenCalled();
+      expect(mockThread.addMessage).toHaveBeenCalledWith('tool', '', undefined, {
+        parts: [{
+          type: 'tool-result',
+          toolCallId: 'call-1',
+          toolName: 'issueRefund',
+          result: 'Tool call rejected: amount too high',
+          isError: true,
+        }],
+      });
+    });
+
+    it('should wait for all pending calls before resuming', async () => {
+      const otherCall = { toolCallId: 'call-2', toolName: 'sendEmail', args: {} };
+      mockThread.metadata = { pendingToolCalls: [pendingCall, otherCall], pendingToolRequest: {} };
+
+      const response = await client.approveToolCall('thread-1', 'call-1');
+
+      expect(response.pendingToolCalls).toEqual([otherCall]);
+      expect(mockAgent.generateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should throw ToolCallNotFoundError for unknown tool calls', async () => {
+      await expect(client.approveToolCall('thread-1', 'missing')).rejects.toThrow(
+        ToolCallNotFoundError
+      );
+    });
+
+    it('should reject pending calls when the user sends a new message', async () => {
+      mockThread.metadata = { pendingToolCalls: [pendingCall], pendingToolRequest: {} };
+
+      await client.chat({ threadId: 'thread-1', message: 'Never mind' });
+
+      expect(mockThread.addMessage).toHaveBeenNthCalledWith(1, 'tool', '', undefined, {
+        parts: [expect.objectContaining({ toolCallId: 'call-1', isError: true })],
+      });
+      expect(mockThread.addMessage).toHaveBeenNthCalledWith(2, 'user', 'Never mind', undefined);
+      expect(mockThread.metadata).toEqual({});
+    });
+  });
+
   // ============================================================================
   // Chat Operations (Streaming)
   // ============================================================================
@@ -790,7 +1128,82 @@ describe('AgentClient', () => {
         callbacks
       );
 
-      expect(mockThread.getConversationContext).toHaveBeenCalledWith(100);
+      expect(mockThread.getConversationContext).toHaveBeenCalledWith(100, undefined);
+    });
+
+    it('should save the partial reply of a cancelled stream before reporting the error', async () => {
+      const cancelled = new RequestCancelledError('Hello');
+      mockAgent.streamResponse.mockImplementation(
+        async (_msgs, onChunk, _onComplete, onError) => {
+          onChunk('Hello');
+          await onError(cancelled);
+        }
+      );
+
+      await client.chatStream({ threadId: 'thread-1', message: 'Hi!' }, callbacks);
+
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith('assistant', 'Hello', undefined, {
+        metadata: { cancelled: true },
+      });
+      expect(callbacks.onError).toHaveBeenCalledWith(cancelled);
+    });
+  });
+
+  describe('chatEvents', () => {
+    const mockAgent = {
+      id: 'agent-1',
+      streamResponse: vi.fn(),
+    };
+
+    const mockThread = {
+      id: 'thread-1',
+      agentId: 'agent-1',
+      addMessage: vi.fn().mockResolvedValue('msg-1'),
+      getConversationContext: vi.fn().mockResolvedValue([]),
+    };
+
+    beforeEach(() => {
+      (Agent.load as Mock).mockResolvedValue(mockAgent);
+      (Thread.load as Mock).mockResolvedValue(mockThread);
+    });
+
+    it('should yield stream events and persist the reply before done', async () => {
+      mockAgent.streamResponse.mockImplementation(
+        async (_msgs, onChunk, onComplete, _onError, options) => {
+          options.onSources([{ id: 'doc-1', pluginName: 'catalog' }]);
+          onChunk('Hello');
+          options.onUsage(
+            { promptTokens: 5, completionTokens: 1, totalTokens: 6 },
+            { provider: 'openai', model: 'gpt-4o' }
+          );
+          await onComplete('Hello', { latency: 50 });
+        }
+      );
+
+      const events: any[] = [];
+      for await (const event of client.chatEvents({ threadId: 'thread-1', message: 'Hi!' })) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'sources', sources: [{ id: 'doc-1', pluginName: 'catalog' }] },
+        { type: 'text-delta', text: 'Hello' },
+        { type: 'usage', usage: { promptTokens: 5, completionTokens: 1, totalTokens: 6 } },
+        { type: 'done', response: 'Hello', parsed: undefined, metadata: { latency: 50 } },
+      ]);
+      expect(mockThread.addMessage).toHaveBeenLastCalledWith('assistant', 'Hello');
+    });
+
+    it('should throw errors from the iterator', async () => {
+      (Thread.load as Mock).mockResolvedValue(null);
+
+      const iterate = async () => {
+        for await (const _event of client.chatEvents({ threadId: 'invalid', message: 'Hi!' })) {
+          // drain
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow(ThreadNotFoundError);
     });
   });
 
@@ -823,6 +1236,13 @@ describe('AgentClient', () => {
     it('should return false for unconfigured provider', () => {
       expect(client.isProviderConfigured('anthropic')).toBe(false);
     });
+
+    it('should return true for a provider registered at runtime', () => {
+      client.registerProvider('stub', vi.fn());
+
+      expect(client.isProviderConfigured('stub')).toBe(true);
+      expect(client.getConfiguredProviders()).toContain('stub');
+    });
   });
 });
 
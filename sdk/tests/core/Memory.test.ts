@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  SlidingWindowMemory,
+  SummaryBufferMemory,
+  TokenBudgetMemory,
+} from '../../src/core/memory';
+import { Agent } from '../../src/core/Agent';
+import { Thread } from '../../src/core/Thread';
+import { MockProvider, ProviderFactory } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import type { MessageData } from '../../src/types';
+
+const message = (id: number, role: MessageData['role'] = id % 2 ? 'assistant' : 'user'): MessageData => ({
+  id: `msg-${id}`,
+  role,
+  content: `Message ${id}`,
+  timestamp: new Date(0), // Fixed, so messages built in assertions compare equal
+});
+
+const conversation = (count: number) => Array.from({ length: count }, (_, i) => message(i));
+
+describe('Memory strategies', () => {
+  const summarize = vi.fn(async (messages: MessageData[], previous?: string) =>
+    [previous, ...messages.map((m) => m.content)].filter(Boolean).join(' | ')
+  );
+
+  beforeEach(() => {
+    summarize.mockClear();
+  });
+
+  // ============================================================================
+  // Sliding Window
+  // ============================================================================
+
+  describe('SlidingWindowMemory', () => {
+    it('should keep the most recent messages', async () => {
+      const window = await new SlidingWindowMemory(3).buildContext(conversation(10));
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-7', 'msg-8', 'msg-9']);
+      expect(window.summary).toBeUndefined();
+    });
+
+    it('should not start the window on a tool result', async () => {
+      const messages = [message(0), message(1), message(2, 'tool'), message(3)];
+
+      const window = await new SlidingWindowMemory(2).buildContext(messages);
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-3']);
+    });
+  });
+
+  // ============================================================================
+  // Summary Buffer
+  // ============================================================================
+
+  describe('SummaryBufferMemory', () => {
+    it('should not summarize while the buffer has room', async () => {
+      const window = await new SummaryBufferMemory(10).buildContext(conversation(10), { summarize });
+
+      expect(window.messages).toHaveLength(10);
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('should fold all but the newest half into the summary once the buffer overflows', async () => {
+      const window = await new SummaryBufferMemory(4).buildContext(conversation(5), { summarize });
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-3', 'msg-4']);
+      expect(window.summary).toMatchObject({
+        content: 'Message 0 | Message 1 | Message 2',
+        lastMessageId: 'msg-2',
+        messageCount: 3,
+      });
+    });
+
+    it('should extend an existing summary with newly evicted messages only', async () => {
+      const summary = { content: 'Earlier', lastMessageId: 'msg-2', messageCount: 3, updatedAt: new Date() };
+
+      const window = await new SummaryBufferMemory(4).buildContext(conversation(8), { summary, summarize });
+
+      expect(summarize).toHaveBeenCalledWith([message(3), message(4), message(5)], 'Earlier');
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-6', 'msg-7']);
+      expect(window.summary?.messageCount).toBe(6);
+    });
+  });
+
+  // ============================================================================
+  // Token Budget
+  // ============================================================================
+
+  describe('TokenBudgetMemory', () => {
+    // "Message N" is 9 characters, estimated at 3 tokens
+    it('should keep the newest messages that fit in the budget', async () => {
+      const window = await new TokenBudgetMemory(7).buildContext(conversation(10), { summarize });
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-8', 'msg-9']);
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('should always keep the latest message', async () => {
+      const window = await new TokenBudgetMemory(1).buildContext(conversation(3), { summarize });
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-2']);
+    });
+
+    it('should summarize messages that no longer fit when enabled', async () => {
+      const window = await new TokenBudgetMemory(12, true).buildContext(conversation(6), { summarize });
+
+      expect(window.messages.map((m) => m.id)).toEqual(['msg-4', 'msg-5']);
+      expect(window.summary?.content).toBe('Message 0 | Message 1 | Message 2 | Message 3');
+    });
+  });
+
+  // ============================================================================
+  // Threads and Agents
+  // ============================================================================
+
+  describe('with threads and agents', () => {
+    let storage: MemoryStorage;
+    let mock: MockProvider;
+    let agent: Agent;
+    let thread: Thread;
+
+    beforeEach(async () => {
+      storage = new MemoryStorage();
+      mock = new MockProvider();
+      agent = await Agent.create(
+        {
+          name: 'Support Agent',
+          instructions: 'You are helpful.',
+          provider: 'mock',
+          model: 'test-model',
+          userId: 'user-1',
+          memory: { strategy: 'summary-buffer', maxMessages: 4 },
+        },
+        storage,
+        new ProviderFactory({ mock })
+      );
+      thread = await Thread.create({ agentId: agent.id, userId: 'user-1' }, storage);
+      for (const content of ['My name is Ada.', 'Nice to meet you, Ada.', 'I like tea.', 'Noted.', 'What is my name?']) {
+        await thread.addMessage(thread.messages.length % 2 ? 'assistant' : 'user', content);
+      }
+    });
+
+    it('should store the summary on the thread and prepend it to the system prompt', async () => {
+      mock.enqueue('User is Ada and likes tea.', 'Your name is Ada.');
+      const summarize = (messages: MessageData[], previous?: string) =>
+        agent.summarizeMessages(messages, previous, { threadId: thread.id });
+
+      const context = await thread.getMemoryContext(agent.memoryStrategy!, summarize);
+      await agent.generateResponse(context.messages, { conversationSummary: context.summary });
+
+      expect(mock.calls[0].messages[0].content).toContain('user: My name is Ada.');
+      expect(thread.summary).toMatchObject({ content: 'User is Ada and likes tea.', messageCount: 3 });
+      expect((await storage.getThread(thread.id))?.summary?.lastMessageId).toBe(thread.messages[2].id);
+      expect(mock.calls[1].system).toMatch(/^Summary of the earlier conversation:\nUser is Ada and likes tea\./);
+      expect(mock.calls[1].system).toContain('You are helpful.');
+      expect(mock.calls[1].messages.map((m) => m.content)).toEqual(['Noted.', 'What is my name?']);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { iterateEvents, toSSEResponse } from '../../src/core/streaming';
+import type { StreamEvent } from '../../src/types';
+
+describe('streaming', () => {
+  // ============================================================================
+  // iterateEvents
+  // ============================================================================
+
+  describe('iterateEvents', () => {
+    it('should yield events emitted before and after the consumer starts waiting', async () => {
+      const events = iterateEvents<number>(async (emit) => {
+        emit(1);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        emit(2);
+      });
+
+      const collected: number[] = [];
+      for await (const event of events) {
+        collected.push(event);
+      }
+
+      expect(collected).toEqual([1, 2]);
+    });
+
+    it('should throw producer errors after buffered events', async () => {
+      const events = iterateEvents<number>(async (emit) => {
+        emit(1);
+        throw new Error('boom');
+      });
+
+      const collected: number[] = [];
+      await expect(async () => {
+        for await (const event of events) {
+          collected.push(event);
+        }
+      }).rejects.toThrow('boom');
+      expect(collected).toEqual([1]);
+    });
+  });
+
+  // ============================================================================
+  // toSSEResponse
+  // ============================================================================
+
+  describe('toSSEResponse', () => {
+    it('should encode each event as a named SSE message', async () => {
+      async function* events(): AsyncGenerator<StreamEvent> {
+        yield { type: 'text-delta', text: 'Hi' };
+        yield { type: 'done', response: 'Hi' };
+      }
+
+      const response = toSSEResponse(events(), { headers: { 'X-Thread-Id': 'thread-1' } });
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+      expect(response.headers.get('X-Thread-Id')).toBe('thread-1');
+      expect(await response.text()).toBe(
+        'event: text-delta\ndata: {"type":"text-delta","text":"Hi"}\n\n' +
+          'event: done\ndata: {"type":"done","response":"Hi"}\n\n'
+      );
+    });
+
+    it('should send a final error event when the stream fails', async () => {
+      async function* events(): AsyncGenerator<StreamEvent> {
+        yield { type: 'text-delta', text: 'Hi' };
+        throw new Error('Provider unavailable');
+      }
+
+      const body = await toSSEResponse(events()).text();
+
+      expect(body).toContain('event: error\ndata: {"type":"error","message":"Provider unavailable"}\n\n');
+    });
+
+    it('should abort the turn when the stream is cancelled', async () => {
+      let turnSignal: AbortSignal | undefined;
+      const events = (signal: AbortSignal) =>
+        iterateEvents<StreamEvent>(async (emit) => {
+          turnSignal = signal;
+          emit({ type: 'text-delta', text: 'Hi' });
+          await new Promise((resolve) => signal.addEventListener('abort', resolve));
+        });
+
+      const reader = toSSEResponse(events).body!.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(turnSignal?.aborted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Thread } from '../../src/core/Thread';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { MessageNotFoundError } from '../../src/types';
+import type { FileResolver } from '../../src/types';
+
+describe('Thread', () => {
+  let storage: MemoryStorage;
+  let thread: Thread;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    thread = await Thread.create({ agentId: 'agent-1', userId: 'user-1' }, storage);
+  });
+
+  // ============================================================================
+  // Tool Messages
+  // ============================================================================
+
+  describe('tool messages', () => {
+    const addToolTurn = async () => {
+      await thread.addMessage('user', 'Where is order A-1?');
+      await thread.addMessage('assistant', '', undefined, {
+        parts: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'lookupOrder', args: { orderId: 'A-1' } }],
+      });
+      await thread.addMessage('tool', '', undefined, {
+        parts: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'lookupOrder', result: { status: 'shipped' } }],
+      });
+      await thread.addMessage('assistant', 'Your order has shipped.');
+    };
+
+    it('should persist structured parts with the message', async () => {
+      await addToolTurn();
+
+      const messages = await thread.getMessages();
+
+      expect(messages[2]).toMatchObject({
+        role: 'tool',
+        parts: [{ type: 'tool-result', toolCallId: 'call-1', result: { status: 'shipped' } }],
+      });
+    });
+
+    it('should replay tool calls and results in the conversation context', async () => {
+      await addToolTurn();
+
+      const context = await thread.getConversationContext();
+
+      expect(context).toEqual([
+        { role: 'user', content: 'Where is order A-1?' },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'lookupOrder', input: { orderId: 'A-1' } }],
+        },
+        {
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'lookupOrder',
+            output: { type: 'json', value: { status: 'shipped' } },
+          }],
+        },
+        { role: 'assistant', content: 'Your order has shipped.' },
+      ]);
+    });
+
+    it('should replay failed tool results as error output', async () => {
+      await thread.addMessage('assistant', '', undefined, {
+        parts: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'lookupOrder', args: {} }],
+      });
+      await thread.addMessage('tool', '', undefined, {
+        parts: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'lookupOrder', result: 'Service down', isError: true }],
+      });
+
+      const context = await thread.getConversationContext();
+
+      expect(context[1].content).toEqual([
+        expect.objectContaining({ output: { type: 'error-text', value: 'Service down' } }),
+      ]);
+    });
+
+    it('should drop tool results whose call fell outside the context window', async () => {
+      await addToolTurn();
+
+      const context = await thread.getConversationContext(2);
+
+      expect(context).toEqual([{ role: 'assistant', content: 'Your order has shipped.' }]);
+    });
+  });
+
+  // ============================================================================
+  // Cancelled Turns
+  // ============================================================================
+
+  describe('cancelled turns', () => {
+    it('should keep partial replies but skip empty ones in the conversation context', async () => {
+      await thread.addMessage('user', 'Tell me a story');
+      await thread.addMessage('assistant', 'Once upon', undefined, { metadata: { cancelled: true } });
+      await thread.addMessage('user', 'Never mind');
+      await thread.addMessage('assistant', '', undefined, { metadata: { cancelled: true } });
+
+      const context = await thread.getConversationContext();
+
+      expect(context).toEqual([
+        { role: 'user', content: 'Tell me a story' },
+        { role: 'assistant', content: 'Once upon' },
+        { role: 'user', content: 'Never mind' },
+      ]);
+    });
+  });
+
+  // ============================================================================
+  // Attachments
+  // ============================================================================
+
+  describe('attachments', () => {
+    const png = new Uint8Array([137, 80, 78, 71]);
+    const pdf = new Uint8Array([37, 80, 68, 70]);
+    const files: FileResolver = {
+      get: async (fileId) =>
+        ({
+          'file-png': { data: png, contentType: 'image/png' },
+          'file-pdf': { data: pdf },
+        })[fileId] ?? null,
+    };
+
+    beforeEach(async () => {
+      await thread.addMessage('user', 'What is in these?', [
+        { fileId: 'file-png', filename: 'photo.png', contentType: 'image/png', size: 4 },
+        { fileId: 'file-pdf', filename: 'invoice.pdf', contentType: 'application/pdf', size: 4 },
+        { fileId: 'file-zip', filename: 'logs.zip', contentType: 'application/zip', size: 4 },
+      ]);
+    });
+
+    it('should keep attachment metadata with the stored message', async () => {
+      const [message] = await thread.getMessages();
+
+      expect(message.attachments?.map((a) => a.filename)).toEqual(['photo.png', 'invoice.pdf', 'logs.zip']);
+    });
+
+    it('should send images and PDFs as content parts resolved from the file store', async () => {
+      const [message] = await thread.getConversationContext(20, files);
+
+      expect(message.content).toEqual([
+        { type: 'text', text: 'What is in these?' },
+        { type: 'image', image: png, mediaType: 'image/png' },
+        { type: 'file', data: pdf, mediaType: 'application/pdf', filename: 'invoice.pdf' },
+        { type: 'text', text: '[Attachment: logs.zip (application/zip)]' },
+      ]);
+    });
+
+    it('should mention attachments by name without a file store', async () => {
+      const [message] = await thread.getConversationContext();
+
+      expect(message.content).toEqual([
+        { type: 'text', text: 'What is in these?' },
+        { type: 'text', text: '[Attachment: photo.png (image/png)]' },
+        { type: 'text', text: '[Attachment: invoice.pdf (application/pdf)]' },
+        { type: 'text', text: '[Attachment: logs.zip (application/zip)]' },
+      ]);
+    });
+  });
+
+  // ============================================================================
+  // Editing and Forking
+  // ============================================================================
+
+  describe('editing and forking', () => {
+    const addExchange = async () => [
+      await thread.addMessage('user', 'Hi'),
+      await thread.addMessage('assistant', 'Hello!'),
+      await thread.addMessage('user', 'What is 2 + 2?'),
+      await thread.addMessage('assistant', '5'),
+    ];
+
+    it('should update and delete messages', async () => {
+      const [, , question, answer] = await addExchange();
+
+      await thread.updateMessage(question, { content: 'What is 2 + 3?' });
+      await thread.deleteMessages([answer]);
+
+      expect(thread.messages.map((m) => m.content)).toEqual(['Hi', 'Hello!', 'What is 2 + 3?']);
+    });
+
+    it('should delete every message after a message', async () => {
+      const [greeting] = await addExchange();
+
+      expect(await thread.deleteMessagesAfter(greeting)).toBe(3);
+      expect(thread.messages.map((m) => m.content)).toEqual(['Hi']);
+    });
+
+    it('should throw for messages not in the thread', async () => {
+      await expect(thread.updateMessage('missing', { content: 'x' })).rejects.toThrow(
+        MessageNotFoundError
+      );
+    });
+
+    it('should drop the summary when a summarized message changes', async () => {
+      const [greeting, reply, question] = await addExchange();
+      await thread.update({
+        summary: { content: 'Greetings', lastMessageId: reply, messageCount: 2, updatedAt: new Date() },
+      });
+
+      await thread.updateMessage(question, { content: 'What is 3 + 3?' });
+      expect(thread.summary).toBeDefined();
+
+      await thread.updateMessage(greeting, { content: 'Hey' });
+      expect(thread.summary).toBeUndefined();
+    });
+
+    it('should fork the thread up to a message with new message IDs', async () => {
+      const [greeting, reply] = await addExchange();
+
+      const fork = await thread.fork(reply, { name: 'Fork' });
+
+      expect(fork.id).not.toBe(thread.id);
+      expect(fork.name).toBe('Fork');
+      expect(fork.agentId).toBe('agent-1');
+      expect(fork.messages.map((m) => m.content)).toEqual(['Hi', 'Hello!']);
+      expect(fork.messages[0].id).not.toBe(greeting);
+      expect(thread.messages).toHaveLength(4);
+    });
+  });
+});
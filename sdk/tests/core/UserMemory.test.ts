@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { rankUserMemories, isKnownFact } from '../../src/core/userMemory';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { InvalidConfigError, UserMemoryNotFoundError } from '../../src/types';
+import type { UserMemoryEntry } from '../../src/types';
+
+const entry = (content: string, minutesAgo: number): UserMemoryEntry => ({
+  id: content,
+  endUserId: 'end-user-1',
+  content,
+  createdAt: new Date(Date.now() - minutesAgo * 60000),
+  updatedAt: new Date(Date.now() - minutesAgo * 60000),
+});
+
+describe('User memory', () => {
+  // ============================================================================
+  // Relevance
+  // ============================================================================
+
+  describe('rankUserMemories', () => {
+    const entries = [
+      entry('Name is Ada Lovelace', 30),
+      entry('Allergic to peanuts', 20),
+      entry('Prefers email over phone calls', 10),
+    ];
+
+    it('should rank facts sharing words with the message first', () => {
+      const ranked = rankUserMemories(entries, 'Any snacks without peanuts?', 2);
+
+      expect(ranked.map((e) => e.content)).toEqual([
+        'Allergic to peanuts',
+        'Prefers email over phone calls',
+      ]);
+    });
+
+    it('should fall back to the most recently updated facts', () => {
+      const ranked = rankUserMemories(entries, 'Hello there', 3);
+
+      expect(ranked.map((e) => e.content)).toEqual([
+        'Prefers email over phone calls',
+        'Allergic to peanuts',
+        'Name is Ada Lovelace',
+      ]);
+    });
+
+    it('should treat facts differing only in case and punctuation as known', () => {
+      expect(isKnownFact('allergic to Peanuts.', ['Allergic to peanuts'])).toBe(true);
+      expect(isKnownFact('Allergic to shellfish', ['Allergic to peanuts'])).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Client
+  // ============================================================================
+
+  describe('with the client', () => {
+    let storage: MemoryStorage;
+    let mock: MockProvider;
+    let client: AgentClient;
+
+    const startThread = async () => {
+      const agent = await client.createAgent({
+        name: 'Support Agent',
+        instructions: 'You are helpful.',
+        provider: 'mock',
+        model: 'test-model',
+        userId: 'user-1',
+      });
+      return client.createThread({ agentId: agent.id, userId: 'user-1', endUserId: 'end-user-1' });
+    };
+
+    beforeEach(() => {
+      storage = new MemoryStorage();
+      mock = new MockProvider();
+      client = new AgentClient({
+        storage,
+        providers: { mock },
+        userMemory: { storage },
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should extract facts after a turn and recall them in other threads', async () => {
+      const first = await startThread();
+      mock.enqueue('Noted, no peanuts.', {
+        object: [{ content: 'Allergic to peanuts', category: 'health' }],
+      });
+
+      await client.chat({ threadId: first.id, message: 'I am allergic to peanuts.' });
+
+      expect(mock.calls[1].messages[0].content).toContain('User: I am allergic to peanuts.');
+      const [stored] = await client.listUserMemories('end-user-1');
+      expect(stored).toMatchObject({
+        content: 'Allergic to peanuts',
+        category: 'health',
+        threadId: first.id,
+      });
+
+      const second = await startThread();
+      mock.enqueue('Try the pretzels.', { object: [] });
+
+      await client.chat({ threadId: second.id, message: 'Which snacks do you recommend?' });
+
+      expect(mock.calls[2].system).toContain('You are helpful.');
+      expect(mock.calls[2].system).toContain(
+        'What you know about this user from earlier conversations:\n- Allergic to peanuts'
+      );
+    });
+
+    it('should not store facts that are already known', async () => {
+      await client.addUserMemory({ endUserId: 'end-user-1', content: 'Allergic to peanuts' });
+      const thread = await startThread();
+      mock.enqueue('Noted.', {
+        object: [{ content: 'allergic to peanuts.' }, { content: 'Lives in Lisbon' }, { content: 'Lives in Lisbon' }],
+      });
+
+      await client.chat({ threadId: thread.id, message: 'I moved to Lisbon.' });
+
+      const memories = await client.listUserMemories('end-user-1');
+      expect(memories.map((m) => m.content).sort()).toEqual(['Allergic to peanuts', 'Lives in Lisbon']);
+    });
+
+    it('should skip extraction when disabled', async () => {
+      client = new AgentClient({ storage, providers: { mock }, userMemory: { storage, extract: false } });
+      const thread = await startThread();
+      mock.enqueue('Hi!');
+
+      await client.chat({ threadId: thread.id, message: 'My name is Ada.' });
+
+      expect(mock.calls).toHaveLength(1);
+      expect(await client.listUserMemories('end-user-1')).toEqual([]);
+    });
+
+    it('should keep the reply when extraction fails', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const thread = await startThread();
+      mock.enqueue('Hi Ada!', { error: new Error('boom') });
+
+      const response = await client.chat({ threadId: thread.id, message: 'My name is Ada.' });
+
+      expect(response.reply).toBe('Hi Ada!');
+      expect(consoleError).toHaveBeenCalledWith('Failed to extract user memories:', expect.any(Error));
+    });
+
+    it('should edit and forget memories', async () => {
+      const name = await client.addUserMemory({ endUserId: 'end-user-1', content: 'Name is Ada' });
+      await client.addUserMemory({ endUserId: 'end-user-1', content: 'Likes tea' });
+      await client.addUserMemory({ endUserId: 'end-user-2', content: 'Likes coffee' });
+
+      const updated = await client.updateUserMemory(name.id, { content: 'Name is Ada Lovelace' });
+      expect(updated.content).toBe('Name is Ada Lovelace');
+
+      await client.forgetUserMemory(name.id);
+      expect((await client.listUserMemories('end-user-1')).map((m) => m.content)).toEqual(['Likes tea']);
+
+      expect(await client.forgetUser('end-user-1')).toBe(1);
+      expect(await client.listUserMemories('end-user-1')).toEqual([]);
+      expect(await client.listUserMemories('end-user-2')).toHaveLength(1);
+    });
+
+    it('should throw for unknown memories and when user memory is not configured', async () => {
+      await expect(client.forgetUserMemory('missing')).rejects.toThrow(UserMemoryNotFoundError);
+      await expect(client.updateUserMemory('missing', { content: 'x' })).rejects.toThrow(
+        UserMemoryNotFoundError
+      );
+
+      const plain = new AgentClient({ storage, providers: { mock } });
+      await expect(plain.listUserMemories('end-user-1')).rejects.toThrow(InvalidConfigError);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { AgentToolPlugin } from '../../src/inc';
+import type { Agent } from '../../src/core/Agent';
+import type { AnalyticsPlugin, Plugin, ResponseTrackingData } from '../../src/types';
+
+describe('Agents as tools', () => {
+  let mock: MockProvider;
+  let client: AgentClient;
+  let researcher: Agent;
+
+  beforeEach(async () => {
+    mock = new MockProvider();
+    client = new AgentClient({ storage: new MemoryStorage(), providers: { mock } });
+    researcher = await client.createAgent({
+      name: 'Research Assistant',
+      description: 'Finds facts on a topic',
+      instructions: 'You research topics and answer with facts.',
+      provider: 'mock',
+      model: 'research-model',
+      userId: 'user-1',
+    });
+  });
+
+  const createWriter = (plugins: Plugin[]) =>
+    client.createAgent({
+      name: 'Writer',
+      instructions: 'You write short articles.',
+      provider: 'mock',
+      model: 'writer-model',
+      userId: 'user-1',
+      plugins,
+    });
+
+  it('should name the tool after the agent and use its description', () => {
+    const [tool] = new AgentToolPlugin(researcher).getTools();
+
+    expect(tool.name).toBe('ask_research_assistant');
+    expect(tool.description).toBe('Finds facts on a topic');
+    expect(researcher.asTool({ name: 'research' }).getTools()[0].name).toBe('research');
+  });
+
+  it('should answer tool calls with the sub-agent and return its reply to the parent', async () => {
+    const writer = await createWriter([researcher.asTool()]);
+    mock.enqueue(
+      { toolCalls: [{ toolName: 'ask_research_assistant', args: { input: 'When was Lisbon founded?' } }] },
+      'Lisbon predates Rome.',
+      'Lisbon is older than Rome.'
+    );
+
+    const result = await writer.generateResponse([{ role: 'user', content: 'Write about Lisbon' }]);
+
+    expect(result.text).toBe('Lisbon is older than Rome.');
+    expect(mock.calls[1]).toMatchObject({
+      modelId: 'research-model',
+      messages: [{ role: 'user', content: 'When was Lisbon founded?' }],
+    });
+    expect(mock.calls[1].system).toContain('You research topics and answer with facts.');
+    expect(result.metadata?.toolCalls[0].result).toBe('Lisbon predates Rome.');
+  });
+
+  it('should count sub-agent usage and time toward the parent turn', async () => {
+    const tracked: ResponseTrackingData[] = [];
+    const analytics: AnalyticsPlugin = {
+      type: 'analytics',
+      name: 'tracker',
+      trackRequest: async () => {},
+      trackResponse: async () => {},
+      trackResponseExtended: async (data) => {
+        tracked.push(data);
+      },
+    };
+    const writer = await createWriter([researcher.asTool(), analytics]);
+    mock.enqueue(
+      {
+        toolCalls: [{ toolName: 'ask_research_assistant', args: { input: 'Facts?' } }],
+        usage: { promptTokens: 10, completionTokens: 5 },
+      },
+      { text: 'Facts.', usage: { promptTokens: 100, completionTokens: 50 } },
+      { text: 'Article.', usage: { promptTokens: 20, completionTokens: 10 } }
+    );
+
+    const result = await writer.generateResponse([{ role: 'user', content: 'Write' }]);
+
+    expect(result.metadata?.toolCalls[0].usage).toEqual({
+      promptTokens: 100,
+      completionTokens: 50,
+      totalTokens: 150,
+    });
+    expect(result.usage).toEqual({ promptTokens: 130, completionTokens: 65, totalTokens: 195 });
+    expect(tracked[0].tokens.totalTokens).toBe(195);
+    expect(tracked[0].timings.toolExecutionTime).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * StorageAdapter conformance suite against real databases
+ *
+ * Each backend is skipped if its connection string is not set:
+ *   - MONGODB_URI: runs MongoDBStorage in a throwaway database
+ *   - POSTGRES_URL: runs PostgresStorage in tables with a throwaway prefix (needs `pg`)
+ *   - UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN: runs UpstashStorage under a throwaway key prefix
+ *
+ * Run with: npm run test:integration
+ */
+import dotenv from 'dotenv';
+import { describe, it, afterAll } from 'vitest';
+import { MongoDBStorage } from '../../src/storage/MongoDBStorage';
+import { PostgresStorage } from '../../src/storage/PostgresStorage';
+import { UpstashStorage } from '../../src/storage/UpstashStorage';
+import { describeStorageConformance } from '../../src/testing';
+
+dotenv.config();
+const MONGODB_URI = process.env.MONGODB_URI;
+const POSTGRES_URL = process.env.POSTGRES_URL;
+const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
+const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+describe.skipIf(!MONGODB_URI)('MongoDBStorage', () => {
+  const dbName = `snapagent_conformance_${Date.now().toString(36)}`;
+
+  afterAll(async () => {
+    const { MongoClient } = await import('mongodb');
+    const client = new MongoClient(MONGODB_URI!);
+    await client.db(dbName).dropDatabase();
+    await client.close();
+  });
+
+  describeStorageConformance(
+    'MongoDBStorage',
+    {
+      create: () => {
+        const suffix = Math.random().toString(36).slice(2, 8);
+        return new MongoDBStorage({
+          uri: MONGODB_URI!,
+          dbName,
+          agentsCollection: `agents_${suffix}`,
+          threadsCollection: `threads_${suffix}`,
+          userMemoriesCollection: `user_memories_${suffix}`,
+        });
+      },
+      destroy: (storage) => storage.disconnect(),
+    },
+    { describe, it }
+  );
+});
+
+describe.skipIf(!POSTGRES_URL)('PostgresStorage', () => {
+  const prefix = `conformance_${Date.now().toString(36)}_`;
+  let pool: { query: (text: string, values?: unknown[]) => Promise<any>; end: () => Promise<void> } | undefined;
+
+  afterAll(async () => {
+    if (!pool) return;
+    for (const table of ['messages', 'threads', 'agents', 'user_memories', 'migrations']) {
+      await pool.query(`DROP TABLE IF EXISTS "${prefix}${table}"`);
+    }
+    await pool.end();
+  });
+
+  describeStorageConformance(
+    'PostgresStorage',
+    {
+      create: async () => {
+        if (!pool) {
+          const { Pool } = await import('pg');
+          pool = new Pool({ connectionString: POSTGRES_URL });
+        }
+        return new PostgresStorage({ client: pool, tablePrefix: prefix });
+      },
+      destroy: (storage) => storage.clear(),
+    },
+    { describe, it }
+  );
+});
+
+describe.skipIf(!UPSTASH_URL || !UPSTASH_TOKEN)('UpstashStorage', () => {
+  const prefix = `conformance_${Date.now().toString(36)}`;
+
+  describeStorageConformance(
+    'UpstashStorage',
+    {
+      create: () => {
+        const suffix = Math.random().toString(36).slice(2, 8);
+        return new UpstashStorage({ url: UPSTASH_URL!, token: UPSTASH_TOKEN!, prefix: `${prefix}_${suffix}` });
+      },
+      destroy: (storage) => storage.clear(),
+    },
+    { describe, it }
+  );
+});
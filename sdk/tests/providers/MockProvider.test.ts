@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText, streamText } from 'ai';
+import { z } from 'zod';
+import { Agent } from '../../src/core/Agent';
+import { ProviderFactory, MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { ProviderNotFoundError } from '../../src/types';
+import type { MiddlewarePlugin, RAGPlugin, ToolPlugin } from '../../src/types';
+
+describe('MockProvider', () => {
+  let mock: MockProvider;
+  let providerFactory: ProviderFactory;
+
+  beforeEach(() => {
+    mock = new MockProvider();
+    providerFactory = new ProviderFactory({ mock });
+  });
+
+  // ============================================================================
+  // Model Calls
+  // ============================================================================
+
+  describe('model calls', () => {
+    it('should play back scripted responses in order and record prompts', async () => {
+      mock.enqueue('First', { text: 'Second', usage: { promptTokens: 7, completionTokens: 3 } });
+      const model = await providerFactory.getModel('mock', 'test-model');
+
+      const first = await generateText({ model, system: 'Be brief.', prompt: 'One' });
+      const second = await generateText({ model, prompt: 'Two' });
+
+      expect(first.text).toBe('First');
+      expect(second.text).toBe('Second');
+      expect(second.usage).toMatchObject({ inputTokens: 7, outputTokens: 3, totalTokens: 10 });
+      expect(mock.calls).toEqual([
+        {
+          modelId: 'test-model',
+          mode: 'generate',
+          system: 'Be brief.',
+          messages: [{ role: 'user', content: 'One' }],
+          tools: [],
+        },
+        {
+          modelId: 'test-model',
+          mode: 'generate',
+          messages: [{ role: 'user', content: 'Two' }],
+          tools: [],
+        },
+      ]);
+    });
+
+    it('should stream scripted chunks', async () => {
+      mock.enqueue({ chunks: ['Hel', 'lo', '!'] });
+      const model = await providerFactory.getModel('mock', 'test-model');
+
+      const result = streamText({ model, prompt: 'Hi' });
+      const chunks: string[] = [];
+      for await (const chunk of result.textStream) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['Hel', 'lo', '!']);
+      expect(mock.lastCall?.mode).toBe('stream');
+    });
+
+    it('should fall back to respond() once scripted responses run out', async () => {
+      mock = new MockProvider({ respond: (call) => `Echo: ${call.messages[0].content}` });
+      const model = await new ProviderFactory({ mock }).getModel('mock', 'test-model');
+
+      const { text } = await generateText({ model, prompt: 'ping' });
+
+      expect(text).toBe('Echo: ping');
+    });
+
+    it('should throw when no response is left', async () => {
+      const model = await providerFactory.getModel('mock', 'test-model');
+
+      await expect(generateText({ model, prompt: 'Hi', maxRetries: 0 })).rejects.toThrow(
+        'Mock provider has no response left'
+      );
+    });
+
+    it('should implement the specification the installed AI SDK expects by default', async () => {
+      expect(new MockProvider().languageModel('test-model')).toMatchObject({ specificationVersion: 'v3' });
+
+      // AI SDK 5 has no ToolLoopAgent
+      vi.resetModules();
+      vi.doMock('ai', async (importOriginal) => {
+        const { ToolLoopAgent: _, ...ai5 } = await importOriginal<typeof import('ai')>();
+        return ai5;
+      });
+      const { MockProvider: MockProviderOnAI5 } = await import('../../src/providers/MockProvider');
+      vi.doUnmock('ai');
+
+      expect(new MockProviderOnAI5().languageModel('test-model')).toMatchObject({ specificationVersion: 'v2' });
+    });
+
+    it('should implement the v2 specification for AI SDK 5', async () => {
+      mock = new MockProvider({
+        specificationVersion: 'v2',
+        responses: [
+          { text: 'Hello', usage: { promptTokens: 7, completionTokens: 3 } },
+          { chunks: ['Hel', 'lo'], toolCalls: [{ toolName: 'lookup', toolCallId: 'call-1' }] },
+        ],
+      });
+      const model = mock.languageModel('test-model') as any;
+      const options = { prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] };
+
+      const generated = await model.doGenerate(options);
+      const { stream } = await model.doStream(options);
+      const parts: any[] = [];
+      for await (const part of stream) {
+        parts.push(part);
+      }
+
+      expect(model.specificationVersion).toBe('v2');
+      expect(generated).toMatchObject({
+        content: [{ type: 'text', text: 'Hello' }],
+        finishReason: 'stop',
+        usage: { inputTokens: 7, outputTokens: 3, totalTokens: 10 },
+      });
+      expect(parts.map((part) => part.type)).toEqual([
+        'stream-start',
+        'text-start',
+        'text-delta',
+        'text-delta',
+        'text-end',
+        'tool-call',
+        'finish',
+      ]);
+      expect(parts[parts.length - 1]).toMatchObject({
+        finishReason: 'tool-calls',
+        usage: { inputTokens: 1, outputTokens: 2, totalTokens: 3 },
+      });
+    });
+
+    it('should throw ProviderNotFoundError when not configured', async () => {
+      const factory = new ProviderFactory({ openai: { apiKey: 'test-key' } });
+
+      await expect(factory.getModel('mock', 'test-model')).rejects.toThrow(ProviderNotFoundError);
+    });
+  });
+
+  // ============================================================================
+  // Agents
+  // ============================================================================
+
+  describe('with agents', () => {
+    const createAgent = (overrides: Record<string, any> = {}) =>
+      Agent.create(
+        {
+          name: 'Support Agent',
+          instructions: 'You are helpful.',
+          provider: 'mock',
+          model: 'test-model',
+          userId: 'user-1',
+          ...overrides,
+        },
+        new MemoryStorage(),
+        providerFactory
+      );
+
+    it('should inject RAG context into the system prompt and run middleware', async () => {
+      const catalog: RAGPlugin = {
+        type: 'rag',
+        name: 'catalog',
+        retrieveContext: vi.fn().mockResolvedValue({ content: 'Shoes are on sale' }),
+      };
+      const redact: MiddlewarePlugin = {
+        type: 'middleware',
+        name: 'redact',
+        beforeRequest: async (messages) => ({
+          messages: messages.map((m: any) => ({ ...m, content: m.content.replace('secret', '***') })),
+        }),
+        afterResponse: async (response) => ({ response: response.toUpperCase() }),
+      };
+      mock.enqueue('shoes are on sale');
+      const agent = await createAgent({ plugins: [catalog, redact] });
+
+      const result = await agent.generateResponse(
+        [{ role: 'user', content: 'Any secret deals?' }],
+        { useRAG: true }
+      );
+
+      expect(result.text).toBe('SHOES ARE ON SALE');
+      expect(mock.lastCall?.system).toContain('You are helpful.');
+      expect(mock.lastCall?.system).toContain('Shoes are on sale');
+      expect(mock.lastCall?.messages).toEqual([{ role: 'user', content: 'Any *** deals?' }]);
+    });
+
+    it('should run scripted tool calls through tool plugins', async () => {
+      const lookupOrder = vi.fn().mockResolvedValue({ status: 'shipped' });
+      const orders: ToolPlugin = {
+        type: 'tool',
+        name: 'orders',
+        getTools: () => [
+          {
+            name: 'lookupOrder',
+            description: 'Look up an order by ID',
+            parameters: {
+              type: 'object',
+              properties: { orderId: { type: 'string' } },
+              required: ['orderId'],
+            },
+            execute: lookupOrder,
+          },
+        ],
+      };
+      mock.enqueue(
+        { toolCalls: [{ toolName: 'lookupOrder', args: { orderId: 'A1' } }] },
+        'Your order has shipped.'
+      );
+      const agent = await createAgent({ plugins: [orders] });
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'Where is A1?' }]);
+
+      expect(result.text).toBe('Your order has shipped.');
+      expect(lookupOrder).toHaveBeenCalledWith(
+        { orderId: 'A1' },
+        expect.objectContaining({ toolCallId: 'mock-call-1' })
+      );
+      expect(mock.calls[0].tools).toEqual(['lookupOrder']);
+      expect(mock.calls[1].messages.at(-1)).toEqual({
+        role: 'tool',
+        content: JSON.stringify({ status: 'shipped' }),
+      });
+    });
+
+    it('should receive image and file parts', async () => {
+      mock.enqueue('A cat and an invoice.');
+      const agent = await createAgent();
+
+      await agent.generateResponse([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in these?' },
+            { type: 'image', image: new Uint8Array([1, 2, 3]), mediaType: 'image/png' },
+            { type: 'file', data: new Uint8Array([4, 5, 6]), mediaType: 'application/pdf', filename: 'invoice.pdf' },
+          ],
+        },
+      ]);
+
+      expect(mock.lastCall?.messages).toEqual([
+        { role: 'user', content: 'What is in these?\n[image/png]\n[application/pdf: invoice.pdf]' },
+      ]);
+    });
+
+    it('should return scripted objects as structured output', async () => {
+      mock.enqueue({ object: { sentiment: 'positive' } });
+      const agent = await createAgent();
+
+      const result = await agent.generateResponse([{ role: 'user', content: 'I love it' }], {
+        output: { mode: 'object', schema: z.object({ sentiment: z.string() }) },
+      });
+
+      expect(result.parsed).toEqual({ sentiment: 'positive' });
+    });
+
+    describe('structured output with tool approval', () => {
+      const refunds: ToolPlugin = {
+        type: 'tool',
+        name: 'refunds',
+        getTools: () => [
+          {
+            name: 'issueRefund',
+            description: 'Refund an order',
+            parameters: { type: 'object', properties: { orderId: { type: 'string' } } },
+            requiresApproval: true,
+            execute: vi.fn(),
+          },
+        ],
+      };
+      const output = { mode: 'object' as const, schema: z.object({ refunded: z.boolean() }) };
+      const pendingCall = { toolCallId: 'call-1', toolName: 'issueRefund', args: { orderId: 'A1' } };
+
+      beforeEach(() => {
+        mock.enqueue({ toolCalls: [{ toolName: 'issueRefund', args: { orderId: 'A1' }, toolCallId: 'call-1' }] });
+      });
+
+      it('should return the pending call without a parsed result', async () => {
+        const agent = await createAgent({ plugins: [refunds] });
+
+        const result = await agent.generateResponse([{ role: 'user', content: 'Refund A1' }], { output });
+
+        expect(result.parsed).toBeUndefined();
+        expect(result.metadata?.pendingToolCalls).toEqual([pendingCall]);
+      });
+
+      it('should complete a stream with the pending call and no parsed result', async () => {
+        const agent = await createAgent({ plugins: [refunds] });
+        const onComplete = vi.fn();
+        const onError = vi.fn();
+
+        await agent.streamResponse([{ role: 'user', content: 'Refund A1' }], vi.fn(), onComplete, onError, {
+          output,
+        });
+
+        expect(onError).not.toHaveBeenCalled();
+        expect(onComplete.mock.calls[0][1].parsed).toBeUndefined();
+        expect(onComplete.mock.calls[0][1].pendingToolCalls).toEqual([pendingCall]);
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateText, type LanguageModel } from 'ai';
+import { ProviderFactory, getModelContextLimit } from '../../src/providers';
+import { ProviderNotFoundError } from '../../src/types';
+
+describe('ProviderFactory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const chatCompletion = (content: string) =>
+    new Response(
+      JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'llama3',
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  // ============================================================================
+  // OpenAI-Compatible Endpoints
+  // ============================================================================
+
+  describe('OpenAI-compatible endpoints', () => {
+    it('should send chat completions to the configured baseURL with custom headers', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(chatCompletion('Hello!'));
+      const factory = new ProviderFactory({
+        compatible: {
+          ollama: { baseURL: 'http://localhost:11434/v1', headers: { 'X-Team': 'ci' } },
+        },
+      });
+
+      const model = await factory.getModel('ollama', 'llama3');
+      const { text } = await generateText({ model, prompt: 'Hi' });
+
+      expect(text).toBe('Hello!');
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(new Headers(init?.headers).get('X-Team')).toBe('ci');
+    });
+
+    it('should pass baseURL and headers to built-in providers', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(chatCompletion('Hi'));
+      const factory = new ProviderFactory({
+        openai: {
+          apiKey: 'test-key',
+          baseURL: 'https://gateway.example.com/v1',
+          headers: { 'X-Gateway': 'on' },
+        },
+      });
+
+      const openai = await factory.getModel('openai', 'gpt-4o');
+      await generateText({ model: openai, prompt: 'Hi' }).catch(() => {});
+
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(String(url)).toMatch(/^https:\/\/gateway\.example\.com\/v1\//);
+      expect(new Headers(init?.headers).get('X-Gateway')).toBe('on');
+    });
+
+    it('should list compatible endpoints as configured providers', () => {
+      const factory = new ProviderFactory({
+        openai: { apiKey: 'test-key' },
+        compatible: { vllm: { baseURL: 'http://localhost:8000/v1' } },
+      });
+
+      expect(factory.getConfiguredProviders()).toEqual(['openai', 'vllm']);
+      expect(factory.isProviderConfigured('vllm')).toBe(true);
+      expect(factory.isProviderConfigured('lmstudio')).toBe(false);
+    });
+
+    it('should throw ProviderNotFoundError for unknown providers', async () => {
+      const factory = new ProviderFactory({ openai: { apiKey: 'test-key' } });
+
+      await expect(factory.getModel('ollama', 'llama3')).rejects.toThrow(ProviderNotFoundError);
+    });
+  });
+
+  // ============================================================================
+  // Context Limits
+  // ============================================================================
+
+  describe('getModelContextLimit', () => {
+    it('should match known models and dated variants by prefix', () => {
+      expect(getModelContextLimit('gpt-4o')).toBe(128000);
+      expect(getModelContextLimit('gpt-4o-mini-2024-07-18')).toBe(128000);
+      expect(getModelContextLimit('claude-3-5-sonnet-20241022')).toBe(200000);
+    });
+
+    it('should prefer overrides and fall back to a conservative default', () => {
+      expect(getModelContextLimit('gpt-4o', { 'gpt-4o': 64000 })).toBe(64000);
+      expect(getModelContextLimit('llama3')).toBe(8192);
+    });
+  });
+
+  // ============================================================================
+  // Custom Providers
+  // ============================================================================
+
+  describe('custom providers', () => {
+    const stubModel = { modelId: 'stub' } as unknown as LanguageModel;
+
+    it('should create models from a registered factory', async () => {
+      const factory = new ProviderFactory({});
+      const create = vi.fn().mockResolvedValue(stubModel);
+
+      factory.registerProvider('stub', create);
+
+      expect(await factory.getModel('stub', 'stub-1')).toBe(stubModel);
+      expect(create).toHaveBeenCalledWith('stub-1');
+      expect(factory.getConfiguredProviders()).toEqual(['stub']);
+    });
+
+    it('should override built-in providers and drop their cached models', async () => {
+      const factory = new ProviderFactory({ openai: { apiKey: 'test-key' } });
+      const builtIn = await factory.getModel('openai', 'gpt-4o');
+
+      factory.registerProvider('openai', () => stubModel);
+      expect(await factory.getModel('openai', 'gpt-4o')).toBe(stubModel);
+
+      factory.unregisterProvider('openai');
+      const restored = await factory.getModel('openai', 'gpt-4o');
+      expect(restored).not.toBe(stubModel);
+      expect(restored).not.toBe(builtIn);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { describeStorageConformance } from '../../src/testing';
+import { StorageMethodNotSupportedError } from '../../src/types';
+import type { StorageAdapter } from '../../src/types';
+
+const REQUIRED_METHODS = [
+  'createAgent',
+  'getAgent',
+  'updateAgent',
+  'deleteAgent',
+  'listAgents',
+  'createThread',
+  'getThread',
+  'updateThread',
+  'deleteThread',
+  'listThreads',
+  'addMessage',
+  'getMessages',
+  'getConversationContext',
+] as const;
+
+/**
+ * An adapter with only the required methods, like one written before the optional ones existed
+ */
+function createMinimalStorage(): StorageAdapter {
+  const memory = new MemoryStorage();
+  return Object.fromEntries(
+    REQUIRED_METHODS.map((method) => [method, (memory[method] as Function).bind(memory)])
+  ) as unknown as StorageAdapter;
+}
+
+describeStorageConformance('Adapter without optional methods', { create: createMinimalStorage }, { describe, it });
+
+describe('Optional storage methods', () => {
+  let storage: StorageAdapter;
+  let client: AgentClient;
+  let agentId: string;
+
+  beforeEach(async () => {
+    storage = createMinimalStorage();
+    client = new AgentClient({ storage, providers: { mock: new MockProvider() } });
+    const agent = await client.createAgent({
+      name: 'Support Agent',
+      instructions: 'You are helpful.',
+      provider: 'mock',
+      model: 'test-model',
+      userId: 'user-1',
+    });
+    agentId = agent.id;
+  });
+
+  it('should page agents and threads from the list methods', async () => {
+    for (const endUserId of ['end-1', 'end-2', 'end-1']) {
+      await client.createThread({ agentId, userId: 'user-1', endUserId });
+    }
+
+    const agents = await client.listAgents('user-1', undefined, { limit: 10 });
+    const first = await client.listThreads({ userId: 'user-1', endUserId: 'end-1' }, { limit: 1 });
+    const second = await client.listThreads(
+      { userId: 'user-1', endUserId: 'end-1' },
+      { limit: 1, cursor: first.nextCursor }
+    );
+
+    expect(agents.items.map((a) => a.id)).toEqual([agentId]);
+    expect([...first.items, ...second.items].map((t) => t.endUserId)).toEqual(['end-1', 'end-1']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should sweep threads of every user', async () => {
+    await client.createThread({ agentId, userId: 'user-1' });
+    await client.createThread({ agentId, userId: 'user-2' });
+    const later = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+
+    const result = await client.sweep({ deleteThreadsAfterDays: 30, now: later });
+
+    expect(result.threadsDeleted).toBe(2);
+    expect(await storage.listThreads({})).toEqual([]);
+  });
+
+  it('should export and erase an end user across users and agents', async () => {
+    const own = await client.createThread({ agentId, userId: 'user-1', endUserId: 'end-1' });
+    const other = await client.createThread({ agentId, userId: 'user-2', endUserId: 'end-1' });
+    const kept = await client.createThread({ agentId, userId: 'user-1', endUserId: 'end-2' });
+
+    const exported = await client.exportEndUserData('end-1');
+    const report = await client.eraseEndUserData('end-1');
+
+    expect(exported.threads.map((t) => t.id).sort()).toEqual([own.id, other.id].sort());
+    expect(report.threadsDeleted).toBe(2);
+    expect((await storage.listThreads({})).map((t) => t.id)).toEqual([kept.id]);
+  });
+
+  it('should page messages and fork threads by copying messages', async () => {
+    const thread = await client.createThread({ agentId, userId: 'user-1' });
+    await thread.addMessage('user', 'One');
+    await thread.addMessage('assistant', 'Two', undefined, { metadata: { model: 'test-model' } });
+    await thread.addMessage('user', 'Three');
+
+    const page = await client.listMessages(thread.id, { limit: 2, order: 'asc' });
+    const fork = await client.forkThread(thread.id, { messageId: thread.messages[1].id });
+
+    expect(page.items.map((m) => m.content)).toEqual(['One', 'Two']);
+    expect(fork.messages.map((m) => [m.content, m.metadata])).toEqual([
+      ['One', undefined],
+      ['Two', { model: 'test-model' }],
+    ]);
+    expect(fork.metadata?.forkedFrom).toEqual({ threadId: thread.id, messageId: thread.messages[1].id });
+  });
+
+  it('should throw StorageMethodNotSupportedError for message edits', async () => {
+    const thread = await client.createThread({ agentId, userId: 'user-1' });
+    const messageId = await thread.addMessage('user', 'Helo');
+
+    await expect(client.updateMessage(thread.id, messageId, { content: 'Hello' })).rejects.toThrow(
+      'Storage adapter does not implement updateMessage'
+    );
+    await expect(client.deleteMessage(thread.id, messageId)).rejects.toThrow(
+      StorageMethodNotSupportedError
+    );
+  });
+});
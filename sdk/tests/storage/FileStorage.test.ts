@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { MemoryFileStorage } from '../../src/storage/MemoryFileStorage';
+import { LocalFileStorage } from '../../src/storage/LocalFileStorage';
+import { S3FileStorage } from '../../src/storage/S3FileStorage';
+import type { FileStorageAdapter, RAGDocument, RAGPlugin } from '../../src/types';
+
+/**
+ * Behavior shared by every FileStorageAdapter
+ */
+function describeFileStorage(name: string, create: () => Promise<FileStorageAdapter>) {
+  describe(name, () => {
+    let files: FileStorageAdapter;
+
+    beforeEach(async () => {
+      files = await create();
+    });
+
+    it('should store and read back bytes with their info', async () => {
+      const data = new Uint8Array([0, 1, 2, 255]);
+
+      const info = await files.put('agent-1/photo.png', data, {
+        filename: 'photo.png',
+        contentType: 'image/png',
+        metadata: { agentId: 'agent-1' },
+      });
+      const stored = await files.get('agent-1/photo.png');
+
+      expect(info).toMatchObject({ fileId: 'agent-1/photo.png', size: 4 });
+      expect(stored?.data).toEqual(data);
+      expect(stored).toMatchObject({
+        filename: 'photo.png',
+        contentType: 'image/png',
+        size: 4,
+        metadata: { agentId: 'agent-1' },
+      });
+      expect(stored?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should encode string contents as UTF-8', async () => {
+      await files.put('notes.txt', 'héllo', { contentType: 'text/plain' });
+
+      const stored = await files.get('notes.txt');
+
+      expect(new TextDecoder().decode(stored!.data)).toBe('héllo');
+      expect(stored?.size).toBe(6);
+    });
+
+    it('should return null for missing files and ignore deleting them', async () => {
+      expect(await files.get('missing')).toBeNull();
+      await expect(files.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should list files by prefix and delete them', async () => {
+      await files.put('agent-1/a.txt', 'a');
+      await files.put('agent-1/b.txt', 'bb');
+      await files.put('agent-2/c.txt', 'c');
+
+      const listed = await files.list({ prefix: 'agent-1/' });
+      expect(listed.map((f) => [f.fileId, f.size]).sort()).toEqual([
+        ['agent-1/a.txt', 1],
+        ['agent-1/b.txt', 2],
+      ]);
+
+      await files.delete('agent-1/a.txt');
+      expect(await files.get('agent-1/a.txt')).toBeNull();
+      expect(await files.list()).toHaveLength(2);
+    });
+  });
+}
+
+describe('File storage', () => {
+  describeFileStorage('MemoryFileStorage', async () => new MemoryFileStorage());
+
+  // ============================================================================
+  // Local Filesystem
+  // ============================================================================
+
+  const directories: string[] = [];
+
+  describeFileStorage('LocalFileStorage', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'snap-agent-files-'));
+    directories.push(directory);
+    return new LocalFileStorage({ directory: join(directory, 'files') });
+  });
+
+  afterAll(async () => {
+    await Promise.all(directories.map((dir) => rm(dir, { recursive: true, force: true })));
+  });
+
+  // ============================================================================
+  // S3-Compatible
+  // ============================================================================
+
+  describe('S3FileStorage', () => {
+    let server: Server;
+    let endpoint: string;
+    const objects = new Map<string, { body: Buffer; headers: Record<string, string>; modified: Date }>();
+
+    // Minimal S3 stand-in: path-style PUT/GET/DELETE and ListObjectsV2
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        const [, bucket, ...keyParts] = url.pathname.split('/');
+        const key = keyParts.map(decodeURIComponent).join('/');
+
+        if (bucket !== 'files') {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+          if (req.method === 'PUT') {
+            objects.set(key, {
+              body: Buffer.concat(chunks),
+              headers: {
+                'content-type': String(req.headers['content-type']),
+                'x-amz-meta-snap-agent': String(req.headers['x-amz-meta-snap-agent']),
+              },
+              modified: new Date(),
+            });
+            res.writeHead(200).end();
+          } else if (req.method === 'GET' && key) {
+            const object = objects.get(key);
+            if (!object) {
+              res.writeHead(404).end('<Error><Code>NoSuchKey</Code></Error>');
+              return;
+            }
+            res.writeHead(200, { ...object.headers, 'last-modified': object.modified.toUTCString() });
+            res.end(object.body);
+          } else if (req.method === 'GET') {
+            const prefix = url.searchParams.get('prefix') || '';
+            const contents = [...objects.entries()]
+              .filter(([k]) => k.startsWith(prefix))
+              .map(
+                ([k, o]) =>
+                  `<Contents><Key>${k.replace(/&/g, '&amp;')}</Key><LastModified>${o.modified.toISOString()}</LastModified><Size>${o.body.length}</Size></Contents>`
+              );
+            res.writeHead(200, { 'content-type': 'application/xml' });
+            res.end(`<ListBucketResult><IsTruncated>false</IsTruncated>${contents.join('')}</ListBucketResult>`);
+          } else if (req.method === 'DELETE') {
+            objects.delete(key);
+            res.writeHead(204).end();
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const address = server.address() as { port: number };
+      endpoint = `http://127.0.0.1:${address.port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const createS3 = (prefix?: string) =>
+      new S3FileStorage({
+        endpoint,
+        bucket: 'files',
+        accessKeyId: 'test-key',
+        secretAccessKey: 'test-secret',
+        prefix,
+      });
+
+    describeFileStorage('against a local stand-in', async () => {
+      objects.clear();
+      return createS3();
+    });
+
+    it('should sign requests with AWS Signature V4', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+      const s3 = new S3FileStorage({
+        endpoint: 'https://s3.amazonaws.com',
+        bucket: 'files',
+        accessKeyId: 'test-key',
+        secretAccessKey: 'test-secret',
+      });
+
+      await s3.put('signed.txt', 'x', { contentType: 'text/plain' });
+      const [url, init] = fetchSpy.mock.calls[0];
+      vi.useRealTimers();
+      fetchSpy.mockRestore();
+
+      // Signature computed independently for these credentials, key, body and time
+      expect(url).toBe('https://s3.amazonaws.com/files/signed.txt');
+      expect(init?.headers).toEqual({
+        'content-type': 'text/plain',
+        'x-amz-meta-snap-agent': '%7B%7D',
+        'x-amz-content-sha256': '2d711642b726b04401627ca9fbac32f5c8530fb1903cc4db02258717921a4881',
+        'x-amz-date': '20240501T120000Z',
+        authorization:
+          'AWS4-HMAC-SHA256 Credential=test-key/20240501/us-east-1/s3/aws4_request, ' +
+          'SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-meta-snap-agent, ' +
+          'Signature=8a0f07d9eaecff66c71e565a4dc0cfeb538ce883def86e82bf4df76b2ea6481f',
+      });
+    });
+
+    it('should keep keys under the configured prefix', async () => {
+      objects.clear();
+
+      await createS3('tenant-1/').put('a.txt', 'a');
+
+      expect([...objects.keys()]).toEqual(['tenant-1/a.txt']);
+      expect((await createS3('tenant-1/').list()).map((f) => f.fileId)).toEqual(['a.txt']);
+    });
+
+    it('should throw on service errors', async () => {
+      const wrongBucket = new S3FileStorage({
+        endpoint,
+        bucket: 'other',
+        accessKeyId: 'test-key',
+        secretAccessKey: 'test-secret',
+      });
+
+      await expect(wrongBucket.put('a.txt', 'a')).rejects.toThrow('S3 error: 404');
+    });
+  });
+
+  // ============================================================================
+  // Agent Files
+  // ============================================================================
+
+  describe('agent files', () => {
+    let storage: MemoryStorage;
+    let files: MemoryFileStorage;
+    let ingested: RAGDocument[];
+    let deleted: string[];
+    let rag: RAGPlugin;
+
+    const createClient = (autoIngestFiles?: boolean) =>
+      new AgentClient({
+        storage,
+        providers: { mock: new MockProvider() },
+        fileStorage: files,
+        autoIngestFiles,
+      });
+
+    const createAgent = (client: AgentClient) =>
+      client.createAgent({
+        name: 'Docs Agent',
+        instructions: 'Answer from the docs.',
+        provider: 'mock',
+        model: 'test-model',
+        userId: 'user-1',
+        plugins: [rag],
+      });
+
+    beforeEach(() => {
+      storage = new MemoryStorage();
+      files = new MemoryFileStorage();
+      ingested = [];
+      deleted = [];
+      rag = {
+        type: 'rag',
+        name: 'docs',
+        retrieveContext: async () => ({ content: '' }),
+        ingest: async (documents) => {
+          ingested.push(...documents);
+          return { success: true, indexed: documents.length, failed: 0 };
+        },
+        delete: async (ids) => {
+          deleted.push(...[ids].flat());
+          return 1;
+        },
+      };
+    });
+
+    it('should store contents and persist file records on the agent', async () => {
+      const client = createClient();
+      const agent = await createAgent(client);
+
+      const { files: added, ingestion } = await client.addAgentFiles(agent.id, [
+        { filename: 'faq.md', contentType: 'text/markdown', data: '# FAQ' },
+      ]);
+
+      expect(ingestion).toBeUndefined();
+      expect(added[0].fileId).toMatch(new RegExp(`^${agent.id}/`));
+      expect((await storage.getAgent(agent.id))?.files).toEqual(added);
+      expect((await files.get(added[0].fileId))?.filename).toBe('faq.md');
+    });
+
+    it('should ingest text files into RAG plugins when auto-ingest is on', async () => {
+      const client = createClient(true);
+      const agent = await createAgent(client);
+
+      const { ingestion } = await client.addAgentFiles(
+        agent.id,
+        [
+          { fileId: 'faq', filename: 'faq.md', contentType: 'text/markdown', data: '# FAQ' },
+          { fileId: 'logo', filename: 'logo.png', contentType: 'image/png', data: new Uint8Array([1]) },
+        ],
+        { plugins: [rag] }
+      );
+
+      expect(ingested).toEqual([
+        {
+          id: 'faq',
+          content: '# FAQ',
+          metadata: { fileId: 'faq', filename: 'faq.md', contentType: 'text/markdown' },
+        },
+      ]);
+      expect(ingestion?.skipped.map((f) => f.fileId)).toEqual(['logo']);
+    });
+
+    it('should remove the file, its record and its RAG documents', async () => {
+      const client = createClient();
+      const agent = await createAgent(client);
+      await client.addAgentFiles(agent.id, [
+        { fileId: 'faq', filename: 'faq.md', contentType: 'text/markdown', data: '# FAQ' },
+      ]);
+
+      await client.removeAgentFile(agent.id, 'faq', { plugins: [rag] });
+
+      expect(await files.get('faq')).toBeNull();
+      expect((await storage.getAgent(agent.id))?.files).toEqual([]);
+      expect(deleted).toEqual(['faq']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AgentClient } from '../../src/core/Client';
+import { MockProvider } from '../../src/providers';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { InvalidCursorError } from '../../src/types';
+import type { ListOptions, ThreadData } from '../../src/types';
+
+describe('Paginated listing', () => {
+  let storage: MemoryStorage;
+  let threadIds: string[];
+
+  const at = (minute: number) => new Date(Date.UTC(2025, 0, 1, 0, minute));
+
+  const collect = async (options: ListOptions) => {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.listThreadsPage({ userId: 'user-1' }, { ...options, cursor });
+      pages.push(page.items.map((t: ThreadData) => t.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return pages;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    storage = new MemoryStorage();
+    threadIds = [];
+
+    // Threads created a minute apart; the last two share a timestamp
+    for (const minute of [0, 1, 2, 3, 3]) {
+      vi.setSystemTime(at(minute));
+      threadIds.push(
+        await storage.createThread({
+          agentId: 'agent-1',
+          userId: 'user-1',
+          metadata: { channel: minute % 2 === 0 ? 'web' : 'whatsapp' },
+        })
+      );
+    }
+    await storage.createThread({ agentId: 'agent-1', userId: 'user-2' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should page through threads newest first without gaps or repeats', async () => {
+    const pages = await collect({ limit: 2 });
+
+    expect(pages).toHaveLength(3);
+    expect(pages.flat()).toEqual([...threadIds].sort().reverse());
+  });
+
+  it('should sort by creation date in ascending order', async () => {
+    vi.setSystemTime(at(10));
+    await storage.addMessage(threadIds[0], 'user', 'Hi');
+
+    const [first] = await collect({ sortBy: 'createdAt', order: 'asc', limit: 10 });
+    const [byUpdate] = await collect({ limit: 10 });
+
+    expect(first).toEqual(threadIds);
+    expect(byUpdate[0]).toBe(threadIds[0]);
+  });
+
+  it('should filter by date range and metadata', async () => {
+    const page = await storage.listThreadsPage(
+      { userId: 'user-1' },
+      { createdAfter: at(0), createdBefore: at(3), metadata: { channel: 'whatsapp' } }
+    );
+
+    expect(page.items.map((t) => t.id)).toEqual([threadIds[1]]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should page messages newest first, filtered by role', async () => {
+    for (const [minute, role] of [[20, 'user'], [21, 'assistant'], [22, 'user']] as const) {
+      vi.setSystemTime(at(minute));
+      await storage.addMessage(threadIds[0], role, `${role} at ${minute}`);
+    }
+
+    const first = await storage.listMessagesPage(threadIds[0], { limit: 2 });
+    const rest = await storage.listMessagesPage(threadIds[0], { limit: 2, cursor: first.nextCursor });
+    const users = await storage.listMessagesPage(threadIds[0], { role: 'user', order: 'asc' });
+
+    expect(first.items.map((m) => m.content)).toEqual(['user at 22', 'assistant at 21']);
+    expect(rest.items.map((m) => m.content)).toEqual(['user at 20']);
+    expect(rest.nextCursor).toBeUndefined();
+    expect(users.items.map((m) => m.content)).toEqual(['user at 20', 'user at 22']);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(
+      storage.listThreadsPage({ userId: 'user-1' }, { cursor: 'not-a-cursor' })
+    ).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('should return a page from Client.listThreads when options are given', async () => {
+    const client = new AgentClient({ storage, providers: { mock: new MockProvider() } });
+
+    const all = await client.listThreads({ userId: 'user-1' });
+    const page = await client.listThreads({ userId: 'user-1' }, { limit: 3 });
+
+    expect(all).toHaveLength(5);
+    expect(page.items).toHaveLength(3);
+    expect(page.nextCursor).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PostgresStorage } from '../../src/storage/PostgresStorage';
+import type { PostgresQueryable } from '../../src/storage/PostgresStorage';
+import { InvalidConfigError } from '../../src/types';
+
+/**
+ * Records queries and answers them from a queue of canned row sets
+ * The database-backed tests live in tests/integration/PostgresStorage.integration.test.ts
+ */
+class RecordingClient implements PostgresQueryable {
+  queries: Array<{ text: string; values?: unknown[] }> = [];
+  appliedVersions: number[] = [];
+  private results: any[][] = [];
+
+  respond(...rows: any[][]) {
+    this.results.push(...rows);
+  }
+
+  async query(text: string, values?: unknown[]) {
+    this.queries.push({ text, values });
+    if (text.startsWith('SELECT version FROM')) {
+      return { rows: this.appliedVersions.map((version) => ({ version })) };
+    }
+    if (text.includes('CREATE TABLE') || text.includes('pg_advisory_xact_lock')) {
+      return { rows: [] };
+    }
+    return { rows: this.results.shift() || [] };
+  }
+}
+
+describe('PostgresStorage', () => {
+  let client: RecordingClient;
+
+  beforeEach(() => {
+    client = new RecordingClient();
+  });
+
+  it('should apply pending migrations once, before the first query', async () => {
+    const storage = new PostgresStorage({ client, tablePrefix: 'app_' });
+    client.respond([], []);
+
+    await storage.getAgent('a');
+    await storage.getThread('t');
+
+    const migrations = client.queries.filter((q) => q.text.includes('pg_advisory_xact_lock'));
+    expect(migrations).toHaveLength(1);
+    expect(migrations[0].text).toContain('CREATE TABLE IF NOT EXISTS "app_messages"');
+    expect(client.queries.at(-1)?.text).toContain('FROM "app_threads" WHERE id = $1');
+  });
+
+  it('should skip recorded migrations', async () => {
+    client.appliedVersions = [1];
+    const storage = new PostgresStorage({ client });
+
+    expect(await storage.migrate()).toBe(0);
+    expect(client.queries.some((q) => q.text.includes('pg_advisory_xact_lock'))).toBe(false);
+  });
+
+  it('should send JSON fields as JSON strings and map rows to agents', async () => {
+    const storage = new PostgresStorage({ client, autoMigrate: false });
+    const now = new Date();
+    client.respond(
+      [{ id: 'agent-1' }],
+      [
+        {
+          id: 'agent-1',
+          user_id: 'user-1',
+          organization_id: null,
+          name: 'Support',
+          instructions: 'Help',
+          provider: 'openai',
+          model: 'gpt-4o',
+          files: [],
+          metadata: { tier: 'gold' },
+          fallbacks: [{ provider: 'anthropic', model: 'claude' }],
+          created_at: now,
+          updated_at: now,
+        },
+      ]
+    );
+
+    const id = await storage.createAgent({
+      name: 'Support',
+      instructions: 'Help',
+      provider: 'openai',
+      model: 'gpt-4o',
+      userId: 'user-1',
+      metadata: { tier: 'gold' },
+      fallbacks: [{ provider: 'anthropic', model: 'claude' }],
+    });
+    const agent = await storage.getAgent(id);
+
+    expect(client.queries[0].values).toContain('[{"provider":"anthropic","model":"claude"}]');
+    expect(agent).toMatchObject({
+      id: 'agent-1',
+      organizationId: undefined,
+      metadata: { tier: 'gold' },
+      fallbacks: [{ provider: 'anthropic', model: 'claude' }],
+      createdAt: now,
+    });
+  });
+
+  it('should page messages by insertion order', async () => {
+    const storage = new PostgresStorage({ client, autoMigrate: false });
+    const now = new Date();
+    const row = (id: string, seq: string) => ({ id, seq, thread_id: 't', role: 'user', content: id, created_at: now });
+    client.respond([row('b', '7'), row('a', '8'), row('c', '9')], [row('c', '9')]);
+
+    const first = await storage.listMessagesPage('t', { limit: 2, order: 'asc' });
+    await storage.listMessagesPage('t', { limit: 2, order: 'asc', cursor: first.nextCursor });
+
+    expect(first.items.map((m) => m.id)).toEqual(['b', 'a']);
+    expect(client.queries[0].text).toContain('ORDER BY seq ASC LIMIT $2');
+    expect(client.queries[1].text).toContain('seq > $2');
+    expect(client.queries[1].values).toEqual(['t', 8, 3]);
+  });
+
+  it('should reject table prefixes that are not plain identifiers', () => {
+    expect(() => new PostgresStorage({ client, tablePrefix: 'x"; DROP TABLE y; --' })).toThrow(
+      InvalidConfigError
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRequire } from 'node:module';
+import { SqliteStorage } from '../../src/storage/SqliteStorage';
+import type { SqliteDatabase } from '../../src/storage/SqliteStorage';
+
+const require = createRequire(import.meta.url);
+
+type ClosableDatabase = SqliteDatabase & { close(): void };
+
+/**
+ * Open a database with `node:sqlite` (Node 22.5+) or the `better-sqlite3` dev dependency.
+ * Loaded with `require`, as Vite cannot resolve `node:sqlite` imports.
+ */
+function openDatabase(filename: string): ClosableDatabase {
+  try {
+    const { DatabaseSync } = require('node:sqlite');
+    return new DatabaseSync(filename);
+  } catch {
+    const Database = require('better-sqlite3');
+    return new Database(filename);
+  }
+}
+
+describe('SqliteStorage', () => {
+  let directory: string;
+  let database: ClosableDatabase;
+  let storage: SqliteStorage;
+
+  const createAgent = () =>
+    storage.createAgent({
+      name: 'Support',
+      instructions: 'Help customers',
+      provider: 'openai',
+      model: 'gpt-4o',
+      userId: 'user-1',
+      metadata: { tier: 'gold' },
+    });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'snap-agent-sqlite-'));
+    database = openDatabase(join(directory, 'agents.db'));
+    storage = new SqliteStorage({ database });
+  });
+
+  afterEach(async () => {
+    database.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist to the file across restarts without migrating again', async () => {
+    const agentId = await createAgent();
+    const threadId = await storage.createThread({ agentId, userId: 'user-1' });
+    await storage.addMessage(threadId, 'user', 'Hi');
+    database.close();
+
+    database = openDatabase(join(directory, 'agents.db'));
+    storage = new SqliteStorage({ database });
+
+    expect(storage.migrate()).toBe(0);
+    expect((await storage.getAgent(agentId))?.metadata).toEqual({ tier: 'gold' });
+    expect((await storage.getMessages(threadId)).map((m) => m.content)).toEqual(['Hi']);
+  });
+
+  it('should keep messages in order and delete them with their thread', async () => {
+    const agentId = await createAgent();
+    const threadId = await storage.createThread({ agentId, userId: 'user-1' });
+    for (const content of ['One', 'Two', 'Three']) {
+      await storage.addMessage(threadId, 'user', content);
+    }
+
+    expect((await storage.getMessages(threadId, 2)).map((m) => m.content)).toEqual(['Two', 'Three']);
+
+    await storage.deleteAgent(agentId);
+    expect(await storage.getThread(threadId)).toBeNull();
+    expect(storage.getStats()).toEqual({ agents: 0, threads: 0, messages: 0 });
+  });
+
+  it('should fork threads and page through them', async () => {
+    const agentId = await createAgent();
+    const threadId = await storage.createThread({ agentId, userId: 'user-1', metadata: { channel: 'web' } });
+    const firstId = await storage.addMessage(threadId, 'user', 'One');
+    await storage.addMessage(threadId, 'assistant', 'Two');
+
+    const forkId = await storage.forkThread(threadId, { agentId, userId: 'user-1' }, firstId);
+    const first = await storage.listThreadsPage({ userId: 'user-1' }, { limit: 1, sortBy: 'createdAt' });
+    const second = await storage.listThreadsPage(
+      { userId: 'user-1' },
+      { limit: 1, sortBy: 'createdAt', cursor: first.nextCursor }
+    );
+    const web = await storage.listThreadsPage({ agentId }, { metadata: { channel: 'web' } });
+
+    expect((await storage.getMessages(forkId)).map((m) => m.content)).toEqual(['One']);
+    expect([first.items[0].id, second.items[0].id].sort()).toEqual([threadId, forkId].sort());
+    expect(second.nextCursor).toBeUndefined();
+    expect(web.items.map((t) => t.id)).toEqual([threadId]);
+  });
+
+  it('should page messages written in the same millisecond in insertion order', async () => {
+    const agentId = await createAgent();
+    const threadId = await storage.createThread({ agentId, userId: 'user-1' });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (const content of ['Call', 'Result', 'Answer', 'Thanks']) {
+      await storage.addMessage(threadId, 'assistant', content);
+    }
+    vi.useRealTimers();
+
+    const first = await storage.listMessagesPage(threadId, { limit: 3, order: 'asc' });
+    const second = await storage.listMessagesPage(threadId, { limit: 3, order: 'asc', cursor: first.nextCursor });
+    const newest = await storage.listMessagesPage(threadId, { limit: 2 });
+
+    expect([...first.items, ...second.items].map((m) => m.content)).toEqual(['Call', 'Result', 'Answer', 'Thanks']);
+    expect(newest.items.map((m) => m.content)).toEqual(['Thanks', 'Answer']);
+  });
+});
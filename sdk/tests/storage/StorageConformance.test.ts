@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createRequire } from 'node:module';
+import { MemoryStorage } from '../../src/storage/MemoryStorage';
+import { SqliteStorage } from '../../src/storage/SqliteStorage';
+import { UpstashStorage } from '../../src/storage/UpstashStorage';
+import type { SqliteDatabase } from '../../src/storage/SqliteStorage';
+import {
+  createStorageConformanceTests,
+  describeStorageConformance,
+  StorageConformanceError,
+} from '../../src/testing';
+import { startUpstashStandIn, type UpstashStandIn } from './upstashStandIn';
+
+const require = createRequire(import.meta.url);
+
+type ClosableDatabase = SqliteDatabase & { close(): void };
+
+/**
+ * Open a database with `node:sqlite` (Node 22.5+) or the `better-sqlite3` dev dependency.
+ * Loaded with `require`, as Vite cannot resolve `node:sqlite` imports.
+ */
+function openDatabase(): ClosableDatabase {
+  try {
+    const { DatabaseSync } = require('node:sqlite');
+    return new DatabaseSync(':memory:');
+  } catch {
+    const Database = require('better-sqlite3');
+    return new Database(':memory:');
+  }
+}
+
+describeStorageConformance('MemoryStorage', { create: () => new MemoryStorage() }, { describe, it });
+
+describe('SqliteStorage', () => {
+  const databases = new Map<SqliteStorage, ClosableDatabase>();
+
+  describeStorageConformance(
+    'SqliteStorage',
+    {
+      create: () => {
+        const database = openDatabase();
+        const storage = new SqliteStorage({ database });
+        databases.set(storage, database);
+        return storage;
+      },
+      destroy: (storage) => databases.get(storage)?.close(),
+    },
+    { describe, it }
+  );
+});
+
+describe('UpstashStorage', () => {
+  let redis: UpstashStandIn;
+  let tenants = 0;
+
+  beforeAll(async () => {
+    redis = await startUpstashStandIn();
+  });
+
+  afterAll(async () => {
+    await redis.close();
+  });
+
+  describeStorageConformance(
+    'against a local stand-in',
+    {
+      // A fresh key prefix per test keeps tests apart on the shared stand-in
+      create: () =>
+        new UpstashStorage({ url: redis.url, token: redis.token, prefix: `tenant-${++tenants}` }),
+      destroy: (storage) => storage.clear(),
+    },
+    { describe, it }
+  );
+});
+
+describe('createStorageConformanceTests', () => {
+  it('should leave out skipped tests', () => {
+    const all = createStorageConformanceTests({ create: () => new MemoryStorage() });
+    const skipped = createStorageConformanceTests({
+      create: () => new MemoryStorage(),
+      skip: ['forks a thread up to a message with new message IDs'],
+    });
+
+    expect(skipped).toHaveLength(all.length - 1);
+    expect(new Set(all.map((test) => test.group))).toEqual(
+      new Set(['agents', 'threads', 'messages', 'pagination', 'deletes', 'user memory'])
+    );
+  });
+
+  it('should fail adapters that do not cascade agent deletes', async () => {
+    class LeakyStorage extends MemoryStorage {
+      async deleteAgent(agentId: string): Promise<void> {
+        (this as any).agents.delete(agentId);
+      }
+    }
+    const test = createStorageConformanceTests({ create: () => new LeakyStorage() }).find(
+      (t) => t.name === "cascades agent deletion to the agent's threads"
+    )!;
+
+    await expect(test.run()).rejects.toThrow(StorageConformanceError);
+  });
+});
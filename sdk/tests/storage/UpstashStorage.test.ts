@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { UpstashStorage } from '../../src/storage/UpstashStorage';
+import { startUpstashStandIn, type UpstashStandIn } from './upstashStandIn';
+
+describe('UpstashStorage', () => {
+  let redis: UpstashStandIn;
+  let storage: UpstashStorage;
+
+  beforeAll(async () => {
+    redis = await startUpstashStandIn();
+  });
+
+  afterAll(async () => {
+    await redis.close();
+  });
+
+  beforeEach(() => {
+    redis.clear();
+    storage = new UpstashStorage({ url: redis.url, token: redis.token, prefix: 'app' });
+  });
+
+  /**
+   * Write a thread the way versions before the end-user index did: hash plus agent and user SETs
+   */
+  const writeLegacyThread = (id: string, endUserId: string, createdAt: string) => {
+    redis.run([
+      'HSET', `app:thread:${id}`,
+      'id', id, 'agentId', 'agent-1', 'userId', 'user-1', 'endUserId', endUserId,
+      'createdAt', createdAt, 'updatedAt', createdAt,
+      'messages', '[]', 'isPendingThread', 'true',
+    ]);
+    redis.run(['SADD', 'app:threads:agent:agent-1', id]);
+    redis.run(['SADD', 'app:threads:user:user-1', id]);
+  };
+
+  describe('end-user thread index', () => {
+    it('should index threads created before the end-user index on first listing', async () => {
+      writeLegacyThread('old-1', 'customer-1', '2024-01-01T00:00:00.000Z');
+      writeLegacyThread('old-2', 'customer-2', '2024-01-02T00:00:00.000Z');
+      const newer = await storage.createThread({ agentId: 'agent-1', userId: 'user-1', endUserId: 'customer-1' });
+
+      const page = await storage.listThreadsPage({ endUserId: 'customer-1' }, { sortBy: 'createdAt' });
+
+      expect(page.items.map((t) => t.id)).toEqual([newer, 'old-1']);
+      expect(redis.run(['GET', 'app:migrations:thread_indexes'])).toEqual(expect.any(String));
+    });
+
+    it('should scan only once per database', async () => {
+      writeLegacyThread('old-1', 'customer-1', '2024-01-01T00:00:00.000Z');
+
+      await storage.listThreadsPage({ endUserId: 'customer-1' });
+      await storage.listThreadsPage({ endUserId: 'customer-1' });
+      const otherInstance = new UpstashStorage({ url: redis.url, token: redis.token, prefix: 'app' });
+      await otherInstance.listThreadsPage({ endUserId: 'customer-1' });
+
+      expect(redis.commands.filter(([cmd]) => cmd === 'SCAN')).toHaveLength(1);
+    });
+
+    it('should rebuild every index on demand', async () => {
+      writeLegacyThread('old-1', 'customer-1', '2024-01-01T00:00:00.000Z');
+      writeLegacyThread('old-2', 'customer-1', '2024-01-02T00:00:00.000Z');
+
+      expect(await storage.rebuildThreadIndexes()).toBe(2);
+      expect(await storage.rebuildThreadIndexes()).toBe(2);
+
+      expect(redis.run(['ZRANGE', 'app:threads:enduser:customer-1:by_updated', '-inf', '+inf', 'BYSCORE'])).toEqual([
+        'old-1',
+        'old-2',
+      ]);
+      expect(redis.run(['SMEMBERS', 'app:threads:enduser:customer-1'])).toEqual(['old-1', 'old-2']);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { createServer, type Server } from 'node:http';
+
+type Value = Map<string, string> | Set<string> | string;
+type Reply = string | number | null | Reply[];
+
+/**
+ * Minimal Upstash Redis REST stand-in: single commands on `/` and batches on `/pipeline`,
+ * covering the hash, set, sorted set and key commands UpstashStorage uses.
+ * Replies follow the REST API, so HGETALL returns a flat field/value array.
+ */
+export interface UpstashStandIn {
+  url: string;
+  token: string;
+  /** Run a command directly, e.g. to write data the way an older version did */
+  run(command: Array<string | number>): Reply;
+  /** Every command received over HTTP, in order */
+  commands: string[][];
+  clear(): void;
+  close(): Promise<void>;
+}
+
+export async function startUpstashStandIn(token = 'test-token'): Promise<UpstashStandIn> {
+  const data = new Map<string, Value>();
+  const commands: string[][] = [];
+
+  const hash = (key: string, create = false) => {
+    const value = data.get(key);
+    if (value instanceof Map) return value;
+    if (value !== undefined) throw new Error('WRONGTYPE');
+    const created = new Map<string, string>();
+    if (create) data.set(key, created);
+    return created;
+  };
+  const set = (key: string, create = false) => {
+    const value = data.get(key);
+    if (value instanceof Set) return value;
+    if (value !== undefined) throw new Error('WRONGTYPE');
+    const created = new Set<string>();
+    if (create) data.set(key, created);
+    return created;
+  };
+  // Sorted sets are hashes of member -> score under a marked key
+  const zset = (key: string, create = false) => hash(`zset\0${key}`, create);
+  const dropIfEmpty = (key: string) => {
+    const value = data.get(key);
+    if ((value instanceof Map || value instanceof Set) && value.size === 0) data.delete(key);
+  };
+  const glob = (pattern: string) =>
+    new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+  const userKeys = () => [...data.keys()].map((key) => key.replace(/^zset\0/, ''));
+
+  const parseBound = (bound: string) => {
+    const exclusive = bound.startsWith('(');
+    const text = exclusive ? bound.slice(1) : bound;
+    const value = text === '-inf' ? -Infinity : text === '+inf' ? Infinity : Number(text);
+    return (score: number, isMin: boolean) =>
+      isMin ? (exclusive ? score > value : score >= value) : exclusive ? score < value : score <= value;
+  };
+
+  const run = (command: Array<string | number>): Reply => {
+    const [name, ...args] = command.map(String);
+
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'HSET': {
+        const fields = hash(args[0], true);
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          if (!fields.has(args[i])) added++;
+          fields.set(args[i], args[i + 1]);
+        }
+        return added;
+      }
+      case 'HGETALL':
+        return [...hash(args[0]).entries()].flat();
+      case 'HMGET':
+        return args.slice(1).map((field) => hash(args[0]).get(field) ?? null);
+      case 'HDEL': {
+        const fields = hash(args[0]);
+        const removed = args.slice(1).filter((field) => fields.delete(field)).length;
+        dropIfEmpty(args[0]);
+        return removed;
+      }
+      case 'SADD': {
+        const members = set(args[0], true);
+        const added = args.slice(1).filter((m) => !members.has(m) && members.add(m)).length;
+        return added;
+      }
+      case 'SREM': {
+        const members = set(args[0]);
+        const removed = args.slice(1).filter((m) => members.delete(m)).length;
+        dropIfEmpty(args[0]);
+        return removed;
+      }
+      case 'SMEMBERS':
+        return [...set(args[0])];
+      case 'SCARD':
+        return set(args[0]).size;
+      case 'ZADD': {
+        const scores = zset(args[0], true);
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          if (!scores.has(args[i + 1])) added++;
+          scores.set(args[i + 1], args[i]);
+        }
+        return added;
+      }
+      case 'ZREM': {
+        const scores = zset(args[0]);
+        const removed = args.slice(1).filter((m) => scores.delete(m)).length;
+        dropIfEmpty(`zset\0${args[0]}`);
+        return removed;
+      }
+      case 'ZCARD':
+        return zset(args[0]).size;
+      case 'ZRANGE': {
+        const options = args.slice(3).map((arg) => arg.toUpperCase());
+        if (!options.includes('BYSCORE')) throw new Error('ZRANGE is only supported with BYSCORE');
+        const rev = options.includes('REV');
+        const [min, max] = rev ? [args[2], args[1]] : [args[1], args[2]];
+        const inMin = parseBound(min);
+        const inMax = parseBound(max);
+
+        let entries = [...zset(args[0]).entries()]
+          .map(([member, score]) => ({ member, score: Number(score) }))
+          .filter(({ score }) => inMin(score, true) && inMax(score, false))
+          .sort((a, b) => a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0));
+        if (rev) entries.reverse();
+
+        const limit = options.indexOf('LIMIT');
+        if (limit !== -1) {
+          const offset = Number(args[3 + limit + 1]);
+          const count = Number(args[3 + limit + 2]);
+          entries = entries.slice(offset, count < 0 ? undefined : offset + count);
+        }
+        return options.includes('WITHSCORES')
+          ? entries.flatMap(({ member, score }) => [member, String(score)])
+          : entries.map(({ member }) => member);
+      }
+      case 'SET':
+        data.set(args[0], args[1]);
+        return 'OK';
+      case 'GET': {
+        const value = data.get(args[0]);
+        return typeof value === 'string' ? value : null;
+      }
+      case 'DEL':
+        return args.filter((key) => data.delete(key) || data.delete(`zset\0${key}`)).length;
+      case 'KEYS':
+        return userKeys().filter((key) => glob(args[0]).test(key));
+      case 'SCAN': {
+        // Returns everything in one page; callers must still follow the cursor
+        const match = args.indexOf('MATCH');
+        const pattern = match === -1 ? '*' : args[match + 1];
+        return ['0', userKeys().filter((key) => glob(pattern).test(key))];
+      }
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const reply = (command: Array<string | number>) => {
+    commands.push(command.map(String));
+    try {
+      return { result: run(command) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  };
+
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.headers.authorization !== `Bearer ${token}`) {
+        res.writeHead(401).end('Unauthorized');
+        return;
+      }
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      const result =
+        req.url === '/pipeline'
+          ? (body as Array<Array<string | number>>).map(reply)
+          : reply(body as Array<string | number>);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(result));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as { port: number };
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    token,
+    run,
+    commands,
+    clear: () => {
+      data.clear();
+      commands.length = 0;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}